@@ -0,0 +1,294 @@
+import express from "express";
+import { ACTIVE_ACCOUNT, db } from "./db";
+import { requireAdmin } from "./auth";
+import { recordAudit, type AuditRecord } from "./audit";
+import { HttpError, sendError } from "./errors";
+import { disconnectUser } from "./chat";
+import { BOOKING_STATUSES, getBooking, overrideBooking, type BookingStatus } from "./bookings";
+import { refundSettledBooking } from "./payments";
+import { bookingLedger } from "./payments/ledger";
+
+const PAGE_SIZE = 50;
+const MAX_METRIC_DAYS = 365;
+const MAX_SUSPENSION_DAYS = 365;
+
+function parsePage(value: unknown) {
+  const page = Number(value);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+function requireReason(body: { reason?: unknown } | undefined) {
+  const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+  if (!reason) throw new HttpError(400, "Give a reason; it is kept in the audit log");
+  return reason;
+}
+
+// LIKE pattern for a free-text search, with wildcards in the input taken literally.
+function likePattern(text: string) {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+const ADMIN_USER_COLUMNS = `
+  id, name, email, phone, role, city, verified, friend_status, is_admin, account_status, suspended_until,
+  status_reason, created_at, ${ACTIVE_ACCOUNT} AS active
+`;
+
+function getAdminUser(id: number | string) {
+  return db.prepare(`SELECT ${ADMIN_USER_COLUMNS} FROM users WHERE id = ?`).get(id) as
+    { id: number; name: string; is_admin: number; account_status: string } | undefined;
+}
+
+export type AccountAction = "suspend" | "ban" | "unban";
+
+// Suspending or banning also ends the user's sessions and closes their chat sockets so it takes
+// effect at once. A null actor is the system itself, e.g. an automatic restriction after
+// repeated reports.
+export const setAccountStatus = db.transaction((userId: number, actorId: number | null, action: AccountAction, reason: string, days?: number) => {
+  const user = getAdminUser(userId);
+  if (!user) throw new HttpError(404, "User not found");
+  if (user.id === actorId) throw new HttpError(403, "You can't change your own account status");
+  if (user.is_admin && action !== "unban") throw new HttpError(403, "Admins can't be suspended or banned here");
+
+  if (action === "unban") {
+    db.prepare("UPDATE users SET account_status = 'active', suspended_until = NULL, status_reason = NULL WHERE id = ?").run(userId);
+  } else {
+    const until = action === "suspend" && days ? `datetime('now', '+${days} days')` : "NULL";
+    db.prepare(`UPDATE users SET account_status = ?, suspended_until = ${until}, status_reason = ? WHERE id = ?`)
+      .run(action === "ban" ? "banned" : "suspended", reason, userId);
+    db.prepare("DELETE FROM sessions WHERE user_id = ?").run(userId);
+    disconnectUser(userId);
+  }
+  recordAudit({
+    actorId,
+    action: `user.${action === "unban" ? "reinstated" : action === "ban" ? "banned" : "suspended"}`,
+    entity: "user",
+    entityId: userId,
+    subjectUserId: userId,
+    detail: { reason, ...(days ? { days } : {}), previousStatus: user.account_status },
+  });
+  return getAdminUser(userId);
+});
+
+// Bookings created, money captured and platform revenue per UTC day, oldest first.
+export function platformMetrics(days: number) {
+  const since = `-${days - 1} days`;
+  const bookings = db.prepare(`
+    SELECT date(created_at) AS day, COUNT(*) AS bookings FROM bookings
+    WHERE created_at >= date('now', ?) GROUP BY day
+  `).all(since) as { day: string; bookings: number }[];
+  // GMV is what customers were charged; fees are platform revenue net of goodwill refunds.
+  const money = db.prepare(`
+    SELECT date(t.created_at) AS day,
+      SUM(CASE WHEN t.kind = 'capture' AND e.account = 'gateway_clearing' THEN e.debit ELSE 0 END) AS gmv,
+      SUM(CASE WHEN e.account = 'platform_revenue' THEN e.credit - e.debit ELSE 0 END) AS fees,
+      SUM(CASE WHEN t.kind IN ('refund', 'goodwill_refund') AND e.account = 'gateway_clearing' THEN e.credit ELSE 0 END) AS refunds
+    FROM ledger_transactions t JOIN ledger_entries e ON e.transaction_id = t.id
+    WHERE t.created_at >= date('now', ?)
+    GROUP BY day
+  `).all(since) as { day: string; gmv: number; fees: number; refunds: number }[];
+
+  const series = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const day = new Date(Date.now() - offset * 86400000).toISOString().slice(0, 10);
+    const counts = bookings.find(row => row.day === day);
+    const amounts = money.find(row => row.day === day);
+    series.push({
+      day,
+      bookings: counts?.bookings || 0,
+      gmv: amounts?.gmv || 0,
+      fees: amounts?.fees || 0,
+      refunds: amounts?.refunds || 0,
+    });
+  }
+
+  const count = (sql: string) => (db.prepare(sql).get() as { count: number }).count;
+  return {
+    days: series,
+    totals: {
+      bookings: series.reduce((sum, day) => sum + day.bookings, 0),
+      gmv: series.reduce((sum, day) => sum + day.gmv, 0),
+      fees: series.reduce((sum, day) => sum + day.fees, 0),
+      refunds: series.reduce((sum, day) => sum + day.refunds, 0),
+    },
+    queues: {
+      friendApplications: count("SELECT COUNT(*) AS count FROM users WHERE role = 'friend' AND friend_status = 'submitted'"),
+      idVerifications: count("SELECT COUNT(*) AS count FROM id_verifications WHERE status = 'pending'"),
+      reports: count("SELECT COUNT(*) AS count FROM reports WHERE status IN ('open', 'escalated')"),
+      messages: count("SELECT COUNT(*) AS count FROM messages WHERE moderation_status IN ('held', 'flagged')"),
+    },
+    users: {
+      customers: count("SELECT COUNT(*) AS count FROM users WHERE role = 'customer'"),
+      friends: count("SELECT COUNT(*) AS count FROM users WHERE role = 'friend' AND friend_status = 'approved'"),
+      restricted: count(`SELECT COUNT(*) AS count FROM users WHERE NOT ${ACTIVE_ACCOUNT}`),
+    },
+  };
+}
+
+export const adminRouter = express.Router();
+
+adminRouter.get("/admin/metrics", requireAdmin, (req, res) => {
+  const days = Math.min(Math.max(Number(req.query.days) || 30, 1), MAX_METRIC_DAYS);
+  res.json(platformMetrics(days));
+});
+
+// Search by name, email or phone, optionally narrowed by role and account status.
+adminRouter.get("/admin/users", requireAdmin, (req, res) => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  if (q) {
+    conditions.push("(name LIKE ? ESCAPE '\\' OR email LIKE ? ESCAPE '\\' OR phone LIKE ? ESCAPE '\\' OR CAST(id AS TEXT) = ?)");
+    params.push(likePattern(q), likePattern(q), likePattern(q), q);
+  }
+  if (req.query.role === "customer" || req.query.role === "friend") {
+    conditions.push("role = ?");
+    params.push(req.query.role);
+  }
+  if (req.query.status === "restricted") conditions.push(`NOT ${ACTIVE_ACCOUNT}`);
+  else if (req.query.status === "active") conditions.push(ACTIVE_ACCOUNT);
+
+  const page = parsePage(req.query.page);
+  const users = db.prepare(`
+    SELECT ${ADMIN_USER_COLUMNS} FROM users
+    ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY id DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, PAGE_SIZE + 1, (page - 1) * PAGE_SIZE);
+  res.json({ users: users.slice(0, PAGE_SIZE), page, hasMore: users.length > PAGE_SIZE });
+});
+
+adminRouter.post("/admin/users/:id/:action", requireAdmin, (req, res) => {
+  const action = req.params.action as AccountAction;
+  if (!["suspend", "ban", "unban"].includes(action)) {
+    res.status(404).json({ error: "Unknown action" });
+    return;
+  }
+  try {
+    const reason = requireReason(req.body);
+    const days = req.body?.days === undefined || req.body.days === null || req.body.days === "" ? undefined : Number(req.body.days);
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_SUSPENSION_DAYS)) {
+      throw new HttpError(400, `Suspensions last between 1 and ${MAX_SUSPENSION_DAYS} days, or leave days empty for no end date`);
+    }
+    res.json(setAccountStatus(Number(req.params.id), req.user!.id, action, reason, days));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+adminRouter.get("/admin/bookings", requireAdmin, (req, res) => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (typeof req.query.status === "string" && BOOKING_STATUSES.includes(req.query.status as BookingStatus)) {
+    conditions.push("bookings.status = ?");
+    params.push(req.query.status);
+  }
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  if (q) {
+    conditions.push("(CAST(bookings.id AS TEXT) = ? OR customer.name LIKE ? ESCAPE '\\' OR friend.name LIKE ? ESCAPE '\\' OR customer.email LIKE ? ESCAPE '\\' OR friend.email LIKE ? ESCAPE '\\')");
+    params.push(q, likePattern(q), likePattern(q), likePattern(q), likePattern(q));
+  }
+
+  const page = parsePage(req.query.page);
+  const bookings = db.prepare(`
+    SELECT bookings.*, customer.name AS customer_name, friend.name AS friend_name,
+      (SELECT status FROM payments WHERE payments.booking_id = bookings.id ORDER BY id DESC LIMIT 1) AS payment_status
+    FROM bookings
+    JOIN users customer ON customer.id = bookings.customer_id
+    JOIN users friend ON friend.id = bookings.friend_id
+    ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY bookings.id DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, PAGE_SIZE + 1, (page - 1) * PAGE_SIZE);
+  res.json({ bookings: bookings.slice(0, PAGE_SIZE), page, hasMore: bookings.length > PAGE_SIZE });
+});
+
+adminRouter.get("/admin/bookings/:id", requireAdmin, (req, res) => {
+  const booking = getBooking(Number(req.params.id));
+  if (!booking) {
+    res.status(404).json({ error: "Booking not found" });
+    return;
+  }
+  const events = db.prepare(`
+    SELECT booking_events.*, actor.name AS actor_name
+    FROM booking_events LEFT JOIN users actor ON actor.id = booking_events.actor_id
+    WHERE booking_id = ? ORDER BY booking_events.id
+  `).all(booking.id);
+  const payments = db.prepare("SELECT * FROM payments WHERE booking_id = ? ORDER BY id").all(booking.id);
+  res.json({ booking, events, payments, ledger: bookingLedger(booking.id) });
+});
+
+adminRouter.post("/admin/bookings/:id/override", requireAdmin, async (req, res) => {
+  try {
+    const reason = requireReason(req.body);
+    const before = getBooking(Number(req.params.id));
+    const booking = await overrideBooking(Number(req.params.id), req.body?.status, req.user!.id, reason);
+    recordAudit({
+      actorId: req.user!.id,
+      action: "booking.overridden",
+      entity: "booking",
+      entityId: booking.id,
+      detail: { from: before?.status, to: req.body.status, reason },
+    });
+    res.json(booking);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Amounts are in paise; leave amount out to refund everything that hasn't been refunded yet.
+adminRouter.post("/admin/bookings/:id/refund", requireAdmin, async (req, res) => {
+  const booking = getBooking(Number(req.params.id));
+  if (!booking) {
+    res.status(404).json({ error: "Booking not found" });
+    return;
+  }
+  try {
+    const reason = requireReason(req.body);
+    const amount = req.body?.amount === undefined || req.body.amount === null || req.body.amount === "" ? undefined : Number(req.body.amount);
+    const result = await refundSettledBooking(booking, amount, `Admin refund: ${reason}`);
+    recordAudit({
+      actorId: req.user!.id,
+      action: "booking.refunded",
+      entity: "booking",
+      entityId: booking.id,
+      subjectUserId: booking.customer_id,
+      detail: { amount: result.refunded, reason },
+    });
+    res.json(result);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Newest first. Filter by the record acted on or by the person it concerned.
+adminRouter.get("/admin/audit", requireAdmin, (req, res) => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (typeof req.query.entity === "string" && req.query.entity) {
+    conditions.push("audit_log.entity = ?");
+    params.push(req.query.entity);
+  }
+  if (req.query.entityId) {
+    conditions.push("audit_log.entity_id = ?");
+    params.push(Number(req.query.entityId));
+  }
+  if (req.query.userId) {
+    conditions.push("(audit_log.subject_user_id = ? OR audit_log.actor_id = ?)");
+    params.push(Number(req.query.userId), Number(req.query.userId));
+  }
+  const page = parsePage(req.query.page);
+  const rows = db.prepare(`
+    SELECT audit_log.*, actor.name AS actor_name, subject.name AS subject_name
+    FROM audit_log
+    LEFT JOIN users actor ON actor.id = audit_log.actor_id
+    LEFT JOIN users subject ON subject.id = audit_log.subject_user_id
+    ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY audit_log.id DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, PAGE_SIZE + 1, (page - 1) * PAGE_SIZE) as (Omit<AuditRecord, "detail"> & { detail: string | null; subject_name: string | null })[];
+  res.json({
+    entries: rows.slice(0, PAGE_SIZE).map(row => ({ ...row, detail: row.detail ? JSON.parse(row.detail) : null })),
+    page,
+    hasMore: rows.length > PAGE_SIZE,
+  });
+});
@@ -0,0 +1,123 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { db } from "./db";
+import { HttpError } from "./errors";
+
+export type AttachmentKind = "image" | "file";
+
+export interface Attachment {
+  id: number;
+  uploader_id: number;
+  // The other side of the conversation it was uploaded for; nobody else can send or see it.
+  receiver_id: number;
+  // Null until a chat message carries it.
+  message_id: number | null;
+  kind: AttachmentKind;
+  mime_type: string;
+  file_name: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  storage_key: string;
+  thumbnail_key: string | null;
+  created_at: string;
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const MAX_IMAGE_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 320;
+const ATTACHMENT_DIR = path.resolve(process.env.CHAT_ATTACHMENT_DIR || "uploads/chat");
+
+// The first bytes of each accepted type, so a renamed file can't pass as another.
+export const ATTACHMENT_TYPES: Record<string, { kind: AttachmentKind; signature: number[] }> = {
+  "image/jpeg": { kind: "image", signature: [0xff, 0xd8, 0xff] },
+  "image/png": { kind: "image", signature: [0x89, 0x50, 0x4e, 0x47] },
+  "image/webp": { kind: "image", signature: [0x52, 0x49, 0x46, 0x46] },
+  "application/pdf": { kind: "file", signature: [0x25, 0x50, 0x44, 0x46] },
+};
+
+const IMAGE_FORMATS = { "image/jpeg": "jpeg", "image/png": "png", "image/webp": "webp" } as const;
+
+export function attachmentPath(key: string) {
+  return path.join(ATTACHMENT_DIR, key);
+}
+
+function cleanFileName(name: string) {
+  const base = path.basename(name).replace(/[^\p{L}\p{N}._\- ]+/gu, "_").trim().slice(0, 100);
+  return base || "attachment";
+}
+
+// Images are decoded and re-encoded, which drops EXIF (including GPS location) and any other
+// metadata; the orientation is applied to the pixels first so photos don't come out sideways.
+async function processImage(data: Buffer, mimeType: keyof typeof IMAGE_FORMATS) {
+  try {
+    const { data: image, info } = await sharp(data, { failOn: "error" })
+      .rotate()
+      .resize({ width: MAX_IMAGE_DIMENSION, height: MAX_IMAGE_DIMENSION, fit: "inside", withoutEnlargement: true })
+      .toFormat(IMAGE_FORMATS[mimeType])
+      .toBuffer({ resolveWithObject: true });
+    const thumbnail = await sharp(image)
+      .resize({ width: THUMBNAIL_DIMENSION, height: THUMBNAIL_DIMENSION, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+    return { image, thumbnail, width: info.width, height: info.height };
+  } catch {
+    throw new HttpError(400, "That image couldn't be read");
+  }
+}
+
+export async function saveAttachment(uploaderId: number, receiverId: number, mimeType: string, fileName: string, data: Buffer) {
+  const type = ATTACHMENT_TYPES[mimeType];
+  if (!type) throw new HttpError(415, "Send a JPEG, PNG or WebP image, or a PDF");
+  if (!type.signature.every((byte, index) => data[index] === byte)) throw new HttpError(415, "The file doesn't match its type");
+
+  fs.mkdirSync(ATTACHMENT_DIR, { recursive: true });
+  const storageKey = randomUUID();
+  let stored = data;
+  let thumbnailKey: string | null = null;
+  let width: number | null = null;
+  let height: number | null = null;
+  if (type.kind === "image") {
+    const processed = await processImage(data, mimeType as keyof typeof IMAGE_FORMATS);
+    stored = processed.image;
+    ({ width, height } = processed);
+    thumbnailKey = `${storageKey}-thumb`;
+    fs.writeFileSync(attachmentPath(thumbnailKey), processed.thumbnail);
+  }
+  fs.writeFileSync(attachmentPath(storageKey), stored);
+
+  const info = db.prepare(`
+    INSERT INTO attachments (uploader_id, receiver_id, kind, mime_type, file_name, size, width, height, storage_key, thumbnail_key)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(uploaderId, receiverId, type.kind, mimeType, cleanFileName(fileName), stored.length, width, height, storageKey, thumbnailKey);
+  return getAttachment(Number(info.lastInsertRowid))!;
+}
+
+export function getAttachment(id: number | string) {
+  return db.prepare("SELECT * FROM attachments WHERE id = ?").get(id) as Attachment | undefined;
+}
+
+// An upload the sender made for this conversation and hasn't sent yet.
+export function getUnsentAttachment(id: number, uploaderId: number, receiverId: number) {
+  return db.prepare(`
+    SELECT * FROM attachments WHERE id = ? AND uploader_id = ? AND receiver_id = ? AND message_id IS NULL
+  `).get(id, uploaderId, receiverId) as Attachment | undefined;
+}
+
+// What clients see: enough to render a preview and a download link.
+export function toPublicAttachment(attachment: Attachment) {
+  const { id, kind, mime_type, file_name, size, width, height } = attachment;
+  return { id, kind, mime_type, file_name, size, width, height };
+}
+
+// Adds each message's attachment, if it has one, in a single query.
+export function withAttachments<T extends { attachment_id?: number | null }>(messages: T[]) {
+  const ids = messages.map(message => message.attachment_id).filter((id): id is number => !!id);
+  if (ids.length === 0) return messages.map(message => ({ ...message, attachment: null }));
+  const attachments = db.prepare(`SELECT * FROM attachments WHERE id IN (${ids.map(() => "?").join(", ")})`)
+    .all(...ids) as Attachment[];
+  const byId = new Map(attachments.map(attachment => [attachment.id, toPublicAttachment(attachment)]));
+  return messages.map(message => ({ ...message, attachment: message.attachment_id ? byId.get(message.attachment_id) ?? null : null }));
+}
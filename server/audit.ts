@@ -0,0 +1,44 @@
+import { db } from "./db";
+
+export interface AuditEntry {
+  // Null for actions the system takes on its own, such as expiry.
+  actorId: number | null;
+  action: string;
+  entity: string;
+  entityId?: number | null;
+  subjectUserId?: number | null;
+  detail?: Record<string, unknown>;
+}
+
+export interface AuditRecord {
+  id: number;
+  actor_id: number | null;
+  actor_name: string | null;
+  action: string;
+  subject_user_id: number | null;
+  entity: string;
+  entity_id: number | null;
+  detail: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export function recordAudit(entry: AuditEntry) {
+  db.prepare(`
+    INSERT INTO audit_log (actor_id, action, subject_user_id, entity, entity_id, detail)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.actorId, entry.action, entry.subjectUserId ?? null, entry.entity, entry.entityId ?? null,
+    entry.detail ? JSON.stringify(entry.detail) : null
+  );
+}
+
+// History of one record, oldest first.
+export function getAuditTrail(entity: string, entityId: number) {
+  const rows = db.prepare(`
+    SELECT audit_log.*, actor.name AS actor_name
+    FROM audit_log LEFT JOIN users actor ON actor.id = audit_log.actor_id
+    WHERE entity = ? AND entity_id = ?
+    ORDER BY audit_log.id
+  `).all(entity, entityId) as (Omit<AuditRecord, "detail"> & { detail: string | null })[];
+  return rows.map(row => ({ ...row, detail: row.detail ? JSON.parse(row.detail) : null })) as AuditRecord[];
+}
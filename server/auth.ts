@@ -0,0 +1,235 @@
+import express from "express";
+import { createHash, randomBytes } from "crypto";
+import type { IncomingMessage } from "http";
+import { ACTIVE_ACCOUNT, db } from "./db";
+import { hashPassword, verifyPassword } from "./passwords";
+
+export interface SessionUser {
+  id: number;
+  name: string;
+  email: string;
+  role: "customer" | "friend";
+  is_admin: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+    }
+  }
+}
+
+export const SESSION_COOKIE = "ft_session";
+const SESSION_TTL_DAYS = 30;
+
+// Admins are whoever ADMIN_EMAILS (comma-separated) names; there is no in-app way to grant it.
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+function isAdminEmail(email: string) {
+  return ADMIN_EMAILS.includes(email);
+}
+
+if (ADMIN_EMAILS.length > 0) {
+  db.prepare(`UPDATE users SET is_admin = 1 WHERE email IN (${ADMIN_EMAILS.map(() => "?").join(", ")})`).run(...ADMIN_EMAILS);
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function parseCookies(header: string | undefined) {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    cookies[part.slice(0, index).trim()] = decodeCookieValue(part.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+// Other sites on the domain can set cookies we never wrote; a badly encoded one is kept as sent
+// rather than failing the request.
+function decodeCookieValue(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Browsers send the session cookie; other clients can use "Authorization: Bearer <token>".
+export function getSessionToken(req: IncomingMessage) {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) return authorization.slice(7);
+  return parseCookies(req.headers.cookie)[SESSION_COOKIE];
+}
+
+export function getSessionUser(token: string | undefined): SessionUser | undefined {
+  if (!token) return undefined;
+  return db.prepare(`
+    SELECT users.id, users.name, users.email, users.role, users.is_admin
+    FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ? AND sessions.expires_at > datetime('now') AND ${ACTIVE_ACCOUNT}
+  `).get(hashToken(token)) as SessionUser | undefined;
+}
+
+function startSession(res: express.Response, userId: number) {
+  const token = randomBytes(32).toString("hex");
+  db.prepare(`
+    INSERT INTO sessions (token_hash, user_id, expires_at)
+    VALUES (?, ?, datetime('now', '+${SESSION_TTL_DAYS} days'))
+  `).run(hashToken(token), userId);
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_TTL_DAYS * 24 * 60 * 60 * 1000,
+  });
+  return token;
+}
+
+// Loads the signed-in user, if any, onto req.user. Routes decide whether one is required.
+export const authenticate: express.RequestHandler = (req, _res, next) => {
+  req.user = getSessionUser(getSessionToken(req));
+  next();
+};
+
+export const requireAuth: express.RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    res.status(401).json({ error: "Please log in to continue" });
+    return;
+  }
+  next();
+};
+
+export function requireRole(role: SessionUser["role"]): express.RequestHandler {
+  return (req, res, next) => {
+    if (!req.user) {
+      res.status(401).json({ error: "Please log in to continue" });
+    } else if (req.user.role !== role) {
+      res.status(403).json({ error: `Only ${role}s can do this` });
+    } else {
+      next();
+    }
+  };
+}
+
+export const requireAdmin: express.RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    res.status(401).json({ error: "Please log in to continue" });
+  } else if (!req.user.is_admin) {
+    res.status(403).json({ error: "Only admins can do this" });
+  } else {
+    next();
+  }
+};
+
+export function hasVerifiedPhone(userId: number) {
+  return !!db.prepare("SELECT 1 FROM users WHERE id = ? AND phone_verified_at IS NOT NULL").get(userId);
+}
+
+// Booking and chat need a confirmed mobile number, so there is a real way to reach everyone.
+export const requireVerifiedPhone: express.RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    res.status(401).json({ error: "Please log in to continue" });
+  } else if (!hasVerifiedPhone(req.user.id)) {
+    res.status(403).json({ error: "Verify your mobile number first" });
+  } else {
+    next();
+  }
+};
+
+export const authRouter = express.Router();
+
+authRouter.post("/auth/register", async (req, res) => {
+  const { name, email, password, role, city, age } = req.body;
+  const normalizedEmail = typeof email === "string" ? email.trim().toLowerCase() : "";
+
+  if (typeof name !== "string" || !name.trim()) {
+    res.status(400).json({ error: "Name is required" });
+    return;
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+    res.status(400).json({ error: "A valid email is required" });
+    return;
+  }
+  if (typeof password !== "string" || password.length < 8) {
+    res.status(400).json({ error: "Password must be at least 8 characters" });
+    return;
+  }
+  if (role !== "customer" && role !== "friend") {
+    res.status(400).json({ error: "Role must be customer or friend" });
+    return;
+  }
+  if (db.prepare("SELECT id FROM users WHERE email = ?").get(normalizedEmail)) {
+    res.status(409).json({ error: "An account with this email already exists" });
+    return;
+  }
+
+  try {
+    const passwordHash = await hashPassword(password);
+    // Ratings come from reviews, so new accounts start unrated rather than at the column's 5.0 default.
+    const info = db.prepare(`
+      INSERT INTO users (name, email, role, city, age, password_hash, friend_status, is_admin, rating, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, CURRENT_TIMESTAMP)
+    `).run(
+      name.trim(), normalizedEmail, role, city || null, age ? Number(age) : null, passwordHash,
+      role === "friend" ? "draft" : null, isAdminEmail(normalizedEmail) ? 1 : 0
+    );
+    const userId = Number(info.lastInsertRowid);
+    const token = startSession(res, userId);
+    res.status(201).json({ user: getMe(userId), token });
+  } catch (error) {
+    console.error("Registration failed", error);
+    res.status(500).json({ error: "Could not create account" });
+  }
+});
+
+authRouter.post("/auth/login", async (req, res) => {
+  const { email, password } = req.body;
+  const normalizedEmail = typeof email === "string" ? email.trim().toLowerCase() : "";
+  const user = db.prepare(`SELECT id, password_hash, ${ACTIVE_ACCOUNT} AS active, account_status, suspended_until FROM users WHERE email = ?`)
+    .get(normalizedEmail) as { id: number; password_hash: string | null; active: number; account_status: string; suspended_until: string | null } | undefined;
+
+  try {
+    if (!user || typeof password !== "string" || !(await verifyPassword(password, user.password_hash))) {
+      res.status(401).json({ error: "Invalid email or password" });
+      return;
+    }
+    if (!user.active) {
+      const until = user.account_status === "suspended" && user.suspended_until ? ` until ${user.suspended_until} UTC` : "";
+      res.status(403).json({ error: `This account has been ${user.account_status}${until}. Contact support@friendlytime.com.` });
+      return;
+    }
+    const token = startSession(res, user.id);
+    res.json({ user: getMe(user.id), token });
+  } catch (error) {
+    console.error("Login failed", error);
+    res.status(500).json({ error: "Could not log in" });
+  }
+});
+
+authRouter.post("/auth/logout", (req, res) => {
+  const token = getSessionToken(req);
+  if (token) db.prepare("DELETE FROM sessions WHERE token_hash = ?").run(hashToken(token));
+  res.clearCookie(SESSION_COOKIE);
+  res.json({ ok: true });
+});
+
+authRouter.get("/me", requireAuth, (req, res) => {
+  res.json({ user: getMe(req.user!.id) });
+});
+
+// The signed-in user's own profile, including private fields such as email.
+function getMe(userId: number) {
+  return db.prepare(`
+    SELECT id, name, email, role, city, age, about, hourly_rate, verified, rating, review_count, friend_status, is_admin,
+      phone, phone_verified_at
+    FROM users WHERE id = ?
+  `).get(userId);
+}
@@ -0,0 +1,269 @@
+import express from "express";
+import { db } from "./db";
+import { requireAuth, requireRole } from "./auth";
+import { HttpError, sendError } from "./errors";
+import type { BookingStatus } from "./bookings";
+import { addDays, isValidTimeZone, localDate, weekdayOf, zonedTimeToUtc } from "./time";
+
+export interface AvailabilityRule {
+  id: number;
+  weekday: number;
+  start_minute: number;
+  end_minute: number;
+}
+
+export interface AvailabilityException {
+  id: number;
+  date: string;
+  kind: "blocked" | "available";
+  // Both null on a blocked exception means the whole day is off.
+  start_minute: number | null;
+  end_minute: number | null;
+  note: string | null;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 62;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A real calendar date as YYYY-MM-DD; "2024-02-30" has the right shape but no such day.
+export function isValidDate(value: unknown): value is string {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+// --- Interval arithmetic ---
+
+function mergeIntervals(intervals: Interval[]) {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+function subtractIntervals(from: Interval[], remove: Interval[]) {
+  let result = from;
+  for (const cut of remove) {
+    result = result.flatMap(interval => {
+      if (cut.end <= interval.start || cut.start >= interval.end) return [interval];
+      const pieces: Interval[] = [];
+      if (cut.start > interval.start) pieces.push({ start: interval.start, end: cut.start });
+      if (cut.end < interval.end) pieces.push({ start: cut.end, end: interval.end });
+      return pieces;
+    });
+  }
+  return result;
+}
+
+// --- Busy time ---
+
+// Statuses during which the friend's time is held and cannot be booked by anyone else.
+export const ACTIVE_STATUSES: BookingStatus[] = ["requested", "accepted", "confirmed", "in_progress"];
+const ACTIVE_PLACEHOLDERS = ACTIVE_STATUSES.map(() => "?").join(", ");
+
+export function findOverlappingBooking(friendId: number, startAt: string, endAt: string) {
+  return db.prepare(`
+    SELECT id FROM bookings
+    WHERE friend_id = ? AND status IN (${ACTIVE_PLACEHOLDERS}) AND start_at < ? AND end_at > ?
+    LIMIT 1
+  `).get(friendId, ...ACTIVE_STATUSES, endAt, startAt) as { id: number } | undefined;
+}
+
+function getBookedIntervals(friendId: number, start: number, end: number): Interval[] {
+  const rows = db.prepare(`
+    SELECT start_at, end_at FROM bookings
+    WHERE friend_id = ? AND status IN (${ACTIVE_PLACEHOLDERS}) AND start_at < ? AND end_at > ?
+  `).all(friendId, ...ACTIVE_STATUSES, new Date(end).toISOString(), new Date(start).toISOString()) as { start_at: string; end_at: string }[];
+  return rows.map(row => ({ start: Date.parse(row.start_at), end: Date.parse(row.end_at) }));
+}
+
+// --- Availability ---
+
+interface FriendSchedule {
+  id: number;
+  timezone: string | null;
+  min_notice_hours: number | null;
+}
+
+function getFriendSchedule(friendId: number) {
+  return db.prepare("SELECT id, timezone, min_notice_hours FROM users WHERE id = ? AND role = 'friend'")
+    .get(friendId) as FriendSchedule | undefined;
+}
+
+export function getAvailabilitySettings(friendId: number) {
+  const friend = getFriendSchedule(friendId);
+  if (!friend) throw new HttpError(404, "Friend not found");
+  const rules = db.prepare("SELECT id, weekday, start_minute, end_minute FROM availability_rules WHERE friend_id = ? ORDER BY weekday, start_minute")
+    .all(friendId) as AvailabilityRule[];
+  const exceptions = db.prepare(`
+    SELECT id, date, kind, start_minute, end_minute, note FROM availability_exceptions
+    WHERE friend_id = ? AND date >= date('now', '-1 day') ORDER BY date, start_minute
+  `).all(friendId) as AvailabilityException[];
+  return {
+    timezone: friend.timezone || "Asia/Kolkata",
+    minNoticeHours: friend.min_notice_hours ?? 24,
+    rules,
+    exceptions,
+  };
+}
+
+// Free time per local day of the friend: weekly windows plus one-off extra windows, minus
+// blocked exceptions, existing bookings and anything inside the minimum notice period.
+export function getFreeSlots(friendId: number, from: string, to: string) {
+  const settings = getAvailabilitySettings(friendId);
+  const { timezone } = settings;
+  const earliestStart = Date.now() + settings.minNoticeHours * 60 * 60 * 1000;
+
+  const booked = getBookedIntervals(friendId, zonedTimeToUtc(from, 0, timezone), zonedTimeToUtc(addDays(to, 1), 0, timezone));
+
+  const days: { date: string; slots: { startAt: string; endAt: string }[] }[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const toInterval = (start: number, end: number) => ({
+      start: zonedTimeToUtc(date, start, timezone),
+      end: zonedTimeToUtc(date, end, timezone),
+    });
+    const dayExceptions = settings.exceptions.filter(e => e.date === date);
+    if (dayExceptions.some(e => e.kind === "blocked" && e.start_minute === null)) {
+      days.push({ date, slots: [] });
+      continue;
+    }
+
+    const open = mergeIntervals([
+      ...settings.rules.filter(r => r.weekday === weekdayOf(date)).map(r => toInterval(r.start_minute, r.end_minute)),
+      ...dayExceptions.filter(e => e.kind === "available").map(e => toInterval(e.start_minute!, e.end_minute!)),
+    ]);
+    const closed = [
+      ...dayExceptions.filter(e => e.kind === "blocked").map(e => toInterval(e.start_minute!, e.end_minute!)),
+      ...booked,
+      { start: 0, end: earliestStart },
+    ];
+
+    days.push({
+      date,
+      slots: subtractIntervals(open, closed).map(slot => ({
+        startAt: new Date(slot.start).toISOString(),
+        endAt: new Date(slot.end).toISOString(),
+      })),
+    });
+  }
+
+  return { timezone, minNoticeHours: settings.minNoticeHours, days };
+}
+
+// Whether [startAt, endAt) fits entirely inside one of the friend's free slots.
+export function isWithinAvailability(friendId: number, startAt: string, endAt: string) {
+  const timezone = getFriendSchedule(friendId)?.timezone || "Asia/Kolkata";
+  const start = Date.parse(startAt);
+  const end = Date.parse(endAt);
+  // A slot can run past midnight, so look at the day before and after as well.
+  const { days } = getFreeSlots(friendId, addDays(localDate(start, timezone), -1), addDays(localDate(end, timezone), 1));
+  const free = mergeIntervals(days.flatMap(day => day.slots.map(s => ({ start: Date.parse(s.startAt), end: Date.parse(s.endAt) }))));
+  return free.some(slot => slot.start <= start && slot.end >= end);
+}
+
+function parseMinute(value: unknown, field: string) {
+  const minute = Number(value);
+  if (!Number.isInteger(minute) || minute < 0 || minute > 24 * 60) {
+    throw new HttpError(400, `${field} must be a minute of the day between 0 and 1440`);
+  }
+  return minute;
+}
+
+function parseWindow(start: unknown, end: unknown) {
+  const startMinute = parseMinute(start, "start");
+  const endMinute = parseMinute(end, "end");
+  if (endMinute <= startMinute) throw new HttpError(400, "A window must end after it starts");
+  return { startMinute, endMinute };
+}
+
+export const availabilityRouter = express.Router();
+
+availabilityRouter.get("/friends/:id/availability", (req, res) => {
+  const from = String(req.query.from || "");
+  const to = String(req.query.to || "");
+  if (!isValidDate(from) || !isValidDate(to) || to < from) {
+    res.status(400).json({ error: "from and to must be dates (YYYY-MM-DD) with to on or after from" });
+    return;
+  }
+  const span = Date.parse(to) - Date.parse(from);
+  if (!(span <= MAX_RANGE_DAYS * DAY_MS)) {
+    res.status(400).json({ error: `Ask for at most ${MAX_RANGE_DAYS} days at a time` });
+    return;
+  }
+  try {
+    res.json(getFreeSlots(Number(req.params.id), from, to));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+availabilityRouter.get("/me/availability", requireRole("friend"), (req, res) => {
+  res.json(getAvailabilitySettings(req.user!.id));
+});
+
+// Replaces the weekly windows and notice settings in one go; exceptions are edited separately.
+availabilityRouter.put("/me/availability", requireRole("friend"), (req, res) => {
+  const { timezone, minNoticeHours, rules } = req.body;
+  try {
+    if (!isValidTimeZone(timezone)) throw new HttpError(400, "Unknown time zone");
+    const notice = Number(minNoticeHours);
+    if (!Number.isInteger(notice) || notice < 0 || notice > 24 * 30) {
+      throw new HttpError(400, "Minimum notice must be between 0 and 720 hours");
+    }
+    if (!Array.isArray(rules)) throw new HttpError(400, "rules must be a list");
+    const parsed = rules.map((rule: { weekday: unknown; start: unknown; end: unknown }) => {
+      const weekday = Number(rule.weekday);
+      if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) throw new HttpError(400, "weekday must be 0 (Sunday) to 6");
+      return { weekday, ...parseWindow(rule.start, rule.end) };
+    });
+
+    db.transaction(() => {
+      db.prepare("UPDATE users SET timezone = ?, min_notice_hours = ? WHERE id = ?").run(timezone, notice, req.user!.id);
+      db.prepare("DELETE FROM availability_rules WHERE friend_id = ?").run(req.user!.id);
+      const insert = db.prepare("INSERT INTO availability_rules (friend_id, weekday, start_minute, end_minute) VALUES (?, ?, ?, ?)");
+      for (const rule of parsed) insert.run(req.user!.id, rule.weekday, rule.startMinute, rule.endMinute);
+    })();
+    res.json(getAvailabilitySettings(req.user!.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+availabilityRouter.post("/me/availability/exceptions", requireRole("friend"), (req, res) => {
+  const { date, kind, start, end, note } = req.body;
+  try {
+    if (!isValidDate(date)) throw new HttpError(400, "date must be YYYY-MM-DD");
+    if (kind !== "blocked" && kind !== "available") throw new HttpError(400, "kind must be blocked or available");
+    // Leaving out the times blocks the whole day; extra availability always needs a window.
+    const window = kind === "blocked" && start === undefined && end === undefined ? null : parseWindow(start, end);
+    const info = db.prepare(`
+      INSERT INTO availability_exceptions (friend_id, date, kind, start_minute, end_minute, note)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(req.user!.id, date, kind, window?.startMinute ?? null, window?.endMinute ?? null, note || null);
+    res.status(201).json(db.prepare("SELECT id, date, kind, start_minute, end_minute, note FROM availability_exceptions WHERE id = ?").get(info.lastInsertRowid));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+availabilityRouter.delete("/me/availability/exceptions/:id", requireAuth, (req, res) => {
+  const info = db.prepare("DELETE FROM availability_exceptions WHERE id = ? AND friend_id = ?").run(req.params.id, req.user!.id);
+  if (info.changes === 0) {
+    res.status(404).json({ error: "Exception not found" });
+    return;
+  }
+  res.json({ ok: true });
+});
@@ -0,0 +1,57 @@
+import express from "express";
+import { db } from "./db";
+import { requireAuth } from "./auth";
+
+// True when either user has blocked the other. Blocks cut both ways: neither side can
+// message or book the other, and they drop out of each other's search results.
+export function isBlockedBetween(userId: number, otherId: number) {
+  return Boolean(db.prepare(`
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = ? AND blocked_id = ?) OR (blocker_id = ? AND blocked_id = ?)
+  `).get(userId, otherId, otherId, userId));
+}
+
+// SQL condition hiding users.id rows that are blocked either way from the viewer; takes the
+// viewer's id twice.
+export const NOT_BLOCKED_WITH_VIEWER = `NOT EXISTS (
+  SELECT 1 FROM user_blocks
+  WHERE (blocker_id = users.id AND blocked_id = ?) OR (blocker_id = ? AND blocked_id = users.id)
+)`;
+
+export function blockUser(blockerId: number, blockedId: number) {
+  db.prepare("INSERT OR IGNORE INTO user_blocks (blocker_id, blocked_id) VALUES (?, ?)").run(blockerId, blockedId);
+}
+
+function listBlocks(userId: number) {
+  return db.prepare(`
+    SELECT users.id, users.name, user_blocks.created_at
+    FROM user_blocks JOIN users ON users.id = user_blocks.blocked_id
+    WHERE user_blocks.blocker_id = ?
+    ORDER BY user_blocks.created_at DESC
+  `).all(userId);
+}
+
+export const blocksRouter = express.Router();
+
+blocksRouter.get("/me/blocks", requireAuth, (req, res) => {
+  res.json(listBlocks(req.user!.id));
+});
+
+blocksRouter.post("/users/:id/block", requireAuth, (req, res) => {
+  const blockedId = Number(req.params.id);
+  if (blockedId === req.user!.id) {
+    res.status(400).json({ error: "You can't block yourself" });
+    return;
+  }
+  if (!db.prepare("SELECT 1 FROM users WHERE id = ?").get(blockedId)) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  blockUser(req.user!.id, blockedId);
+  res.json(listBlocks(req.user!.id));
+});
+
+blocksRouter.delete("/users/:id/block", requireAuth, (req, res) => {
+  db.prepare("DELETE FROM user_blocks WHERE blocker_id = ? AND blocked_id = ?").run(req.user!.id, Number(req.params.id));
+  res.json(listBlocks(req.user!.id));
+});
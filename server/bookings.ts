@@ -0,0 +1,378 @@
+import express from "express";
+import { ACTIVE_ACCOUNT, db } from "./db";
+import { requireAuth, requireRole, requireVerifiedPhone, type SessionUser } from "./auth";
+import { HttpError, sendError } from "./errors";
+import { findOverlappingBooking, isWithinAvailability } from "./availability";
+import { formatLocalDateTime, isValidTimeZone } from "./time";
+import { quoteBooking, redeemPromoCode, releasePromoCode, type Quote } from "./pricing";
+import { findFriendActivity, type FriendActivity } from "./taxonomy";
+import { isBlockedBetween } from "./blocks";
+
+export const BOOKING_STATUSES = [
+  "requested",
+  "accepted",
+  "declined",
+  "confirmed",
+  "in_progress",
+  "completed",
+  "cancelled",
+  "expired",
+  "no_show",
+] as const;
+
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+type Actor = SessionUser["role"] | "system";
+
+export interface Booking {
+  id: number;
+  customer_id: number;
+  friend_id: number;
+  activity: string;
+  duration: string;
+  status: BookingStatus;
+  // UTC ISO-8601 instants; timezone is the IANA zone the booking was made in, for display.
+  start_at: string | null;
+  end_at: string | null;
+  timezone: string | null;
+  // Paise, fixed from the quote when the booking was requested.
+  subtotal: number | null;
+  platform_fee: number | null;
+  friend_payout: number | null;
+  tax: number | null;
+  total: number | null;
+  promo_code: string | null;
+  payment_status?: string | null;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+interface Transition {
+  from: BookingStatus[];
+  to: BookingStatus;
+  actors: Actor[];
+  // The earliest the action is allowed, so nobody can settle a booking's payment before it happens.
+  opensAt?: (booking: Booking) => number | null;
+}
+
+// How long before the booked end time either side may mark the booking completed.
+const COMPLETE_WINDOW_MINUTES = 30;
+
+const atStart = (booking: Booking) => booking.start_at ? Date.parse(booking.start_at) : null;
+const nearEnd = (booking: Booking) => booking.end_at ? Date.parse(booking.end_at) - COMPLETE_WINDOW_MINUTES * 60_000 : null;
+
+// Every status change goes through this table. "confirm" happens once the customer's payment
+// is captured and "expire" when nobody answers in time, so only the server runs those.
+export const TRANSITIONS: Record<string, Transition> = {
+  accept: { from: ["requested"], to: "accepted", actors: ["friend"] },
+  decline: { from: ["requested"], to: "declined", actors: ["friend"] },
+  confirm: { from: ["accepted"], to: "confirmed", actors: ["system"] },
+  start: { from: ["confirmed"], to: "in_progress", actors: ["customer", "friend"], opensAt: atStart },
+  complete: { from: ["in_progress"], to: "completed", actors: ["customer", "friend"], opensAt: nearEnd },
+  cancel: { from: ["requested", "accepted", "confirmed"], to: "cancelled", actors: ["customer", "friend"] },
+  "no-show": { from: ["confirmed"], to: "no_show", actors: ["customer", "friend"], opensAt: atStart },
+  expire: { from: ["requested", "accepted"], to: "expired", actors: ["system"] },
+};
+
+export const DURATION_OPTIONS: Record<number, string> = {
+  1: "1 Hour",
+  3: "3 Hours",
+  6: "Half Day (6 Hours)",
+  12: "Full Day (12 Hours)",
+};
+
+// Bookings that end like this never went ahead, so a promo code they used is given back.
+const PROMO_RELEASING_STATUSES: BookingStatus[] = ["declined", "cancelled", "expired"];
+
+// How long a friend has to answer a request, and a customer to pay once it is accepted.
+const RESPONSE_WINDOW_HOURS = 24;
+
+// Status of the latest payment attempt, so clients can tell whether the customer still owes it.
+const PAYMENT_STATUS_COLUMN = `
+  (SELECT status FROM payments WHERE payments.booking_id = bookings.id AND status != 'creating' ORDER BY id DESC LIMIT 1) AS payment_status
+`;
+
+export function getBooking(id: number) {
+  return db.prepare(`SELECT bookings.*, ${PAYMENT_STATUS_COLUMN} FROM bookings WHERE id = ?`).get(id) as Booking | undefined;
+}
+
+// The side of the booking the user is on, or undefined when they are not part of it.
+function participantRole(booking: Booking, userId: number): SessionUser["role"] | undefined {
+  if (booking.customer_id === userId) return "customer";
+  if (booking.friend_id === userId) return "friend";
+  return undefined;
+}
+
+// When the action opens for this booking, or undefined if it already has.
+function notOpenUntil(transition: Transition, booking: Booking) {
+  const opensAt = transition.opensAt?.(booking);
+  return opensAt && Date.now() < opensAt ? opensAt : undefined;
+}
+
+export function availableActions(booking: Booking, userId: number) {
+  const role = participantRole(booking, userId);
+  if (!role) return [];
+  return Object.entries(TRANSITIONS)
+    .filter(([, t]) => t.actors.includes(role) && t.from.includes(booking.status) && !notOpenUntil(t, booking))
+    .map(([action]) => action);
+}
+
+export interface TransitionEvent {
+  booking: Booking;
+  action: string;
+  // null when the booking has just been requested.
+  from: BookingStatus | null;
+  // null when the server made the change.
+  actorId: number | null;
+  reason?: string;
+}
+
+type TransitionHook = (event: TransitionEvent) => void | Promise<void>;
+const transitionHooks: TransitionHook[] = [];
+
+// Lets other modules (payments, notifications) react to status changes without the booking
+// lifecycle knowing about them. Hooks run after the change is committed.
+export function afterTransition(hook: TransitionHook) {
+  transitionHooks.push(hook);
+}
+
+const applyTransition = db.transaction((
+  bookingId: number,
+  action: string,
+  actorId: number | null,
+  reason?: string
+) => {
+  // hasOwn, so "constructor" or "__proto__" in the URL isn't taken for an action.
+  const transition = typeof action === "string" && Object.hasOwn(TRANSITIONS, action) ? TRANSITIONS[action] : undefined;
+  if (!transition) throw new HttpError(404, `Unknown booking action "${action}"`);
+
+  const booking = getBooking(bookingId);
+  if (!booking) throw new HttpError(404, "Booking not found");
+
+  const actor: Actor | undefined = actorId === null ? "system" : participantRole(booking, actorId);
+  if (!actor) throw new HttpError(404, "Booking not found");
+  if (!transition.actors.includes(actor)) {
+    throw new HttpError(403, `The ${actor} can't ${action} this booking`);
+  }
+  if (!transition.from.includes(booking.status)) {
+    throw new HttpError(409, `Can't ${action} a booking that is ${booking.status.replace("_", " ")}`);
+  }
+  const opensAt = notOpenUntil(transition, booking);
+  if (opensAt) {
+    const when = formatLocalDateTime(new Date(opensAt).toISOString(), booking.timezone || "UTC");
+    const verb = action === "no-show" ? "report a no-show" : `${action} this booking`;
+    throw new HttpError(409, `You can ${verb} from ${when}`);
+  }
+
+  // Accepted bookings wait on the customer's payment; every other status stops the clock.
+  const expiresAt = transition.to === "accepted" ? `datetime('now', '+${RESPONSE_WINDOW_HOURS} hours')` : "NULL";
+  db.prepare(`
+    UPDATE bookings SET status = ?, expires_at = ${expiresAt}, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(transition.to, bookingId);
+  db.prepare(`
+    INSERT INTO booking_events (booking_id, from_status, to_status, actor_id, reason)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(bookingId, booking.status, transition.to, actorId, reason || null);
+  if (booking.promo_code && PROMO_RELEASING_STATUSES.includes(transition.to)) releasePromoCode(booking.promo_code);
+
+  return { booking: getBooking(bookingId)!, from: booking.status };
+});
+
+async function runHooks(event: TransitionEvent) {
+  for (const hook of transitionHooks) {
+    try {
+      await hook(event);
+    } catch (error) {
+      console.error(`Booking ${event.booking.id}: ${event.action} hook failed`, error);
+    }
+  }
+  // Hooks may have moved the booking on again, e.g. payment capture confirming it.
+  return getBooking(event.booking.id)!;
+}
+
+export async function transitionBooking(bookingId: number, action: string, actorId: number | null, reason?: string) {
+  const { booking, from } = applyTransition(bookingId, action, actorId, reason);
+  return runHooks({ booking, action, from, actorId, reason });
+}
+
+// Statuses an admin can force a booking into, skipping the usual actors and order. Only
+// bookings that are still open can be overridden, since closed ones have settled payments.
+export const OVERRIDE_STATUSES: BookingStatus[] = ["cancelled", "completed", "no_show"];
+const OPEN_STATUSES: BookingStatus[] = ["requested", "accepted", "confirmed", "in_progress"];
+
+const applyOverride = db.transaction((bookingId: number, to: BookingStatus, adminId: number, reason: string) => {
+  const booking = getBooking(bookingId);
+  if (!booking) throw new HttpError(404, "Booking not found");
+  if (!OVERRIDE_STATUSES.includes(to)) throw new HttpError(400, `Bookings can only be overridden to ${OVERRIDE_STATUSES.join(", ")}`);
+  if (!OPEN_STATUSES.includes(booking.status)) {
+    throw new HttpError(409, `Can't override a booking that is ${booking.status.replace("_", " ")}`);
+  }
+  db.prepare("UPDATE bookings SET status = ?, expires_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(to, bookingId);
+  db.prepare(`
+    INSERT INTO booking_events (booking_id, from_status, to_status, actor_id, reason)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(bookingId, booking.status, to, adminId, `Admin override: ${reason}`);
+  if (booking.promo_code && PROMO_RELEASING_STATUSES.includes(to)) releasePromoCode(booking.promo_code);
+  return { booking: getBooking(bookingId)!, from: booking.status };
+});
+
+// Payment hooks run as for a normal change: cancelling refunds the customer and completing
+// releases escrow. A no-show forced by an admin pays the friend.
+export async function overrideBooking(bookingId: number, to: BookingStatus, adminId: number, reason: string) {
+  const { booking, from } = applyOverride(bookingId, to, adminId, reason);
+  return runHooks({ booking, action: "override", from, actorId: adminId, reason });
+}
+
+// Requests the friend never answered, and accepted bookings the customer never paid for,
+// including any still waiting when their start time arrives.
+export async function expireStaleBookings() {
+  const stale = db.prepare(`
+    SELECT id FROM bookings
+    WHERE status IN ('requested', 'accepted')
+      AND ((expires_at IS NOT NULL AND expires_at <= datetime('now'))
+        OR (start_at IS NOT NULL AND start_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')))
+  `).all() as { id: number }[];
+  for (const { id } of stale) {
+    try {
+      await transitionBooking(id, "expire", null, "No response in time");
+    } catch (error) {
+      console.error(`Could not expire booking ${id}`, error);
+    }
+  }
+  return stale.length;
+}
+
+export const bookingsRouter = express.Router();
+
+bookingsRouter.get("/bookings", requireAuth, (req, res) => {
+  const userId = req.user!.id;
+  const bookings = db.prepare(`
+    SELECT bookings.*, customer.name AS customer_name, friend.name AS friend_name, ${PAYMENT_STATUS_COLUMN},
+      EXISTS (SELECT 1 FROM reviews WHERE reviews.booking_id = bookings.id AND reviews.reviewer_id = ?) AS reviewed
+    FROM bookings
+    JOIN users customer ON customer.id = bookings.customer_id
+    JOIN users friend ON friend.id = bookings.friend_id
+    WHERE bookings.customer_id = ? OR bookings.friend_id = ?
+    ORDER BY bookings.created_at DESC, bookings.id DESC
+  `).all(userId, userId, userId) as Booking[];
+  res.json(bookings.map(booking => ({ ...booking, actions: availableActions(booking, userId) })));
+});
+
+bookingsRouter.get("/bookings/:id", requireAuth, (req, res) => {
+  const booking = getBooking(Number(req.params.id));
+  if (!booking || !participantRole(booking, req.user!.id)) {
+    res.status(404).json({ error: "Booking not found" });
+    return;
+  }
+  const events = db.prepare("SELECT * FROM booking_events WHERE booking_id = ? ORDER BY id ASC").all(booking.id);
+  const payments = db.prepare("SELECT * FROM payments WHERE booking_id = ? ORDER BY id ASC").all(booking.id);
+  res.json({ ...booking, events, payments, actions: availableActions(booking, req.user!.id) });
+});
+
+// Validates a requested time slot and returns it as normalized UTC instants.
+export function parseSchedule(startAt: unknown, durationHours: unknown) {
+  const hours = Number(durationHours);
+  if (!DURATION_OPTIONS[hours]) throw new HttpError(400, "Choose a valid duration");
+
+  const start = new Date(typeof startAt === "string" ? startAt : NaN);
+  if (Number.isNaN(start.getTime())) throw new HttpError(400, "Choose a start date and time");
+  if (start.getTime() <= Date.now()) throw new HttpError(400, "The start time must be in the future");
+
+  const end = new Date(start.getTime() + hours * 60 * 60 * 1000);
+  return { hours, startAt: start.toISOString(), endAt: end.toISOString() };
+}
+
+// The overlap check and the insert run in one IMMEDIATE transaction, which takes SQLite's
+// write lock up front so two requests for the same slot cannot both pass the check.
+const createBooking = db.transaction((input: {
+  customerId: number;
+  friend: { id: number; name: string };
+  activity: FriendActivity;
+  hours: number;
+  startAt: string;
+  endAt: string;
+  timezone: string;
+  quote: Quote;
+}) => {
+  if (findOverlappingBooking(input.friend.id, input.startAt, input.endAt)) {
+    throw new HttpError(409, `${input.friend.name} is already booked at that time`);
+  }
+  if (!isWithinAvailability(input.friend.id, input.startAt, input.endAt)) {
+    throw new HttpError(409, `${input.friend.name} isn't available at that time`);
+  }
+  const { quote } = input;
+  if (quote.promoCode) redeemPromoCode(quote.promoCode, input.customerId);
+  const info = db.prepare(`
+    INSERT INTO bookings (
+      customer_id, friend_id, activity, activity_id, duration, start_at, end_at, timezone,
+      subtotal, platform_fee, friend_payout, tax, total, promo_code, price_breakdown,
+      status, expires_at, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'requested', datetime('now', '+${RESPONSE_WINDOW_HOURS} hours'), CURRENT_TIMESTAMP)
+  `).run(
+    input.customerId, input.friend.id, input.activity.name, input.activity.id, DURATION_OPTIONS[input.hours],
+    input.startAt, input.endAt, input.timezone,
+    quote.subtotal, quote.platformFee, quote.friendPayout, quote.tax, quote.total, quote.promoCode, JSON.stringify(quote.lines)
+  );
+  db.prepare("INSERT INTO booking_events (booking_id, from_status, to_status, actor_id) VALUES (?, NULL, 'requested', ?)")
+    .run(info.lastInsertRowid, input.customerId);
+  return Number(info.lastInsertRowid);
+});
+
+bookingsRouter.post("/bookings/quote", (req, res) => {
+  const { friendId, activity, durationHours, startAt, promoCode } = req.body;
+  try {
+    const hours = Number(durationHours);
+    if (!DURATION_OPTIONS[hours]) throw new HttpError(400, "Choose a valid duration");
+    if (startAt && Number.isNaN(Date.parse(startAt))) throw new HttpError(400, "Invalid start time");
+    res.json(quoteBooking({ friendId: Number(friendId), hours, activity, startAt, promoCode, customerId: req.user?.id }));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+bookingsRouter.post("/bookings", requireRole("customer"), requireVerifiedPhone, async (req, res) => {
+  const { friendId, activity, startAt, durationHours, timezone, promoCode, quotedTotal } = req.body;
+  try {
+    const friend = Number.isInteger(Number(friendId))
+      ? db.prepare(`SELECT id, name FROM users WHERE id = ? AND role = 'friend' AND friend_status = 'approved' AND ${ACTIVE_ACCOUNT}`)
+        .get(Number(friendId)) as { id: number; name: string } | undefined
+      : undefined;
+    if (!friend || isBlockedBetween(req.user!.id, friend.id)) throw new HttpError(404, "Friend not found");
+
+    const schedule = parseSchedule(startAt, durationHours);
+    const offering = typeof activity === "string" ? findFriendActivity(friend.id, activity) : undefined;
+    if (!offering) throw new HttpError(400, `${friend.name} doesn't offer that activity`);
+    // Amounts always come from the server's own quote; the client's total is only used to
+    // catch a price that changed after the customer saw it.
+    const quote = quoteBooking({ friendId: friend.id, hours: schedule.hours, activity: offering.name, startAt: schedule.startAt, promoCode, customerId: req.user!.id });
+    if (quotedTotal !== undefined && Number(quotedTotal) !== quote.total) {
+      throw new HttpError(409, "The price has changed. Please review the new total.");
+    }
+    const bookingId = createBooking.immediate({
+      customerId: req.user!.id,
+      friend,
+      activity: offering,
+      ...schedule,
+      timezone: isValidTimeZone(timezone) ? timezone : "UTC",
+      quote,
+    });
+    // A new request is the booking's first status, so hooks hear about it like any other change.
+    const booking = await runHooks({ booking: getBooking(bookingId)!, action: "request", from: null, actorId: req.user!.id });
+    res.status(201).json({ ...booking, actions: availableActions(booking, req.user!.id) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+bookingsRouter.post("/bookings/:id/:action", requireAuth, async (req, res) => {
+  try {
+    const reason: unknown = req.body?.reason;
+    if (reason != null && typeof reason !== "string") throw new HttpError(400, "reason must be text");
+    const booking = await transitionBooking(Number(req.params.id), req.params.action, req.user!.id, typeof reason === "string" ? reason : undefined);
+    res.json({ ...booking, actions: availableActions(booking, req.user!.id) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
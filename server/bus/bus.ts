@@ -0,0 +1,19 @@
+// What each channel carries. frame is whatever the chat server sends down a user's sockets.
+export interface BusChannels {
+  user: { userId: number; frame: { type?: string; id?: number } };
+  presence: { userId: number };
+  disconnect: { userId: number };
+}
+
+export type BusChannel = keyof BusChannels;
+export type BusHandler<C extends BusChannel> = (payload: BusChannels[C]) => void;
+
+// How server processes pass chat events to each other. Every subscriber on every process hears
+// each published event, including the process that published it. Payloads must survive JSON.
+export interface MessageBus {
+  name: string;
+  publish<C extends BusChannel>(channel: C, payload: BusChannels[C]): void;
+  // Returns a function that unsubscribes.
+  subscribe<C extends BusChannel>(channel: C, handler: BusHandler<C>): () => void;
+  close(): void;
+}
@@ -0,0 +1,20 @@
+import { randomUUID } from "crypto";
+import type { MessageBus } from "./bus";
+import { MemoryBus } from "./memoryBus";
+import { SqliteBus } from "./sqliteBus";
+
+export type { MessageBus } from "./bus";
+
+// Tells this process's events and sockets apart from those of other processes.
+export const INSTANCE_ID = randomUUID();
+
+// CHAT_BUS picks how chat events reach other server processes: memory (default) when there is
+// only one, sqlite to run several against the same database file.
+function createBus(): MessageBus {
+  const name = process.env.CHAT_BUS || "memory";
+  if (name === "memory") return new MemoryBus();
+  if (name === "sqlite") return new SqliteBus(INSTANCE_ID);
+  throw new Error(`Unknown CHAT_BUS "${name}"; use memory or sqlite`);
+}
+
+export const bus = createBus();
@@ -0,0 +1,39 @@
+import type { BusChannel, BusChannels, BusHandler, MessageBus } from "./bus";
+
+// Single-process bus: events go straight to this process's subscribers.
+export class MemoryBus implements MessageBus {
+  name = "memory";
+  private handlers: { [C in BusChannel]: Set<BusHandler<C>> } = {
+    user: new Set(),
+    presence: new Set(),
+    disconnect: new Set(),
+  };
+
+  publish<C extends BusChannel>(channel: C, payload: BusChannels[C]) {
+    this.dispatch(channel, payload);
+  }
+
+  subscribe<C extends BusChannel>(channel: C, handler: BusHandler<C>) {
+    const handlers: Set<BusHandler<C>> = this.handlers[channel];
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  // One failing subscriber shouldn't keep the event from the others.
+  protected dispatch<C extends BusChannel>(channel: C, payload: BusChannels[C]) {
+    const handlers: Set<BusHandler<C>> = this.handlers[channel];
+    for (const handler of handlers) {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[bus] ${channel} handler failed:`, error);
+      }
+    }
+  }
+
+  close() {
+    for (const handlers of Object.values(this.handlers)) handlers.clear();
+  }
+}
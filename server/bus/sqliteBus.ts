@@ -0,0 +1,56 @@
+import { db } from "../db";
+import type { BusChannel, BusChannels } from "./bus";
+import { MemoryBus } from "./memoryBus";
+
+const POLL_MS = Number(process.env.CHAT_BUS_POLL_MS) || 50;
+// Events are only needed until every process has polled them.
+const RETENTION_MS = 60 * 1000;
+
+interface BusEvent {
+  id: number;
+  origin: string;
+  // Only publish() writes rows, so the channel is always one it was given.
+  channel: BusChannel;
+  payload: string;
+}
+
+// Bus for several server processes sharing one database file: events are written to bus_events
+// and each process polls for the ones other processes wrote. Its own events it hands to its
+// subscribers directly, without waiting for a poll.
+export class SqliteBus extends MemoryBus {
+  name = "sqlite";
+  private lastId: number;
+  private lastPrune = Date.now();
+  private timer: ReturnType<typeof setInterval>;
+
+  constructor(private origin: string) {
+    super();
+    // Only events from now on; anything older was for sockets that have since reconnected.
+    this.lastId = (db.prepare("SELECT COALESCE(MAX(id), 0) AS id FROM bus_events").get() as { id: number }).id;
+    this.timer = setInterval(() => this.poll(), POLL_MS);
+  }
+
+  publish<C extends BusChannel>(channel: C, payload: BusChannels[C]) {
+    db.prepare("INSERT INTO bus_events (origin, channel, payload) VALUES (?, ?, ?)")
+      .run(this.origin, channel, JSON.stringify(payload));
+    super.publish(channel, payload);
+  }
+
+  private poll() {
+    const events = db.prepare("SELECT id, origin, channel, payload FROM bus_events WHERE id > ? ORDER BY id")
+      .all(this.lastId) as BusEvent[];
+    for (const event of events) {
+      this.lastId = event.id;
+      if (event.origin !== this.origin) this.dispatch(event.channel, JSON.parse(event.payload));
+    }
+    if (Date.now() - this.lastPrune > RETENTION_MS) {
+      this.lastPrune = Date.now();
+      db.prepare("DELETE FROM bus_events WHERE created_at < datetime('now', ?)").run(`-${RETENTION_MS / 1000} seconds`);
+    }
+  }
+
+  close() {
+    clearInterval(this.timer);
+    super.close();
+  }
+}
@@ -0,0 +1,492 @@
+import { randomUUID } from "crypto";
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { db } from "./db";
+import { INSTANCE_ID, bus } from "./bus";
+import { getSessionToken, getSessionUser, hasVerifiedPhone, type SessionUser } from "./auth";
+import { isBlockedBetween } from "./blocks";
+import { moderateMessage } from "./moderation";
+import { HttpError } from "./errors";
+import { getAttachment, getUnsentAttachment, toPublicAttachment, withAttachments } from "./attachments";
+import { parsePosition, recordLocation } from "./safety";
+import { notify } from "./notifications";
+
+export const CHAT_PATH = "/ws";
+// How much of a message shows in the notification for someone who was away.
+const MAX_PREVIEW_LENGTH = 140;
+const MAX_CLIENT_ID_LENGTH = 64;
+// Sockets are pinged this often and dropped if the previous ping went unanswered; the process
+// checks in to chat_instances at the same time.
+const HEARTBEAT_MS = 30 * 1000;
+// A process that hasn't checked in for this long is taken to have died, and its sockets as gone.
+const INSTANCE_TIMEOUT_SECONDS = 90;
+// How long shutdown waits for clients to close their sockets before cutting them off.
+const DRAIN_TIMEOUT_MS = 5000;
+
+interface Connection {
+  id: string;
+  userId: number;
+  ws: WebSocket;
+  // Cleared with each ping and set again by the pong.
+  alive: boolean;
+}
+
+// This process's sockets by user; a user with several tabs or devices open has several.
+const connections = new Map<number, Set<Connection>>();
+// Who on this process has asked for whose presence, so they hear when that user comes or goes.
+const presenceWatchers = new Map<number, Set<number>>();
+
+// Frames for users go over the bus, so they reach every socket the user has on any process.
+export function sendToUser(userId: number, frame: object) {
+  bus.publish("user", { userId, frame });
+}
+
+// Closes every socket the user has open on any process, e.g. when their account is suspended.
+// Their sessions are gone by then, so the client's reconnect is turned away.
+export function disconnectUser(userId: number) {
+  bus.publish("disconnect", { userId });
+}
+
+function sendToLocalSockets(userId: number, frame: object) {
+  let sent = 0;
+  for (const { ws } of connections.get(userId) ?? []) {
+    if (ws.readyState !== WebSocket.OPEN) continue;
+    ws.send(JSON.stringify(frame));
+    sent++;
+  }
+  return sent > 0;
+}
+
+// Online on any server process.
+export function isOnline(userId: number) {
+  return Boolean(db.prepare("SELECT 1 FROM chat_connections WHERE user_id = ? LIMIT 1").get(userId));
+}
+
+function getPresence(userId: number) {
+  const row = db.prepare("SELECT last_seen_at FROM users WHERE id = ?").get(userId) as { last_seen_at: string | null } | undefined;
+  return { type: "presence", userId, online: isOnline(userId), lastSeenAt: row?.last_seen_at ?? null };
+}
+
+// Each process tells the watchers connected to it.
+function announcePresence(userId: number) {
+  bus.publish("presence", { userId });
+}
+
+function notifyPresenceWatchers(userId: number) {
+  const watchers = presenceWatchers.get(userId);
+  if (!watchers?.size) return;
+  const frame = getPresence(userId);
+  for (const watcherId of watchers) {
+    if (!isBlockedBetween(userId, watcherId)) sendToLocalSockets(watcherId, frame);
+  }
+}
+
+// The user's last socket anywhere has closed.
+function goneOffline(userId: number) {
+  db.prepare("UPDATE users SET last_seen_at = CURRENT_TIMESTAMP WHERE id = ?").run(userId);
+  announcePresence(userId);
+}
+
+// Checks this process in and clears out the sockets of processes that stopped checking in
+// without shutting down cleanly.
+function heartbeatInstance() {
+  db.prepare(`
+    INSERT INTO chat_instances (id) VALUES (?)
+    ON CONFLICT (id) DO UPDATE SET heartbeat_at = CURRENT_TIMESTAMP
+  `).run(INSTANCE_ID);
+  const dead = db.prepare("DELETE FROM chat_instances WHERE heartbeat_at < datetime('now', ?) RETURNING id")
+    .all(`-${INSTANCE_TIMEOUT_SECONDS} seconds`) as { id: string }[];
+  for (const { id } of dead) {
+    const gone = db.prepare("DELETE FROM chat_connections WHERE instance_id = ? RETURNING user_id").all(id) as { user_id: number }[];
+    for (const userId of new Set(gone.map(row => row.user_id))) {
+      if (!isOnline(userId)) goneOffline(userId);
+    }
+  }
+}
+
+// Stamps messages as delivered and tells each sender which of theirs arrived.
+function markDelivered(messageIds: number[]) {
+  if (messageIds.length === 0) return;
+  const placeholders = messageIds.map(() => "?").join(", ");
+  const rows = db.prepare(`
+    UPDATE messages SET delivered_at = CURRENT_TIMESTAMP
+    WHERE id IN (${placeholders}) AND delivered_at IS NULL
+    RETURNING id, sender_id, delivered_at
+  `).all(...messageIds) as { id: number; sender_id: number; delivered_at: string }[];
+  notifyReceipts(rows.map(row => ({ id: row.id, sender_id: row.sender_id, at: row.delivered_at })), "delivered");
+}
+
+function notifyReceipts(rows: { id: number; sender_id: number; at: string }[], status: "delivered" | "read") {
+  const bySender = new Map<number, number[]>();
+  for (const row of rows) bySender.set(row.sender_id, [...(bySender.get(row.sender_id) ?? []), row.id]);
+  for (const [senderId, messageIds] of bySender) {
+    sendToUser(senderId, { type: "receipt", status, messageIds, at: rows[0].at });
+  }
+}
+
+// Messages kept back by moderation never reach the receiver, so they get no receipts either.
+export const VISIBLE_TO_RECEIVER = "moderation_status NOT IN ('held', 'blocked', 'removed')";
+
+// Unread messages waiting for the user, leaving out anyone blocked either way.
+export function countUnread(userId: number) {
+  const { count } = db.prepare(`
+    SELECT COUNT(*) AS count FROM messages
+    WHERE receiver_id = ? AND read_at IS NULL AND ${VISIBLE_TO_RECEIVER}
+      AND NOT EXISTS (
+        SELECT 1 FROM user_blocks
+        WHERE (blocker_id = messages.sender_id AND blocked_id = ?) OR (blocker_id = ? AND blocked_id = messages.sender_id)
+      )
+  `).get(userId, userId, userId) as { count: number };
+  return count;
+}
+
+// Keeps the unread badge current on the user's open sockets.
+export function sendUnreadCount(userId: number) {
+  if (isOnline(userId)) sendToUser(userId, { type: "unread", count: countUnread(userId) });
+}
+
+// Everything that was waiting for the user while they were offline has now reached them.
+function deliverPending(userId: number) {
+  const pending = db.prepare(`
+    SELECT id FROM messages WHERE receiver_id = ? AND delivered_at IS NULL AND ${VISIBLE_TO_RECEIVER}
+  `).all(userId) as { id: number }[];
+  markDelivered(pending.map(row => row.id));
+}
+
+// The reader has seen everything the other user sent them so far.
+function markRead(readerId: number, senderId: number) {
+  if (!Number.isInteger(senderId)) return;
+  const rows = db.prepare(`
+    UPDATE messages SET read_at = CURRENT_TIMESTAMP, delivered_at = COALESCE(delivered_at, CURRENT_TIMESTAMP)
+    WHERE sender_id = ? AND receiver_id = ? AND read_at IS NULL AND ${VISIBLE_TO_RECEIVER}
+    RETURNING id, sender_id, read_at
+  `).all(senderId, readerId) as { id: number; sender_id: number; read_at: string }[];
+  notifyReceipts(rows.map(row => ({ id: row.id, sender_id: row.sender_id, at: row.read_at })), "read");
+  if (rows.length > 0) sendUnreadCount(readerId);
+}
+
+export const MESSAGE_PAGE_SIZE = 50;
+const MESSAGE_COLUMNS = "id, sender_id, receiver_id, kind, content, attachment_id, created_at, moderation_status, delivered_at, read_at";
+
+// Cursors for paging back through a conversation: the id of the oldest message already loaded.
+export function encodeMessageCursor(beforeId: number) {
+  return Buffer.from(JSON.stringify({ before: beforeId })).toString("base64url");
+}
+
+export function decodeMessageCursor(raw: string) {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString());
+    if (Number.isInteger(cursor.before)) return cursor.before as number;
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new HttpError(400, "Invalid cursor");
+}
+
+// The newest `limit` messages of the conversation strictly between two ids, oldest first.
+// Messages kept back by moderation show up for their sender only, and idempotency keys only on
+// the user's own. Each direction is read newest-first off messages_conversation, so a page costs
+// the same however long the conversation is.
+export function getConversation(userId: number, otherId: number, { afterId = 0, beforeId = Number.MAX_SAFE_INTEGER, limit = MESSAGE_PAGE_SIZE } = {}) {
+  const rows = db.prepare(`
+    SELECT * FROM (
+      SELECT ${MESSAGE_COLUMNS}, client_id FROM messages
+      WHERE sender_id = ? AND receiver_id = ? AND id > ? AND id < ?
+      ORDER BY id DESC LIMIT ?
+    )
+    UNION ALL
+    SELECT * FROM (
+      SELECT ${MESSAGE_COLUMNS}, NULL AS client_id FROM messages
+      WHERE sender_id = ? AND receiver_id = ? AND id > ? AND id < ? AND ${VISIBLE_TO_RECEIVER}
+      ORDER BY id DESC LIMIT ?
+    )
+    ORDER BY id DESC LIMIT ?
+  `).all(userId, otherId, afterId, beforeId, limit, otherId, userId, afterId, beforeId, limit, limit) as { id: number; attachment_id: number | null }[];
+  return withAttachments(rows.reverse());
+}
+
+// Who may message whom. Anyone with a booking together can talk; otherwise a customer
+// may open an inquiry with a friend, and the friend may reply once that inquiry exists.
+// A block from either side overrides all of that.
+export function canMessage(sender: SessionUser, receiverId: number) {
+  if (sender.id === receiverId) return false;
+  if (isBlockedBetween(sender.id, receiverId)) return false;
+  const receiver = db.prepare("SELECT role FROM users WHERE id = ?")
+    .get(receiverId) as { role: SessionUser["role"] } | undefined;
+  if (!receiver) return false;
+
+  const booking = db.prepare(`
+    SELECT 1 FROM bookings
+    WHERE (customer_id = ? AND friend_id = ?) OR (customer_id = ? AND friend_id = ?)
+    LIMIT 1
+  `).get(sender.id, receiverId, receiverId, sender.id);
+  if (booking) return true;
+
+  if (sender.role === "customer" && receiver.role === "friend") return true;
+
+  const inquiry = db.prepare("SELECT 1 FROM messages WHERE sender_id = ? AND receiver_id = ? LIMIT 1")
+    .get(receiverId, sender.id);
+  return Boolean(inquiry);
+}
+
+// The user behind an upgrade request, undefined when signed out, or null when the request can't
+// be read. It runs in an event listener, where an exception would end the process.
+function upgradingUser(req: IncomingMessage) {
+  try {
+    return getSessionUser(getSessionToken(req));
+  } catch (error) {
+    console.error("Chat upgrade: session lookup failed", error);
+    return null;
+  }
+}
+
+// What a client may send: a JSON object naming its frame type. Anything else is refused
+// before the fields are read.
+function isClientFrame(value: unknown): value is { type: string; [field: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && typeof (value as { type?: unknown }).type === "string";
+}
+
+export function attachChatServer(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // A chat message is delivered once it reaches any of the receiver's sockets; the
+  // UPDATE in markDelivered makes sure only one process sends the receipt.
+  const unsubscribe = [
+    bus.subscribe("user", ({ userId, frame }) => {
+      if (sendToLocalSockets(userId, frame) && frame.type === "chat" && frame.id !== undefined) markDelivered([frame.id]);
+    }),
+    bus.subscribe("presence", ({ userId }) => notifyPresenceWatchers(userId)),
+    bus.subscribe("disconnect", ({ userId }) => {
+      for (const { ws } of connections.get(userId) ?? []) ws.close(4001, "Signed out");
+    }),
+  ];
+
+  heartbeatInstance();
+  const heartbeat = setInterval(() => {
+    for (const userConnections of connections.values()) {
+      for (const connection of userConnections) {
+        if (!connection.alive) {
+          connection.ws.terminate();
+          continue;
+        }
+        connection.alive = false;
+        connection.ws.ping();
+      }
+    }
+    heartbeatInstance();
+  }, HEARTBEAT_MS);
+
+  // The socket shares the HTTP session: the browser sends the session cookie on upgrade.
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== CHAT_PATH) {
+      socket.write("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const user = upgradingUser(req);
+    if (user === null) {
+      socket.write("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    if (!user) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, user));
+  });
+
+  function handleConnection(ws: WebSocket, user: SessionUser) {
+    const wasOnline = isOnline(user.id);
+    const connection: Connection = { id: randomUUID(), userId: user.id, ws, alive: true };
+    connections.set(user.id, (connections.get(user.id) ?? new Set()).add(connection));
+    db.prepare("INSERT INTO chat_connections (id, instance_id, user_id) VALUES (?, ?, ?)").run(connection.id, INSTANCE_ID, user.id);
+    if (!wasOnline) announcePresence(user.id);
+    deliverPending(user.id);
+    ws.send(JSON.stringify({ type: "unread", count: countUnread(user.id) }));
+
+    ws.on("pong", () => {
+      connection.alive = true;
+    });
+
+    // Errors about a chat frame carry its clientId so the client can mark that message failed.
+    const sendError = (error: string, clientId?: string) => ws.send(JSON.stringify({ type: "error", error, clientId }));
+
+    ws.on("message", (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        sendError("Malformed message");
+        return;
+      }
+
+      if (!isClientFrame(message)) {
+        sendError("Malformed message");
+        return;
+      }
+
+      // One bad frame or failed write answers this client with an error; it never reaches the
+      // process, which would take every other socket down with it.
+      try {
+        if (message.type === "chat") {
+          const receiverId = Number(message.receiverId);
+          const content = typeof message.content === "string" ? message.content.trim() : "";
+          // Clients key each message so a resend after a dropped connection is stored only once.
+          const clientId = typeof message.clientId === "string" && message.clientId ? message.clientId.slice(0, MAX_CLIENT_ID_LENGTH) : undefined;
+          if (clientId) {
+            const existing = db.prepare(`
+              SELECT id, kind, content, attachment_id, moderation_status, created_at FROM messages WHERE sender_id = ? AND client_id = ?
+            `).get(user.id, clientId) as { id: number; kind: string; content: string; attachment_id: number | null; moderation_status: string; created_at: string } | undefined;
+            if (existing) {
+              const attachment = existing.attachment_id ? getAttachment(existing.attachment_id) : undefined;
+              ws.send(JSON.stringify({
+                type: "sent", clientId, messageId: existing.id, status: existing.moderation_status, kind: existing.kind,
+                content: existing.content, attachment: attachment ? toPublicAttachment(attachment) : null,
+                createdAt: existing.created_at, notice: null
+              }));
+              return;
+            }
+          }
+          // An image or file is uploaded first (POST /api/attachments) and sent by id; the text,
+          // which may be empty, is its caption.
+          const attachment = message.attachmentId ? getUnsentAttachment(Number(message.attachmentId), user.id, receiverId) : undefined;
+          if (message.attachmentId && !attachment) {
+            sendError("That attachment can't be sent", clientId);
+            return;
+          }
+          if (!content && !attachment) {
+            sendError("Message cannot be empty", clientId);
+            return;
+          }
+          if (!hasVerifiedPhone(user.id)) {
+            sendError("Verify your mobile number to start chatting", clientId);
+            return;
+          }
+          if (!canMessage(user, receiverId)) {
+            sendError("You can't message this user", clientId);
+            return;
+          }
+
+          const moderation = moderateMessage(user.id, receiverId, content);
+          // The sender is always the authenticated user, never a field from the frame.
+          const kind = attachment?.kind ?? "text";
+          const { id, created_at: createdAt } = db.prepare(`
+            INSERT INTO messages (sender_id, receiver_id, kind, content, attachment_id, moderation_status, moderation_flags, original_content, client_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            RETURNING id, created_at
+          `).get(
+            user.id, receiverId, kind, moderation.content, attachment?.id ?? null, moderation.status,
+            moderation.flags.length ? JSON.stringify(moderation.flags) : null, moderation.original, clientId ?? null
+          ) as { id: number; created_at: string };
+          if (attachment) db.prepare("UPDATE attachments SET message_id = ? WHERE id = ?").run(id, attachment.id);
+          const publicAttachment = attachment ? toPublicAttachment(attachment) : null;
+
+          // The ack: the stored id and time and, when moderation changed or kept it back, why.
+          ws.send(JSON.stringify({
+            type: "sent", clientId, messageId: id, status: moderation.status, kind,
+            content: moderation.content, attachment: publicAttachment, createdAt, notice: moderation.notice
+          }));
+          if (moderation.deliver) {
+            sendToUser(receiverId, {
+              type: "chat",
+              id,
+              senderId: user.id,
+              kind,
+              content: moderation.content,
+              attachment: publicAttachment,
+              createdAt
+            });
+            sendUnreadCount(receiverId);
+            // Nobody to see it arrive, so it goes to the receiver's notifications instead.
+            if (!isOnline(receiverId)) {
+              const preview = kind === "text" ? moderation.content : `Sent ${kind === "image" ? "a photo" : "a file"}`;
+              notify(receiverId, "message_received", {
+                senderId: user.id,
+                senderName: user.name,
+                preview: preview.length > MAX_PREVIEW_LENGTH ? `${preview.slice(0, MAX_PREVIEW_LENGTH - 1)}…` : preview,
+              }, `user:${user.id}`);
+            }
+          }
+        } else if (message.type === "typing") {
+          const receiverId = Number(message.receiverId);
+          if (!canMessage(user, receiverId)) return;
+          sendToUser(receiverId, { type: "typing", senderId: user.id, typing: message.typing !== false });
+        } else if (message.type === "resume") {
+          // After a reconnect the client asks for everything past the last message it has. If more
+          // than a page came in meanwhile it gets the latest page with reset set, and starts over
+          // from there (with a cursor for older pages) rather than keeping a gap.
+          const withUserId = Number(message.withUserId);
+          const afterId = Number(message.afterId) || 0;
+          const messages = getConversation(user.id, withUserId, { afterId, limit: MESSAGE_PAGE_SIZE + 1 });
+          if (messages.length > MESSAGE_PAGE_SIZE) {
+            const page = messages.slice(1);
+            ws.send(JSON.stringify({ type: "history", withUserId, messages: page, reset: true, nextCursor: encodeMessageCursor(page[0].id) }));
+          } else {
+            ws.send(JSON.stringify({ type: "history", withUserId, messages, reset: false }));
+          }
+        } else if (message.type === "read") {
+          markRead(user.id, Number(message.senderId));
+        } else if (message.type === "sos-location") {
+          // Position updates while the user's Safety Button alert is active.
+          try {
+            const position = parsePosition(message);
+            if (!position) throw new HttpError(400, "Invalid location");
+            const recorded = recordLocation(user.id, Number(message.incidentId), position);
+            ws.send(JSON.stringify({ type: "sos-location", incidentId: Number(message.incidentId), recorded }));
+          } catch (error) {
+            sendError(error instanceof HttpError ? error.message : "Couldn't record your location");
+          }
+        } else if (message.type === "presence") {
+          // Anyone the user could message may see whether they are around.
+          const userId = Number(message.userId);
+          if (!canMessage(user, userId)) {
+            sendError("You can't see this user's status");
+            return;
+          }
+          presenceWatchers.set(userId, (presenceWatchers.get(userId) ?? new Set()).add(user.id));
+          ws.send(JSON.stringify(getPresence(userId)));
+        }
+      } catch (error) {
+        if (!(error instanceof HttpError)) console.error(`Chat frame "${message.type}" from user ${user.id} failed`, error);
+        const clientId = typeof message.clientId === "string" ? message.clientId : undefined;
+        sendError(error instanceof HttpError ? error.message : "Something went wrong", clientId);
+      }
+    });
+
+    ws.on("close", () => {
+      const userConnections = connections.get(user.id);
+      userConnections?.delete(connection);
+      if (!userConnections?.size) {
+        connections.delete(user.id);
+        for (const watchers of presenceWatchers.values()) watchers.delete(user.id);
+      }
+      db.prepare("DELETE FROM chat_connections WHERE id = ?").run(connection.id);
+      if (!isOnline(user.id)) goneOffline(user.id);
+    });
+  }
+
+  // Graceful shutdown: asks every client to go away (they reconnect with backoff, to another
+  // process if there is one), cuts off any that haven't after DRAIN_TIMEOUT_MS and checks out.
+  async function close() {
+    clearInterval(heartbeat);
+    const sockets = [...connections.values()].flatMap(userConnections => [...userConnections].map(({ ws }) => ws));
+    const closed = Promise.all(sockets.map(ws => new Promise(resolve => {
+      ws.once("close", resolve);
+      ws.close(1001, "Server shutting down");
+    })));
+    await Promise.race([closed, new Promise(resolve => setTimeout(resolve, DRAIN_TIMEOUT_MS))]);
+    for (const ws of sockets) ws.terminate();
+    db.prepare("DELETE FROM chat_connections WHERE instance_id = ?").run(INSTANCE_ID);
+    db.prepare("DELETE FROM chat_instances WHERE id = ?").run(INSTANCE_ID);
+    unsubscribe.forEach(stop => stop());
+    wss.close();
+    bus.close();
+  }
+
+  return { wss, close };
+}
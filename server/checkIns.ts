@@ -0,0 +1,191 @@
+import express from "express";
+import { db } from "./db";
+import { requireAuth } from "./auth";
+import { afterTransition, getBooking, type Booking, type BookingStatus } from "./bookings";
+import { sendToUser } from "./chat";
+import { appUrl } from "./notifications";
+import { notifyEmergencyContacts } from "./emergencyContacts";
+import { HttpError, sendError } from "./errors";
+import { cancelJobs, registerJobHandler, scheduleJob } from "./scheduler";
+import { endCheckInIncident, raiseCheckInIncident } from "./safety";
+import { sendSms } from "./sms";
+import { formatLocalTime } from "./time";
+
+export type CheckInKind = "start" | "end";
+export type CheckInStatus = "pending" | "confirmed" | "missed" | "cancelled";
+
+interface CheckInRow {
+  id: number;
+  booking_id: number;
+  user_id: number;
+  kind: CheckInKind;
+  status: CheckInStatus;
+  escalation_level: number;
+  confirmed_at: string | null;
+  incident_id: number | null;
+  created_at: string;
+}
+
+// What happens to a check-in nobody answers, one step every ESCALATION_STEP_MINUTES: the user
+// is asked again, then their verified emergency contacts are texted, then staff get an alert.
+const ESCALATION_STEPS = ["reminder", "contacts", "staff"] as const;
+const ESCALATION_STEP_MINUTES = 15;
+// Check-ins only go out while people are meeting or have just met.
+const CHECK_IN_STATUSES: BookingStatus[] = ["confirmed", "in_progress", "completed"];
+// How long an unanswered check-in keeps showing in the app.
+const OPEN_CHECK_IN_HOURS = 24;
+
+// Every job for a booking's check-ins has a key under this, so they can be cancelled together.
+function jobPrefix(bookingId: number) {
+  return `check-in:${bookingId}:`;
+}
+
+function getCheckIn(id: number | string) {
+  return db.prepare("SELECT * FROM safety_check_ins WHERE id = ?").get(id) as CheckInRow | undefined;
+}
+
+function describeMeeting(checkIn: CheckInRow, booking: Booking) {
+  const otherId = booking.customer_id === checkIn.user_id ? booking.friend_id : booking.customer_id;
+  const other = db.prepare("SELECT name FROM users WHERE id = ?").get(otherId) as { name: string };
+  const instant = checkIn.kind === "start" ? booking.start_at : booking.end_at;
+  return {
+    meeting: `${booking.activity} with ${other.name}`,
+    time: instant ? formatLocalTime(instant, booking.timezone || "Asia/Kolkata") : null,
+  };
+}
+
+async function textUser(userId: number, body: string) {
+  const user = db.prepare("SELECT phone FROM users WHERE id = ?").get(userId) as { phone: string | null };
+  if (!user.phone) return;
+  try {
+    await sendSms(user.phone, body);
+  } catch (error) {
+    // The app still shows the check-in, and the next step follows either way.
+    console.error(`User ${userId}: check-in text failed`, error);
+  }
+}
+
+async function askToCheckIn(checkIn: CheckInRow, booking: Booking, reminder: boolean) {
+  const { meeting, time } = describeMeeting(checkIn, booking);
+  const event = checkIn.kind === "start" ? `Your ${meeting} has started` : `Your ${meeting} was due to end${time ? ` at ${time}` : ""}`;
+  sendToUser(checkIn.user_id, { type: "check-in", checkInId: checkIn.id });
+  await textUser(checkIn.user_id, `FriendlyTime${reminder ? " reminder" : ""}: ${event}. Let us know you're safe: ${appUrl("/bookings")}`);
+}
+
+function scheduleEscalation(checkIn: CheckInRow, level: number) {
+  scheduleJob(
+    "check-in.escalate",
+    new Date(Date.now() + ESCALATION_STEP_MINUTES * 60 * 1000),
+    { checkInId: checkIn.id, level },
+    `${jobPrefix(checkIn.booking_id)}${checkIn.id}:${level}`
+  );
+}
+
+// The last step: the check-in is marked missed and an alert lands in the staff SOS queue. Done
+// in one transaction so an answer arriving at the same moment either wins or ends the alert.
+const flagToStaff = db.transaction((checkIn: CheckInRow) => {
+  const { changes } = db.prepare(`
+    UPDATE safety_check_ins SET status = 'missed' WHERE id = ? AND status = 'pending'
+  `).run(checkIn.id);
+  if (changes === 0) return;
+  const incidentId = raiseCheckInIncident(checkIn.booking_id, checkIn.user_id, `No answer to the ${checkIn.kind} check-in`);
+  db.prepare("UPDATE safety_check_ins SET incident_id = ? WHERE id = ?").run(incidentId, checkIn.id);
+});
+
+// At the booking's start and at its expected end, both people are asked whether they are safe.
+registerJobHandler("check-in.due", async ({ bookingId, kind }: { bookingId: number; kind: CheckInKind }) => {
+  const booking = getBooking(bookingId);
+  if (!booking || !CHECK_IN_STATUSES.includes(booking.status)) return;
+  for (const userId of [booking.customer_id, booking.friend_id]) {
+    const checkIn = db.prepare(`
+      INSERT INTO safety_check_ins (booking_id, user_id, kind) VALUES (?, ?, ?)
+      ON CONFLICT DO NOTHING
+      RETURNING *
+    `).get(bookingId, userId, kind) as CheckInRow | undefined;
+    // Already asked on an earlier run of this job.
+    if (!checkIn) continue;
+    scheduleEscalation(checkIn, 1);
+    await askToCheckIn(checkIn, booking, false);
+  }
+});
+
+registerJobHandler("check-in.escalate", async ({ checkInId, level }: { checkInId: number; level: number }) => {
+  const checkIn = getCheckIn(checkInId);
+  if (!checkIn || checkIn.status !== "pending" || checkIn.escalation_level >= level) return;
+  const booking = getBooking(checkIn.booking_id)!;
+  const step = ESCALATION_STEPS[level - 1];
+
+  db.prepare("UPDATE safety_check_ins SET escalation_level = ? WHERE id = ?").run(level, checkIn.id);
+  if (level < ESCALATION_STEPS.length) scheduleEscalation(checkIn, level + 1);
+
+  if (step === "reminder") {
+    await askToCheckIn(checkIn, booking, true);
+  } else if (step === "contacts") {
+    const { name } = db.prepare("SELECT name FROM users WHERE id = ?").get(checkIn.user_id) as { name: string };
+    const { time } = describeMeeting(checkIn, booking);
+    const since = checkIn.kind === "start" ? "since their meeting started" : "since their meeting was due to end";
+    await notifyEmergencyContacts(
+      checkIn.user_id,
+      `FriendlyTime: ${name} hasn't checked in ${since}${time ? ` at ${time}` : ""}. We're trying to reach them. Please check on them if you can.`
+    );
+  } else {
+    flagToStaff(checkIn);
+  }
+});
+
+// Check-ins are set up once a booking is paid for, brought forward when it finishes early, and
+// dropped with everything still waiting if it is called off.
+afterTransition(({ booking }) => {
+  if (booking.status === "confirmed" && booking.start_at && booking.end_at) {
+    scheduleJob("check-in.due", booking.start_at, { bookingId: booking.id, kind: "start" }, `${jobPrefix(booking.id)}start`);
+    scheduleJob("check-in.due", booking.end_at, { bookingId: booking.id, kind: "end" }, `${jobPrefix(booking.id)}end`);
+  }
+  if (booking.status === "completed" && booking.end_at && Date.parse(booking.end_at) > Date.now()) {
+    scheduleJob("check-in.due", new Date(), { bookingId: booking.id, kind: "end" }, `${jobPrefix(booking.id)}end`);
+  }
+  if (booking.status === "cancelled" || booking.status === "no_show") {
+    cancelJobs(jobPrefix(booking.id));
+    db.prepare("UPDATE safety_check_ins SET status = 'cancelled' WHERE booking_id = ? AND status = 'pending'").run(booking.id);
+  }
+});
+
+export const checkInsRouter = express.Router();
+
+// Check-ins still waiting on the user, including missed ones they can answer late.
+checkInsRouter.get("/me/check-ins", requireAuth, (req, res) => {
+  const checkIns = db.prepare(`
+    SELECT safety_check_ins.id, safety_check_ins.booking_id, safety_check_ins.kind, safety_check_ins.status,
+      safety_check_ins.created_at, bookings.activity, bookings.start_at, bookings.end_at, bookings.timezone,
+      other.name AS other_user_name
+    FROM safety_check_ins
+    JOIN bookings ON bookings.id = safety_check_ins.booking_id
+    JOIN users other ON other.id = CASE WHEN bookings.customer_id = safety_check_ins.user_id THEN bookings.friend_id ELSE bookings.customer_id END
+    WHERE safety_check_ins.user_id = ? AND safety_check_ins.status IN ('pending', 'missed')
+      AND safety_check_ins.created_at > datetime('now', ?)
+    ORDER BY safety_check_ins.id
+  `).all(req.user!.id, `-${OPEN_CHECK_IN_HOURS} hours`);
+  res.json(checkIns);
+});
+
+// "I'm safe". Stops the escalation, and ends the staff alert if it had already got that far.
+checkInsRouter.post("/check-ins/:id/confirm", requireAuth, (req, res) => {
+  try {
+    const checkIn = getCheckIn(req.params.id);
+    if (!checkIn || checkIn.user_id !== req.user!.id) throw new HttpError(404, "Check-in not found");
+    if (checkIn.status === "cancelled") throw new HttpError(409, "This booking was called off, so there is nothing to check in for");
+    // incident_id is read back in the same statement, in case staff were alerted just now.
+    const answered = db.prepare(`
+      UPDATE safety_check_ins SET status = 'confirmed', confirmed_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status IN ('pending', 'missed')
+      RETURNING incident_id
+    `).get(checkIn.id) as { incident_id: number | null } | undefined;
+    if (answered) {
+      cancelJobs(`${jobPrefix(checkIn.booking_id)}${checkIn.id}:`);
+      if (answered.incident_id) endCheckInIncident(answered.incident_id, req.user!.id);
+    }
+    const { id, booking_id, kind, status, confirmed_at } = getCheckIn(checkIn.id)!;
+    res.json({ id, booking_id, kind, status, confirmed_at });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
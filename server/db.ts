@@ -0,0 +1,672 @@
+import Database from "better-sqlite3";
+import { hashPasswordSync } from "./passwords";
+
+export const db = new Database("friendlytime.db");
+// Lets several server processes read while one writes (see CHAT_BUS=sqlite).
+db.pragma("journal_mode = WAL");
+
+// Initialize database
+db.exec(`
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    email TEXT UNIQUE NOT NULL,
+    role TEXT CHECK(role IN ('customer', 'friend')) NOT NULL,
+    city TEXT,
+    age INTEGER,
+    languages TEXT,
+    interests TEXT,
+    about TEXT,
+    hourly_rate INTEGER,
+    verified INTEGER DEFAULT 0,
+    rating REAL DEFAULT 5.0
+  );
+
+  CREATE TABLE IF NOT EXISTS bookings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    customer_id INTEGER,
+    friend_id INTEGER,
+    activity TEXT,
+    duration TEXT,
+    status TEXT DEFAULT 'requested',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(customer_id) REFERENCES users(id),
+    FOREIGN KEY(friend_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    sender_id INTEGER,
+    receiver_id INTEGER,
+    content TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS booking_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    booking_id INTEGER NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor_id INTEGER,
+    reason TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(booking_id) REFERENCES bookings(id),
+    FOREIGN KEY(actor_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS availability_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    friend_id INTEGER NOT NULL,
+    weekday INTEGER CHECK(weekday BETWEEN 0 AND 6) NOT NULL,
+    start_minute INTEGER NOT NULL,
+    end_minute INTEGER NOT NULL,
+    FOREIGN KEY(friend_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS availability_exceptions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    friend_id INTEGER NOT NULL,
+    date TEXT NOT NULL,
+    kind TEXT CHECK(kind IN ('blocked', 'available')) NOT NULL,
+    start_minute INTEGER,
+    end_minute INTEGER,
+    note TEXT,
+    FOREIGN KEY(friend_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS promo_codes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    code TEXT UNIQUE COLLATE NOCASE NOT NULL,
+    percent_off INTEGER,
+    amount_off INTEGER,
+    max_discount INTEGER,
+    valid_until TEXT,
+    max_redemptions INTEGER,
+    redemptions INTEGER DEFAULT 0,
+    active INTEGER DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS payments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    booking_id INTEGER NOT NULL,
+    gateway TEXT NOT NULL,
+    gateway_intent_id TEXT UNIQUE NOT NULL,
+    amount INTEGER NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'INR',
+    status TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(booking_id) REFERENCES bookings(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS gateway_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    gateway TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(gateway, event_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS ledger_transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    booking_id INTEGER,
+    payment_id INTEGER,
+    memo TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(booking_id) REFERENCES bookings(id),
+    FOREIGN KEY(payment_id) REFERENCES payments(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS ledger_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    transaction_id INTEGER NOT NULL,
+    account TEXT NOT NULL,
+    debit INTEGER NOT NULL DEFAULT 0,
+    credit INTEGER NOT NULL DEFAULT 0,
+    FOREIGN KEY(transaction_id) REFERENCES ledger_transactions(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS reviews (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    booking_id INTEGER NOT NULL,
+    reviewer_id INTEGER NOT NULL,
+    reviewee_id INTEGER NOT NULL,
+    rating INTEGER NOT NULL CHECK(rating BETWEEN 1 AND 5),
+    body TEXT,
+    punctuality INTEGER CHECK(punctuality BETWEEN 1 AND 5),
+    communication INTEGER CHECK(communication BETWEEN 1 AND 5),
+    reply TEXT,
+    replied_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(booking_id, reviewer_id),
+    FOREIGN KEY(booking_id) REFERENCES bookings(id),
+    FOREIGN KEY(reviewer_id) REFERENCES users(id),
+    FOREIGN KEY(reviewee_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS taxonomy_terms (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT CHECK(kind IN ('language', 'interest', 'activity')) NOT NULL,
+    name TEXT NOT NULL,
+    curated INTEGER DEFAULT 0,
+    UNIQUE(kind, name COLLATE NOCASE)
+  );
+
+  CREATE TABLE IF NOT EXISTS taxonomy_synonyms (
+    term_id INTEGER NOT NULL,
+    synonym TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY(term_id, synonym),
+    FOREIGN KEY(term_id) REFERENCES taxonomy_terms(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS user_terms (
+    user_id INTEGER NOT NULL,
+    term_id INTEGER NOT NULL,
+    PRIMARY KEY(user_id, term_id),
+    FOREIGN KEY(user_id) REFERENCES users(id),
+    FOREIGN KEY(term_id) REFERENCES taxonomy_terms(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS friend_activities (
+    friend_id INTEGER NOT NULL,
+    activity_id INTEGER NOT NULL,
+    hourly_rate INTEGER,
+    PRIMARY KEY(friend_id, activity_id),
+    FOREIGN KEY(friend_id) REFERENCES users(id),
+    FOREIGN KEY(activity_id) REFERENCES taxonomy_terms(id)
+  );
+
+  -- Government ID checks behind users.verified. Only a keyed hash and the last four
+  -- characters of the document number are kept; the scan itself is encrypted on disk.
+  CREATE TABLE IF NOT EXISTS id_verifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    document_type TEXT CHECK(document_type IN ('aadhaar', 'pan')) NOT NULL,
+    number_hash TEXT NOT NULL,
+    number_last4 TEXT NOT NULL,
+    file_name TEXT,
+    mime_type TEXT NOT NULL,
+    status TEXT CHECK(status IN ('pending', 'approved', 'rejected', 'expired')) NOT NULL DEFAULT 'pending',
+    reason TEXT,
+    reviewed_by INTEGER,
+    reviewed_at DATETIME,
+    expires_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id),
+    FOREIGN KEY(reviewed_by) REFERENCES users(id)
+  );
+
+  -- Who did what to whom. detail is JSON.
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    actor_id INTEGER,
+    action TEXT NOT NULL,
+    subject_user_id INTEGER,
+    entity TEXT NOT NULL,
+    entity_id INTEGER,
+    detail TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(actor_id) REFERENCES users(id),
+    FOREIGN KEY(subject_user_id) REFERENCES users(id)
+  );
+
+  -- One-time codes sent to confirm a mobile number. The code itself is never stored.
+  CREATE TABLE IF NOT EXISTS otp_codes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    phone TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    ip TEXT,
+    expires_at DATETIME NOT NULL,
+    consumed_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  -- Misconduct reports. evidence is a JSON snapshot of the messages between the two users at
+  -- the time of the report, so it survives later edits or deletions.
+  CREATE TABLE IF NOT EXISTS reports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    reporter_id INTEGER NOT NULL,
+    reported_user_id INTEGER NOT NULL,
+    subject_type TEXT CHECK(subject_type IN ('user', 'message', 'booking')) NOT NULL,
+    subject_id INTEGER NOT NULL,
+    category TEXT NOT NULL,
+    description TEXT NOT NULL,
+    evidence TEXT,
+    status TEXT CHECK(status IN ('open', 'escalated', 'actioned', 'dismissed')) NOT NULL DEFAULT 'open',
+    resolution_note TEXT,
+    resolved_by INTEGER,
+    resolved_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(reporter_id) REFERENCES users(id),
+    FOREIGN KEY(reported_user_id) REFERENCES users(id),
+    FOREIGN KEY(resolved_by) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS user_blocks (
+    blocker_id INTEGER NOT NULL,
+    blocked_id INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (blocker_id, blocked_id),
+    FOREIGN KEY(blocker_id) REFERENCES users(id),
+    FOREIGN KEY(blocked_id) REFERENCES users(id)
+  );
+
+  -- Files shared in chat. Uploaded first, then linked to the message that carries them.
+  CREATE TABLE IF NOT EXISTS attachments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    uploader_id INTEGER NOT NULL,
+    receiver_id INTEGER NOT NULL,
+    message_id INTEGER,
+    kind TEXT CHECK(kind IN ('image', 'file')) NOT NULL,
+    mime_type TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    storage_key TEXT NOT NULL,
+    thumbnail_key TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(uploader_id) REFERENCES users(id),
+    FOREIGN KEY(receiver_id) REFERENCES users(id),
+    FOREIGN KEY(message_id) REFERENCES messages(id)
+  );
+
+  -- SOS alerts raised during a booking. The latest position is kept on the incident; every
+  -- update, opening of the share link and staff action is in safety_incident_events.
+  CREATE TABLE IF NOT EXISTS safety_incidents (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    booking_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    status TEXT CHECK(status IN ('active', 'ended', 'resolved')) NOT NULL DEFAULT 'active',
+    share_token_hash TEXT UNIQUE,
+    share_expires_at DATETIME,
+    latitude REAL,
+    longitude REAL,
+    accuracy REAL,
+    located_at DATETIME,
+    acknowledged_by INTEGER,
+    acknowledged_at DATETIME,
+    ended_at DATETIME,
+    resolved_by INTEGER,
+    resolved_at DATETIME,
+    resolution_note TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(booking_id) REFERENCES bookings(id),
+    FOREIGN KEY(user_id) REFERENCES users(id),
+    FOREIGN KEY(acknowledged_by) REFERENCES users(id),
+    FOREIGN KEY(resolved_by) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS safety_incident_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    incident_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    actor_id INTEGER,
+    latitude REAL,
+    longitude REAL,
+    accuracy REAL,
+    note TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(incident_id) REFERENCES safety_incidents(id),
+    FOREIGN KEY(actor_id) REFERENCES users(id)
+  );
+
+  -- People a user wants told when something goes wrong. They confirm from the link texted to
+  -- them; only verified contacts are ever alerted.
+  CREATE TABLE IF NOT EXISTS emergency_contacts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    phone TEXT NOT NULL,
+    relationship TEXT,
+    status TEXT CHECK(status IN ('pending', 'verified', 'declined')) NOT NULL DEFAULT 'pending',
+    token_hash TEXT UNIQUE,
+    token_expires_at DATETIME,
+    invited_at DATETIME,
+    verified_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(user_id, phone),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  -- Every invitation texted to a would-be emergency contact. Kept after the contact is removed,
+  -- so the daily limits still hold and a number that said no isn't asked again.
+  CREATE TABLE IF NOT EXISTS emergency_contact_invites (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    phone TEXT NOT NULL,
+    declined_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  -- Each person's answer to "are you safe?" at a booking's start and expected end. Unanswered
+  -- ones are escalated a step at a time; incident_id is the alert raised for staff at the last.
+  CREATE TABLE IF NOT EXISTS safety_check_ins (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    booking_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    kind TEXT CHECK(kind IN ('start', 'end')) NOT NULL,
+    status TEXT CHECK(status IN ('pending', 'confirmed', 'missed', 'cancelled')) NOT NULL DEFAULT 'pending',
+    escalation_level INTEGER NOT NULL DEFAULT 0,
+    confirmed_at DATETIME,
+    incident_id INTEGER,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(booking_id, user_id, kind),
+    FOREIGN KEY(booking_id) REFERENCES bookings(id),
+    FOREIGN KEY(user_id) REFERENCES users(id),
+    FOREIGN KEY(incident_id) REFERENCES safety_incidents(id)
+  );
+
+  -- Work the scheduler runs at a set time, kept here so it survives restarts. key names a job
+  -- so it can be moved or cancelled; locked_by is the process running it.
+  CREATE TABLE IF NOT EXISTS scheduled_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    key TEXT UNIQUE,
+    payload TEXT NOT NULL DEFAULT '{}',
+    run_at DATETIME NOT NULL,
+    status TEXT CHECK(status IN ('pending', 'running', 'done', 'failed', 'cancelled')) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    locked_by TEXT,
+    locked_at DATETIME,
+    finished_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Everything users are told about. in_app rows show in the bell; email and texts are sent
+  -- from scheduled jobs, which stamp emailed_at / texted_at. subject_key names what the
+  -- notification is about (e.g. "user:12" for messages), so repeats can be folded together.
+  CREATE TABLE IF NOT EXISTS notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    url TEXT,
+    subject_key TEXT,
+    in_app INTEGER NOT NULL DEFAULT 1,
+    read_at DATETIME,
+    emailed_at DATETIME,
+    texted_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  -- Only the choices a user has changed; everything else follows the type's defaults.
+  CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    channel TEXT CHECK(channel IN ('in_app', 'email', 'sms')) NOT NULL,
+    enabled INTEGER NOT NULL,
+    PRIMARY KEY(user_id, type, channel),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  -- Chat events passed between server processes by the sqlite bus; kept for a minute.
+  CREATE TABLE IF NOT EXISTS bus_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    origin TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  -- Running server processes and the chat sockets each holds, so presence is right across them.
+  CREATE TABLE IF NOT EXISTS chat_instances (
+    id TEXT PRIMARY KEY,
+    heartbeat_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS chat_connections (
+    id TEXT PRIMARY KEY,
+    instance_id TEXT NOT NULL,
+    user_id INTEGER NOT NULL,
+    connected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(instance_id) REFERENCES chat_instances(id),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    token_hash TEXT UNIQUE NOT NULL,
+    user_id INTEGER NOT NULL,
+    expires_at DATETIME NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+  );
+`);
+
+// Columns added after the first release. SQLite has no "ADD COLUMN IF NOT EXISTS",
+// so check the table definition before altering databases created by older builds.
+export function addColumn(table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+addColumn("users", "password_hash", "TEXT");
+addColumn("users", "created_at", "DATETIME");
+addColumn("bookings", "expires_at", "DATETIME");
+addColumn("bookings", "updated_at", "DATETIME");
+addColumn("bookings", "start_at", "TEXT");
+addColumn("bookings", "end_at", "TEXT");
+addColumn("bookings", "timezone", "TEXT");
+
+// Amounts charged for the booking, in paise, exactly as quoted when it was requested.
+addColumn("bookings", "subtotal", "INTEGER");
+addColumn("bookings", "platform_fee", "INTEGER");
+addColumn("bookings", "friend_payout", "INTEGER");
+addColumn("bookings", "tax", "INTEGER");
+addColumn("bookings", "total", "INTEGER");
+addColumn("bookings", "promo_code", "TEXT");
+addColumn("bookings", "price_breakdown", "TEXT");
+addColumn("promo_codes", "max_per_customer", "INTEGER DEFAULT 1");
+
+addColumn("users", "timezone", "TEXT DEFAULT 'Asia/Kolkata'");
+addColumn("users", "min_notice_hours", "INTEGER DEFAULT 24");
+addColumn("users", "review_count", "INTEGER DEFAULT 0");
+addColumn("bookings", "activity_id", "INTEGER");
+
+// Friend applications: draft while being filled in, submitted until an admin approves or
+// rejects it. Only approved friends are listed and bookable.
+addColumn("users", "friend_status", "TEXT");
+addColumn("users", "safety_agreed_at", "DATETIME");
+addColumn("users", "application_submitted_at", "DATETIME");
+addColumn("users", "application_reviewed_at", "DATETIME");
+addColumn("users", "application_note", "TEXT");
+addColumn("users", "is_admin", "INTEGER DEFAULT 0");
+addColumn("users", "phone", "TEXT");
+addColumn("users", "phone_verified_at", "DATETIME");
+addColumn("users", "account_status", "TEXT DEFAULT 'active'");
+addColumn("users", "suspended_until", "DATETIME");
+addColumn("users", "status_reason", "TEXT");
+// Chat moderation: original_content keeps the text as typed when it was masked or held back.
+addColumn("messages", "moderation_status", "TEXT DEFAULT 'clean'");
+addColumn("messages", "moderation_flags", "TEXT");
+addColumn("messages", "original_content", "TEXT");
+addColumn("messages", "moderated_by", "INTEGER");
+addColumn("messages", "moderated_at", "DATETIME");
+// Receipts and presence for the chat widget.
+addColumn("messages", "delivered_at", "DATETIME");
+addColumn("messages", "read_at", "DATETIME");
+addColumn("users", "last_seen_at", "DATETIME");
+// Set by the sending client so a resend after a dropped connection isn't stored twice.
+addColumn("messages", "client_id", "TEXT");
+// text, image, file or system; image and file messages carry an attachment, content is the caption.
+addColumn("messages", "kind", "TEXT DEFAULT 'text'");
+addColumn("messages", "attachment_id", "INTEGER");
+
+// "button" for alerts the user raised, "check_in" for ones raised when they missed a check-in.
+addColumn("safety_incidents", "source", "TEXT DEFAULT 'button'");
+
+db.exec(`
+  CREATE INDEX IF NOT EXISTS bookings_friend_schedule ON bookings (friend_id, start_at, end_at);
+  CREATE INDEX IF NOT EXISTS availability_rules_friend ON availability_rules (friend_id, weekday);
+  CREATE INDEX IF NOT EXISTS availability_exceptions_friend ON availability_exceptions (friend_id, date);
+  CREATE INDEX IF NOT EXISTS payments_booking ON payments (booking_id);
+  CREATE INDEX IF NOT EXISTS ledger_entries_account ON ledger_entries (account);
+  CREATE INDEX IF NOT EXISTS reviews_reviewee ON reviews (reviewee_id, created_at);
+  CREATE INDEX IF NOT EXISTS users_role_rate ON users (role, hourly_rate);
+  CREATE INDEX IF NOT EXISTS users_role_rating ON users (role, rating);
+  CREATE INDEX IF NOT EXISTS user_terms_term ON user_terms (term_id);
+  CREATE INDEX IF NOT EXISTS friend_activities_activity ON friend_activities (activity_id);
+  CREATE INDEX IF NOT EXISTS taxonomy_synonyms_synonym ON taxonomy_synonyms (synonym);
+  CREATE INDEX IF NOT EXISTS id_verifications_user ON id_verifications (user_id, created_at);
+  CREATE INDEX IF NOT EXISTS id_verifications_status ON id_verifications (status, created_at);
+  CREATE INDEX IF NOT EXISTS id_verifications_number ON id_verifications (number_hash);
+  CREATE INDEX IF NOT EXISTS audit_log_subject ON audit_log (subject_user_id, created_at);
+  CREATE INDEX IF NOT EXISTS audit_log_entity ON audit_log (entity, entity_id);
+  CREATE UNIQUE INDEX IF NOT EXISTS users_phone ON users (phone) WHERE phone IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS otp_codes_phone ON otp_codes (phone, created_at);
+  CREATE INDEX IF NOT EXISTS otp_codes_ip ON otp_codes (ip, created_at);
+  CREATE INDEX IF NOT EXISTS otp_codes_user ON otp_codes (user_id, created_at);
+  CREATE INDEX IF NOT EXISTS bookings_created ON bookings (created_at);
+  CREATE INDEX IF NOT EXISTS ledger_transactions_created ON ledger_transactions (created_at);
+  CREATE INDEX IF NOT EXISTS reports_reported_user ON reports (reported_user_id, created_at);
+  CREATE INDEX IF NOT EXISTS reports_status ON reports (status, created_at);
+  CREATE INDEX IF NOT EXISTS user_blocks_blocked ON user_blocks (blocked_id);
+  CREATE INDEX IF NOT EXISTS messages_moderation ON messages (moderation_status, created_at);
+  CREATE INDEX IF NOT EXISTS messages_receiver_unread ON messages (receiver_id, sender_id, read_at);
+  CREATE UNIQUE INDEX IF NOT EXISTS messages_client_id ON messages (sender_id, client_id) WHERE client_id IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS messages_conversation ON messages (sender_id, receiver_id, id);
+  CREATE INDEX IF NOT EXISTS attachments_message ON attachments (message_id);
+  CREATE INDEX IF NOT EXISTS safety_incidents_status ON safety_incidents (status, created_at);
+  CREATE INDEX IF NOT EXISTS safety_incidents_user ON safety_incidents (user_id, status);
+  CREATE INDEX IF NOT EXISTS safety_incident_events_incident ON safety_incident_events (incident_id, type);
+  CREATE INDEX IF NOT EXISTS chat_connections_user ON chat_connections (user_id);
+  CREATE INDEX IF NOT EXISTS chat_connections_instance ON chat_connections (instance_id);
+  CREATE INDEX IF NOT EXISTS bus_events_created ON bus_events (created_at);
+  CREATE INDEX IF NOT EXISTS emergency_contacts_user ON emergency_contacts (user_id, status);
+  CREATE INDEX IF NOT EXISTS emergency_contact_invites_user ON emergency_contact_invites (user_id, phone, created_at);
+  CREATE INDEX IF NOT EXISTS emergency_contact_invites_phone ON emergency_contact_invites (phone, created_at);
+  CREATE INDEX IF NOT EXISTS safety_check_ins_user ON safety_check_ins (user_id, status);
+  CREATE INDEX IF NOT EXISTS scheduled_jobs_due ON scheduled_jobs (status, run_at);
+  CREATE INDEX IF NOT EXISTS notifications_user ON notifications (user_id, in_app, id);
+  CREATE INDEX IF NOT EXISTS notifications_subject ON notifications (user_id, type, subject_key);
+`);
+
+// Search indexes are filled from existing rows only when they are first created; from then on
+// the triggers keep them current, so startup doesn't rescan every message.
+const newSearchIndexes = ["users_fts", "messages_fts"]
+  .filter(name => !db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name));
+
+// Full-text index over the profile fields people search by, kept in step with users by triggers.
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS users_fts USING fts5(
+    name, about, interests, city, languages,
+    content='users', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS users_fts_insert AFTER INSERT ON users BEGIN
+    INSERT INTO users_fts (rowid, name, about, interests, city, languages)
+    VALUES (new.id, new.name, new.about, new.interests, new.city, new.languages);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS users_fts_delete AFTER DELETE ON users BEGIN
+    INSERT INTO users_fts (users_fts, rowid, name, about, interests, city, languages)
+    VALUES ('delete', old.id, old.name, old.about, old.interests, old.city, old.languages);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS users_fts_update AFTER UPDATE OF name, about, interests, city, languages ON users BEGIN
+    INSERT INTO users_fts (users_fts, rowid, name, about, interests, city, languages)
+    VALUES ('delete', old.id, old.name, old.about, old.interests, old.city, old.languages);
+    INSERT INTO users_fts (rowid, name, about, interests, city, languages)
+    VALUES (new.id, new.name, new.about, new.interests, new.city, new.languages);
+  END;
+`);
+
+// Full-text index over chat messages as stored (after masking), kept in step by triggers.
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+    content, content='messages', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+    INSERT INTO messages_fts (rowid, content) VALUES (new.id, new.content);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+    INSERT INTO messages_fts (rowid, content) VALUES (new.id, new.content);
+  END;
+`);
+
+// Bookings created before the lifecycle existed were left as 'pending'.
+db.prepare("UPDATE bookings SET status = 'requested' WHERE status = 'pending'").run();
+
+// Accounts that may sign in and be seen: not banned, and not inside a suspension. A suspension
+// without an end date lasts until an admin lifts it.
+export const ACTIVE_ACCOUNT = `(users.account_status = 'active'
+  OR (users.account_status = 'suspended' AND users.suspended_until <= CURRENT_TIMESTAMP))`;
+
+// Columns that are safe to send to other users. Never expose email or password_hash.
+export const PUBLIC_USER_COLUMNS = "id, name, role, city, age, languages, interests, about, hourly_rate, verified, rating, review_count, timezone";
+
+// Seed some data if empty
+const userCount = db.prepare("SELECT COUNT(*) as count FROM users").get() as { count: number };
+if (userCount.count === 0) {
+  // Seeded friends share a development password so their side of the app can be tried out.
+  const seedPassword = hashPasswordSync(process.env.SEED_PASSWORD || "friendlytime");
+  const insertUser = db.prepare(`
+    INSERT INTO users (name, email, role, city, age, languages, interests, about, hourly_rate, password_hash, phone, phone_verified_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+  `);
+
+  insertUser.run("Aarav", "aarav@example.com", "friend", "Mumbai", 24, "Hindi, English", "Movies, Cricket", "Love exploring new cafes and talking about cinema.", 800, seedPassword, "+919000000001");
+  insertUser.run("Ishani", "ishani@example.com", "friend", "Delhi", 22, "Hindi, English, Punjabi", "Travel, Photography", "Avid traveler looking for companions for city tours.", 1000, seedPassword, "+919000000002");
+  insertUser.run("Rohan", "rohan@example.com", "friend", "Bangalore", 26, "Kannada, English", "Tech, Gaming", "Let's grab a coffee and talk about the latest tech trends.", 750, seedPassword, "+919000000003");
+  insertUser.run("Priya", "priya@example.com", "friend", "Pune", 23, "Marathi, Hindi, English", "Books, Art", "Quiet companion for library visits or art galleries.", 900, seedPassword, "+919000000004");
+}
+
+// Friends who existed before availability was tracked start out free 10am–8pm every day,
+// so they stay bookable until they set their own hours.
+const ruleCount = db.prepare("SELECT COUNT(*) as count FROM availability_rules").get() as { count: number };
+if (ruleCount.count === 0) {
+  const friendIds = db.prepare("SELECT id FROM users WHERE role = 'friend'").all() as { id: number }[];
+  const insertRule = db.prepare("INSERT INTO availability_rules (friend_id, weekday, start_minute, end_minute) VALUES (?, ?, ?, ?)");
+  for (const { id } of friendIds) {
+    for (let weekday = 0; weekday < 7; weekday++) insertRule.run(id, weekday, 10 * 60, 20 * 60);
+  }
+}
+
+const promoCount = db.prepare("SELECT COUNT(*) as count FROM promo_codes").get() as { count: number };
+if (promoCount.count === 0) {
+  // 10% off, capped at ₹200.
+  db.prepare("INSERT INTO promo_codes (code, percent_off, max_discount) VALUES ('WELCOME10', 10, 20000)").run();
+}
+
+// Friends who joined before onboarding existed are already live.
+db.prepare("UPDATE users SET friend_status = 'approved' WHERE role = 'friend' AND friend_status IS NULL").run();
+
+// Ratings are an aggregate of reviews received; users without reviews have none
+// (this also clears the hand-picked ratings older databases were seeded with).
+db.prepare(`
+  UPDATE users SET
+    rating = (SELECT ROUND(AVG(rating), 2) FROM reviews WHERE reviewee_id = users.id),
+    review_count = (SELECT COUNT(*) FROM reviews WHERE reviewee_id = users.id)
+`).run();
+
+// The verified badge is backed by an approved, unexpired ID check; flags set by hand
+// (as the old seed data did) are cleared.
+db.prepare(`
+  UPDATE users SET verified = EXISTS (
+    SELECT 1 FROM id_verifications
+    WHERE user_id = users.id AND status = 'approved' AND expires_at > CURRENT_TIMESTAMP
+  )
+`).run();
+
+// Picks up users and messages written before the indexes existed.
+for (const name of newSearchIndexes) db.prepare(`INSERT INTO ${name} (${name}) VALUES ('rebuild')`).run();
@@ -0,0 +1,10 @@
+import type { EmailMessage, EmailProvider } from "./provider";
+
+// Development provider: prints messages to the server log instead of sending them.
+export class ConsoleEmailProvider implements EmailProvider {
+  name = "console";
+
+  async send({ to, subject, text }: EmailMessage) {
+    console.log(`[email] to ${to}: ${subject}\n${text}`);
+  }
+}
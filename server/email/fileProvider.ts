@@ -0,0 +1,15 @@
+import fs from "fs";
+import path from "path";
+import type { EmailMessage, EmailProvider } from "./provider";
+
+// Appends each message as a line of JSON to a file: a local outbox to read instead of an inbox.
+export class FileEmailProvider implements EmailProvider {
+  name = "file";
+
+  constructor(private file = path.resolve(process.env.EMAIL_OUTBOX_FILE || "email-outbox.jsonl")) {}
+
+  async send({ to, subject, text }: EmailMessage) {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(this.file, JSON.stringify({ to, subject, text, sentAt: new Date().toISOString() }) + "\n");
+  }
+}
@@ -0,0 +1,22 @@
+import { HttpError } from "../errors";
+import { ConsoleEmailProvider } from "./consoleProvider";
+import { FileEmailProvider } from "./fileProvider";
+import type { EmailMessage, EmailProvider } from "./provider";
+
+export type { EmailMessage, EmailProvider } from "./provider";
+
+const providers = new Map<string, EmailProvider>();
+for (const provider of [new ConsoleEmailProvider(), new FileEmailProvider()]) providers.set(provider.name, provider);
+
+// Real providers (SMTP, an email API) register themselves here; EMAIL_PROVIDER picks the one
+// messages go through.
+export function registerEmailProvider(provider: EmailProvider) {
+  providers.set(provider.name, provider);
+}
+
+export async function sendEmail(message: EmailMessage) {
+  const name = process.env.EMAIL_PROVIDER || "console";
+  const provider = providers.get(name);
+  if (!provider) throw new HttpError(500, `Email provider "${name}" is not configured`);
+  await provider.send(message);
+}
@@ -0,0 +1,11 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// What an email provider has to offer. Messages are plain text.
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
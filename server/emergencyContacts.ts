@@ -0,0 +1,212 @@
+import { createHash, randomBytes } from "crypto";
+import express from "express";
+import { db } from "./db";
+import { requireAuth } from "./auth";
+import { HttpError, sendError } from "./errors";
+import { normalizePhone } from "./phone";
+import { sendSms } from "./sms";
+
+export type EmergencyContactStatus = "pending" | "verified" | "declined";
+
+interface EmergencyContactRow {
+  id: number;
+  user_id: number;
+  name: string;
+  phone: string;
+  relationship: string | null;
+  status: EmergencyContactStatus;
+  token_hash: string | null;
+  token_expires_at: string | null;
+  invited_at: string | null;
+  verified_at: string | null;
+  created_at: string;
+}
+
+const MAX_CONTACTS = 3;
+const INVITE_TTL_DAYS = 7;
+const RESEND_AFTER_SECONDS = 60;
+// Invitation texts a day from one user, and to one number from everyone, so nobody can use the
+// platform to keep texting a stranger.
+const USER_DAILY_INVITE_LIMIT = 6;
+const PHONE_DAILY_INVITE_LIMIT = 3;
+const MAX_NAME_LENGTH = 80;
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toPublicContact(contact: EmergencyContactRow) {
+  const { id, name, phone, relationship, status, invited_at, verified_at, created_at } = contact;
+  return { id, name, phone, relationship, status, invited_at, verified_at, created_at };
+}
+
+function listContacts(userId: number) {
+  const contacts = db.prepare("SELECT * FROM emergency_contacts WHERE user_id = ? ORDER BY id").all(userId) as EmergencyContactRow[];
+  return contacts.map(toPublicContact);
+}
+
+function getOwnContact(id: number | string, userId: number) {
+  const contact = db.prepare("SELECT * FROM emergency_contacts WHERE id = ? AND user_id = ?").get(id, userId) as EmergencyContactRow | undefined;
+  if (!contact) throw new HttpError(404, "Contact not found");
+  return contact;
+}
+
+function count(sql: string, ...params: unknown[]) {
+  return (db.prepare(sql).get(...params) as { count: number }).count;
+}
+
+function hasDeclined(userId: number, phone: string) {
+  return Boolean(db.prepare("SELECT 1 FROM emergency_contact_invites WHERE user_id = ? AND phone = ? AND declined_at IS NOT NULL")
+    .get(userId, phone));
+}
+
+function inviteUrl(req: express.Request, token: string) {
+  return `${req.protocol}://${req.get("host")}/emergency-contacts/${token}`;
+}
+
+// Texts the contact a link to confirm they agree to be called on. Each text replaces the last
+// link; if it can't be sent the old link is kept so nothing is lost.
+async function sendInvite(req: express.Request, contact: EmergencyContactRow) {
+  if (hasDeclined(contact.user_id, contact.phone)) throw new HttpError(409, "This person has said no to being your emergency contact");
+  if (count("SELECT COUNT(*) AS count FROM emergency_contact_invites WHERE user_id = ? AND created_at > datetime('now', '-1 day')", contact.user_id) >= USER_DAILY_INVITE_LIMIT
+    || count("SELECT COUNT(*) AS count FROM emergency_contact_invites WHERE phone = ? AND created_at > datetime('now', '-1 day')", contact.phone) >= PHONE_DAILY_INVITE_LIMIT) {
+    throw new HttpError(429, "Too many invitations sent today. Try again tomorrow");
+  }
+  const logged = db.prepare("INSERT INTO emergency_contact_invites (user_id, phone) VALUES (?, ?)").run(contact.user_id, contact.phone);
+
+  const token = randomBytes(24).toString("base64url");
+  const previous = { token_hash: contact.token_hash, token_expires_at: contact.token_expires_at, invited_at: contact.invited_at };
+  db.prepare(`
+    UPDATE emergency_contacts SET token_hash = ?, token_expires_at = datetime('now', ?), invited_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(hashToken(token), `+${INVITE_TTL_DAYS} days`, contact.id);
+  try {
+    await sendSms(contact.phone, `${req.user!.name} has added you as an emergency contact on FriendlyTime. We would only text you if they might be unsafe on a meeting. Confirm here: ${inviteUrl(req, token)}`);
+  } catch (error) {
+    db.prepare("UPDATE emergency_contacts SET token_hash = ?, token_expires_at = ?, invited_at = ? WHERE id = ?")
+      .run(previous.token_hash, previous.token_expires_at, previous.invited_at, contact.id);
+    db.prepare("DELETE FROM emergency_contact_invites WHERE id = ?").run(logged.lastInsertRowid);
+    throw error;
+  }
+}
+
+// Texts every verified contact of the user. One failed text doesn't stop the rest; returns how
+// many went out.
+export async function notifyEmergencyContacts(userId: number, body: string) {
+  const contacts = db.prepare("SELECT * FROM emergency_contacts WHERE user_id = ? AND status = 'verified'").all(userId) as EmergencyContactRow[];
+  let sent = 0;
+  for (const contact of contacts) {
+    try {
+      await sendSms(contact.phone, body);
+      sent++;
+    } catch (error) {
+      console.error(`Emergency contact ${contact.id}: text failed`, error);
+    }
+  }
+  return sent;
+}
+
+function getInvite(token: string) {
+  return db.prepare(`
+    SELECT emergency_contacts.*, users.name AS user_name FROM emergency_contacts
+    JOIN users ON users.id = emergency_contacts.user_id
+    WHERE token_hash = ? AND token_expires_at > CURRENT_TIMESTAMP
+  `).get(hashToken(token)) as (EmergencyContactRow & { user_name: string }) | undefined;
+}
+
+export const emergencyContactsRouter = express.Router();
+
+emergencyContactsRouter.get("/me/emergency-contacts", requireAuth, (req, res) => {
+  res.json(listContacts(req.user!.id));
+});
+
+emergencyContactsRouter.post("/me/emergency-contacts", requireAuth, async (req, res) => {
+  try {
+    const body = req.body || {};
+    const name = typeof body.name === "string" ? body.name.trim().slice(0, MAX_NAME_LENGTH) : "";
+    const relationship = typeof body.relationship === "string" ? body.relationship.trim().slice(0, MAX_NAME_LENGTH) || null : null;
+    if (!name) throw new HttpError(400, "Enter your contact's name");
+    const phone = normalizePhone(body.phone);
+    const own = db.prepare("SELECT phone FROM users WHERE id = ?").get(req.user!.id) as { phone: string | null };
+    if (own.phone === phone) throw new HttpError(400, "Add someone other than yourself");
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM emergency_contacts WHERE user_id = ?").get(req.user!.id) as { count: number };
+    if (count >= MAX_CONTACTS) throw new HttpError(409, `You can have up to ${MAX_CONTACTS} emergency contacts`);
+    if (db.prepare("SELECT 1 FROM emergency_contacts WHERE user_id = ? AND phone = ?").get(req.user!.id, phone)) {
+      throw new HttpError(409, "That number is already one of your contacts");
+    }
+    if (hasDeclined(req.user!.id, phone)) throw new HttpError(409, "This person has said no to being your emergency contact");
+
+    const contact = db.prepare(`
+      INSERT INTO emergency_contacts (user_id, name, phone, relationship) VALUES (?, ?, ?, ?) RETURNING *
+    `).get(req.user!.id, name, phone, relationship) as EmergencyContactRow;
+    try {
+      await sendInvite(req, contact);
+    } catch (error) {
+      db.prepare("DELETE FROM emergency_contacts WHERE id = ?").run(contact.id);
+      throw error;
+    }
+    res.status(201).json(listContacts(req.user!.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Sends the confirmation text again after it expired. Someone who said no isn't asked again;
+// they can still change their answer from the link they already have.
+emergencyContactsRouter.post("/me/emergency-contacts/:id/resend", requireAuth, async (req, res) => {
+  try {
+    const contact = getOwnContact(req.params.id, req.user!.id);
+    if (contact.status === "verified") throw new HttpError(409, "This contact has already confirmed");
+    if (contact.status === "declined") throw new HttpError(409, "This person has said no to being your emergency contact");
+    const { age } = db.prepare("SELECT CAST(strftime('%s', 'now') - strftime('%s', ?) AS INTEGER) AS age").get(contact.invited_at) as { age: number | null };
+    if (age !== null && age < RESEND_AFTER_SECONDS) {
+      throw new HttpError(429, `Please wait ${RESEND_AFTER_SECONDS - age} seconds before sending another text`);
+    }
+    await sendInvite(req, contact);
+    db.prepare("UPDATE emergency_contacts SET status = 'pending' WHERE id = ?").run(contact.id);
+    res.json(listContacts(req.user!.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+emergencyContactsRouter.delete("/me/emergency-contacts/:id", requireAuth, (req, res) => {
+  try {
+    const contact = getOwnContact(req.params.id, req.user!.id);
+    db.prepare("DELETE FROM emergency_contacts WHERE id = ?").run(contact.id);
+    res.json(listContacts(req.user!.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// The page behind the texted link. No login: holding the unexpired link is the permission.
+emergencyContactsRouter.get("/emergency-contacts/:token", (req, res) => {
+  const invite = getInvite(req.params.token);
+  if (!invite) {
+    res.status(404).json({ error: "This link has expired. Ask them to send it again" });
+    return;
+  }
+  res.json({ name: invite.name, user_name: invite.user_name, status: invite.status });
+});
+
+emergencyContactsRouter.post("/emergency-contacts/:token/:answer", (req, res) => {
+  const { answer } = req.params;
+  if (answer !== "accept" && answer !== "decline") {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const invite = getInvite(req.params.token);
+  if (!invite) {
+    res.status(404).json({ error: "This link has expired. Ask them to send it again" });
+    return;
+  }
+  const status: EmergencyContactStatus = answer === "accept" ? "verified" : "declined";
+  db.prepare(`
+    UPDATE emergency_contacts SET status = ?, verified_at = CASE WHEN ? = 'verified' THEN CURRENT_TIMESTAMP ELSE NULL END
+    WHERE id = ?
+  `).run(status, status, invite.id);
+  db.prepare("UPDATE emergency_contact_invites SET declined_at = CASE WHEN ? = 'declined' THEN CURRENT_TIMESTAMP ELSE NULL END WHERE user_id = ? AND phone = ?")
+    .run(status, invite.user_id, invite.phone);
+  res.json({ name: invite.name, user_name: invite.user_name, status });
+});
@@ -0,0 +1,18 @@
+import type express from "express";
+
+// An error that carries the HTTP status to answer with. Domain modules throw these so
+// route handlers and the WebSocket layer can report them the same way.
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export function sendError(res: express.Response, error: unknown) {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ error: error.message });
+  } else {
+    console.error(error);
+    res.status(500).json({ error: "Something went wrong" });
+  }
+}
@@ -0,0 +1,193 @@
+import express from "express";
+import { ACTIVE_ACCOUNT, db, PUBLIC_USER_COLUMNS } from "./db";
+import { HttpError, sendError } from "./errors";
+import { getFreeSlots, isValidDate } from "./availability";
+import { resolveTerm, withTaxonomy } from "./taxonomy";
+import { NOT_BLOCKED_WITH_VIEWER } from "./blocks";
+
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 48;
+
+// Keys are evaluated against the filtered result set, so they name its columns.
+const SORTS = {
+  relevance: { key: "score", direction: "ASC" },
+  rating: { key: "COALESCE(rating, 0)", direction: "DESC" },
+  price_asc: { key: "COALESCE(hourly_rate, 0)", direction: "ASC" },
+  price_desc: { key: "COALESCE(hourly_rate, 0)", direction: "DESC" },
+  newest: { key: "id", direction: "DESC" },
+} as const;
+
+type SortName = keyof typeof SORTS;
+
+interface Cursor {
+  // Sort key of the last friend on the previous page, with the id breaking ties.
+  value: number;
+  id: number;
+}
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString());
+    if (typeof cursor.value === "number" && Number.isInteger(cursor.id)) return cursor;
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new HttpError(400, "Invalid cursor");
+}
+
+// Turns free text into an FTS5 query: every word must match, as a prefix, in any field.
+export function toFtsQuery(text: string) {
+  const words = text.match(/[\p{L}\p{N}]+/gu) || [];
+  return words.map(word => `"${word}"*`).join(" ");
+}
+
+function optionalNumber(value: unknown, field: string) {
+  if (value === undefined || value === "") return null;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new HttpError(400, `${field} must be a number`);
+  return number;
+}
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+type FriendRow = Record<string, unknown> & { id: number; score: number };
+
+function sortValue(sort: SortName, row: FriendRow) {
+  switch (sort) {
+    case "relevance": return row.score;
+    case "rating": return (row.rating as number | null) ?? 0;
+    case "price_asc":
+    case "price_desc": return (row.hourly_rate as number | null) ?? 0;
+    case "newest": return row.id;
+  }
+}
+
+// viewerId hides friends the signed-in user has blocked or been blocked by.
+export function searchFriends(query: Record<string, unknown>, viewerId?: number) {
+  const conditions = ["role = 'friend'", "friend_status = 'approved'", ACTIVE_ACCOUNT];
+  const params: (string | number)[] = [];
+  if (viewerId) {
+    conditions.push(NOT_BLOCKED_WITH_VIEWER);
+    params.push(viewerId, viewerId);
+  }
+
+  const search = toFtsQuery(optionalText(query.q) || "");
+  if (search) {
+    conditions.push("users.id IN (SELECT rowid FROM users_fts WHERE users_fts MATCH ?)");
+    params.push(search);
+  }
+
+  const city = optionalText(query.city);
+  if (city) {
+    conditions.push("city = ? COLLATE NOCASE");
+    params.push(city);
+  }
+  // Filter values go through the taxonomy, so synonyms such as "Cinema" find "Movies".
+  for (const kind of ["language", "interest"] as const) {
+    const value = optionalText(query[kind]);
+    if (value) {
+      const term = resolveTerm(kind, value);
+      conditions.push("users.id IN (SELECT user_id FROM user_terms WHERE term_id = ?)");
+      params.push(term?.id ?? -1);
+    }
+  }
+  const activity = optionalText(query.activity);
+  if (activity) {
+    const term = resolveTerm("activity", activity);
+    conditions.push("users.id IN (SELECT friend_id FROM friend_activities WHERE activity_id = ?)");
+    params.push(term?.id ?? -1);
+  }
+
+  const ranges = [
+    ["minPrice", "hourly_rate >= ?"],
+    ["maxPrice", "hourly_rate <= ?"],
+    ["minAge", "age >= ?"],
+    ["maxAge", "age <= ?"],
+    ["minRating", "rating >= ?"],
+  ] as const;
+  for (const [field, condition] of ranges) {
+    const value = optionalNumber(query[field], field);
+    if (value !== null) {
+      conditions.push(condition);
+      params.push(value);
+    }
+  }
+  if (query.verified === "1" || query.verified === "true") conditions.push("verified = 1");
+
+  const availableOn = optionalText(query.availableOn);
+  if (availableOn && !isValidDate(availableOn)) throw new HttpError(400, "availableOn must be a date (YYYY-MM-DD)");
+
+  const sortName = (optionalText(query.sort) || (search ? "relevance" : "rating")) as SortName;
+  const sort = SORTS[sortName];
+  if (!sort) throw new HttpError(400, `sort must be one of ${Object.keys(SORTS).join(", ")}`);
+  if (sortName === "relevance" && !search) throw new HttpError(400, "Sorting by relevance needs a search");
+
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE));
+  let cursor = typeof query.cursor === "string" && query.cursor ? decodeCursor(query.cursor) : null;
+
+  const columns = PUBLIC_USER_COLUMNS.split(", ").map(column => `users.${column}`).join(", ");
+  const score = search ? "(SELECT bm25(users_fts) FROM users_fts WHERE users_fts MATCH ? AND rowid = users.id)" : "0";
+  const comparison = sort.direction === "ASC" ? ">" : "<";
+  const page = db.prepare(`
+    SELECT * FROM (
+      SELECT ${columns}, ${score} AS score FROM users WHERE ${conditions.join(" AND ")}
+    )
+    WHERE ? IS NULL OR ${sort.key} ${comparison} ? OR (${sort.key} = ? AND id ${comparison} ?)
+    ORDER BY ${sort.key} ${sort.direction}, id ${sort.direction}
+    LIMIT ?
+  `);
+
+  // Availability is worked out per friend, so keep reading until a full page survives it.
+  const friends: FriendRow[] = [];
+  while (friends.length <= limit) {
+    const rows = page.all(
+      ...(search ? [search] : []),
+      ...params,
+      cursor ? 1 : null, cursor?.value ?? null, cursor?.value ?? null, cursor?.id ?? null,
+      limit + 1
+    ) as FriendRow[];
+    for (const row of rows) {
+      if (!availableOn || getFreeSlots(row.id, availableOn, availableOn).days[0].slots.length > 0) friends.push(row);
+    }
+    if (rows.length < limit + 1) break;
+    const last = rows[rows.length - 1];
+    cursor = { value: sortValue(sortName, last), id: last.id };
+  }
+
+  const last = friends[limit - 1];
+  return {
+    friends: friends.slice(0, limit).map(({ score, ...friend }) => withTaxonomy(friend)),
+    nextCursor: friends.length > limit ? encodeCursor({ value: sortValue(sortName, last), id: last.id }) : null,
+  };
+}
+
+export const friendsRouter = express.Router();
+
+friendsRouter.get("/friends", (req, res) => {
+  try {
+    res.json(searchFriends(req.query, req.user?.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Friends who are not approved yet can still preview their own profile. Blocked profiles
+// look the same as missing ones.
+friendsRouter.get("/friends/:id", (req, res) => {
+  const viewerId = req.user?.id ?? null;
+  const friend = db.prepare(`
+    SELECT ${PUBLIC_USER_COLUMNS} FROM users
+    WHERE id = ? AND role = 'friend' AND ((friend_status = 'approved' AND ${ACTIVE_ACCOUNT} AND ${NOT_BLOCKED_WITH_VIEWER}) OR id = ?)
+  `).get(req.params.id, viewerId, viewerId, viewerId) as { id: number; role: string } | undefined;
+  if (friend) {
+    res.json(withTaxonomy(friend));
+  } else {
+    res.status(404).json({ error: "Friend not found" });
+  }
+});
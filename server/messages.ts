@@ -0,0 +1,250 @@
+import express from "express";
+import { db } from "./db";
+import { requireAdmin, requireAuth, requireVerifiedPhone } from "./auth";
+import { recordAudit } from "./audit";
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  attachmentPath,
+  getAttachment,
+  saveAttachment,
+  toPublicAttachment,
+  withAttachments,
+} from "./attachments";
+import {
+  MESSAGE_PAGE_SIZE,
+  VISIBLE_TO_RECEIVER,
+  canMessage,
+  decodeMessageCursor,
+  encodeMessageCursor,
+  getConversation,
+  sendToUser,
+  sendUnreadCount,
+} from "./chat";
+import { NOT_BLOCKED_WITH_VIEWER } from "./blocks";
+import { HttpError, sendError } from "./errors";
+import { toFtsQuery } from "./friends";
+import type { ModerationStatus } from "./moderation";
+
+interface MessageRow {
+  id: number;
+  sender_id: number;
+  receiver_id: number;
+  kind: string;
+  content: string;
+  attachment_id: number | null;
+  created_at: string;
+  moderation_status: ModerationStatus;
+  moderation_flags: string | null;
+  original_content: string | null;
+}
+
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_RESULTS = 50;
+// Marks around matched words in search snippets. The client turns them into highlights, so no
+// HTML from message text is ever rendered.
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+export const messagesRouter = express.Router();
+
+// Searches everything the user can see in their conversations, optionally just the one with
+// ?with=<userId>, newest first.
+messagesRouter.get("/messages/search", requireAuth, (req, res) => {
+  const userId = req.user!.id;
+  const search = toFtsQuery(typeof req.query.q === "string" ? req.query.q : "");
+  if (!search) {
+    res.status(400).json({ error: "Enter something to search for" });
+    return;
+  }
+  const withUserId = req.query.with ? Number(req.query.with) : null;
+  const results = db.prepare(`
+    SELECT messages.id, messages.sender_id, messages.receiver_id, messages.created_at,
+      snippet(messages_fts, 0, ?, ?, '…', 12) AS snippet, users.id AS user_id, users.name
+    FROM messages_fts
+    JOIN messages ON messages.id = messages_fts.rowid
+    JOIN users ON users.id = CASE WHEN messages.sender_id = ? THEN messages.receiver_id ELSE messages.sender_id END
+    WHERE messages_fts MATCH ?
+      AND (messages.sender_id = ? OR (messages.receiver_id = ? AND ${VISIBLE_TO_RECEIVER}))
+      AND (? IS NULL OR users.id = ?)
+      AND ${NOT_BLOCKED_WITH_VIEWER}
+    ORDER BY messages.id DESC
+    LIMIT ?
+  `).all(MATCH_START, MATCH_END, userId, search, userId, userId, withUserId, withUserId, userId, userId, MAX_SEARCH_RESULTS);
+  res.json(results);
+});
+
+// A page of the conversation with another user, oldest first: the latest messages, then older
+// ones by passing nextCursor back as ?cursor=. Messages that were kept back only show up for
+// their sender, with their status, so the sender knows why they got no reply.
+messagesRouter.get("/messages/:otherId", requireAuth, (req, res) => {
+  try {
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(req.query.limit) || MESSAGE_PAGE_SIZE));
+    const beforeId = typeof req.query.cursor === "string" && req.query.cursor ? decodeMessageCursor(req.query.cursor) : undefined;
+    const page = getConversation(req.user!.id, Number(req.params.otherId), { beforeId, limit: limit + 1 });
+    const messages = page.length > limit ? page.slice(1) : page;
+    res.json({ messages, nextCursor: page.length > limit ? encodeMessageCursor(messages[0].id) : null });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+function decodeFileName(header: string | undefined) {
+  try {
+    return decodeURIComponent(header || "");
+  } catch (error) {
+    if (error instanceof URIError) throw new HttpError(400, "X-File-Name must be URI-encoded");
+    throw error;
+  }
+}
+
+// Uploads an image or PDF for a conversation; the returned id is then sent in a chat frame.
+// The original file name travels in X-File-Name.
+messagesRouter.post(
+  "/attachments",
+  requireVerifiedPhone,
+  express.raw({ type: Object.keys(ATTACHMENT_TYPES), limit: MAX_ATTACHMENT_BYTES }),
+  async (req, res) => {
+    try {
+      const receiverId = Number(req.query.receiverId);
+      if (!canMessage(req.user!, receiverId)) throw new HttpError(403, "You can't message this user");
+      const mimeType = String(req.header("content-type") || "").split(";")[0].trim();
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) throw new HttpError(400, "Choose a photo or PDF to send");
+      const fileName = decodeFileName(req.header("x-file-name"));
+      const attachment = await saveAttachment(req.user!.id, receiverId, mimeType, fileName, req.body);
+      res.status(201).json(toPublicAttachment(attachment));
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+);
+
+// Only the two people in the conversation (and admins reviewing it) can open an attachment,
+// and the receiver only once its message is visible to them. Anyone else gets a 404.
+function findViewableAttachment(req: express.Request) {
+  const attachment = getAttachment(req.params.id);
+  if (!attachment) return undefined;
+  const user = req.user!;
+  if (user.is_admin || attachment.uploader_id === user.id) return attachment;
+  if (attachment.receiver_id !== user.id || !attachment.message_id) return undefined;
+  const visible = db.prepare(`SELECT 1 FROM messages WHERE id = ? AND ${VISIBLE_TO_RECEIVER}`).get(attachment.message_id);
+  return visible ? attachment : undefined;
+}
+
+messagesRouter.get("/attachments/:id", requireAuth, (req, res) => {
+  const attachment = findViewableAttachment(req);
+  if (!attachment) {
+    res.status(404).json({ error: "Attachment not found" });
+    return;
+  }
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  // Files always download rather than open in the app's origin; images show inline.
+  if (attachment.kind === "image") res.setHeader("Content-Disposition", "inline");
+  else res.attachment(attachment.file_name);
+  res.type(attachment.mime_type).sendFile(attachmentPath(attachment.storage_key));
+});
+
+messagesRouter.get("/attachments/:id/thumbnail", requireAuth, (req, res) => {
+  const attachment = findViewableAttachment(req);
+  if (!attachment?.thumbnail_key) {
+    res.status(404).json({ error: "Thumbnail not found" });
+    return;
+  }
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.type("image/webp").sendFile(attachmentPath(attachment.thumbnail_key));
+});
+
+// The user's threads, most recent first: who with, the last message either way and how many
+// of theirs are unread. Threads with anyone blocked either way are left out.
+messagesRouter.get("/conversations", requireAuth, (req, res) => {
+  const userId = req.user!.id;
+  const conversations = db.prepare(`
+    WITH visible AS (
+      SELECT id, CASE WHEN sender_id = ? THEN receiver_id ELSE sender_id END AS other_id
+      FROM messages
+      WHERE sender_id = ? OR (receiver_id = ? AND ${VISIBLE_TO_RECEIVER})
+    ),
+    latest AS (SELECT other_id, MAX(id) AS last_id FROM visible GROUP BY other_id)
+    SELECT users.id AS user_id, users.name, users.role, users.city, users.verified,
+      messages.id AS last_message_id, messages.kind AS last_message_kind, messages.content AS last_message, messages.sender_id AS last_sender_id,
+      messages.moderation_status AS last_message_status, messages.created_at AS last_message_at,
+      (SELECT COUNT(*) FROM messages unread
+        WHERE unread.sender_id = users.id AND unread.receiver_id = ? AND unread.read_at IS NULL
+          AND ${VISIBLE_TO_RECEIVER}) AS unread_count
+    FROM latest
+    JOIN messages ON messages.id = latest.last_id
+    JOIN users ON users.id = latest.other_id
+    WHERE ${NOT_BLOCKED_WITH_VIEWER}
+    ORDER BY messages.id DESC
+  `).all(userId, userId, userId, userId, userId, userId);
+  res.json(conversations);
+});
+
+// The moderation queue: held messages waiting for a decision and delivered ones flagged for a look.
+messagesRouter.get("/admin/messages", requireAdmin, (req, res) => {
+  const status = typeof req.query.status === "string" ? req.query.status : "";
+  const statuses = status ? [status] : ["held", "flagged"];
+  const messages = db.prepare(`
+    SELECT messages.*, sender.name AS sender_name, receiver.name AS receiver_name
+    FROM messages
+    JOIN users sender ON sender.id = messages.sender_id
+    JOIN users receiver ON receiver.id = messages.receiver_id
+    WHERE moderation_status IN (${statuses.map(() => "?").join(", ")})
+    ORDER BY messages.id
+    LIMIT 200
+  `).all(...statuses) as (MessageRow & { sender_name: string; receiver_name: string })[];
+  res.json(withAttachments(messages).map(message => ({ ...message, moderation_flags: JSON.parse(message.moderation_flags || "[]") })));
+});
+
+// release delivers a held message (or clears a flagged one); remove hides it from the receiver.
+messagesRouter.post("/admin/messages/:id/:decision", requireAdmin, (req, res) => {
+  const { decision } = req.params;
+  if (decision !== "release" && decision !== "remove") {
+    res.status(404).json({ error: "Unknown decision" });
+    return;
+  }
+  const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+  if (!reason) {
+    res.status(400).json({ error: "Give a reason; it is kept in the audit log" });
+    return;
+  }
+  const message = db.prepare("SELECT * FROM messages WHERE id = ? AND moderation_status IN ('held', 'flagged')")
+    .get(req.params.id) as MessageRow | undefined;
+  if (!message) {
+    res.status(404).json({ error: "No message waiting for review with that id" });
+    return;
+  }
+
+  const status = decision === "release" ? "released" : "removed";
+  db.prepare("UPDATE messages SET moderation_status = ?, moderated_by = ?, moderated_at = CURRENT_TIMESTAMP WHERE id = ?")
+    .run(status, req.user!.id, message.id);
+  recordAudit({
+    actorId: req.user!.id,
+    action: `message.${status}`,
+    entity: "message",
+    entityId: message.id,
+    subjectUserId: message.sender_id,
+    detail: { reason, previousStatus: message.moderation_status },
+  });
+
+  if (status === "released" && message.moderation_status === "held") {
+    const attachment = message.attachment_id ? getAttachment(message.attachment_id) : undefined;
+    sendToUser(message.receiver_id, {
+      type: "chat",
+      id: message.id,
+      senderId: message.sender_id,
+      kind: message.kind,
+      content: message.content,
+      attachment: attachment ? toPublicAttachment(attachment) : null,
+      createdAt: new Date().toISOString(),
+    });
+    sendUnreadCount(message.receiver_id);
+  }
+  if (status === "removed" && message.moderation_status === "flagged") {
+    sendToUser(message.receiver_id, { type: "removed", messageId: message.id, senderId: message.sender_id });
+    sendUnreadCount(message.receiver_id);
+  }
+  res.json({ ...message, moderation_status: status });
+});
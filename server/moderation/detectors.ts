@@ -0,0 +1,105 @@
+import type { ContactKind, ModerationRules } from "./rules";
+
+export interface Match {
+  kind: ContactKind;
+  start: number;
+  end: number;
+}
+
+// Digits may be typed, spelled out in English or Hindi, or compressed with "double" / "triple".
+const DIGIT_WORDS = [
+  "zero", "oh", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine",
+  "shunya", "ek", "teen", "char", "paanch", "chhah", "saat", "aath", "nau",
+];
+const DIGIT_TOKEN = `(?:\\d|(?<![a-z])(?:double|triple|${DIGIT_WORDS.join("|")})(?![a-z]))`;
+const DIGIT_SEPARATOR = "[\\s\\-.,()/+_*|]*";
+const DIGIT_RUN = new RegExp(`${DIGIT_TOKEN}(?:${DIGIT_SEPARATOR}${DIGIT_TOKEN})*`, "gi");
+const DIGIT_TOKENS = new RegExp(DIGIT_TOKEN, "gi");
+
+const TLDS = "com|in|net|org|co|io|me|ly|app|link|xyz";
+// A full stop is followed by a space, so "good. In" mustn't read as a domain: spaces are only
+// allowed before the dot, or after it when the next word is a TLD no sentence starts with.
+const SPACED_TLDS = "com|org|io|xyz";
+const DOT = `(?:\\s+\\.\\s*|\\.\\s+(?=(?:${SPACED_TLDS})\\b)|\\.|\\s*[\\[(]dot[\\])]\\s*|\\s+dot\\s+)`;
+const AT = "(?:\\s*@\\s*|\\s*[\\[(]at[\\])]\\s*|\\s+at\\s+)";
+
+// Checked in this order; a later pattern can't claim text an earlier one already matched.
+const PATTERNS: { kind: ContactKind; pattern: RegExp }[] = [
+  { kind: "email", pattern: /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)+/gi },
+  { kind: "email", pattern: new RegExp(`[a-z0-9._%+-]+${AT}[a-z0-9-]+${DOT}(?:${TLDS})\\b`, "gi") },
+  // A handle at a bank or app with no domain after it, e.g. name@okaxis.
+  { kind: "upi", pattern: /[a-z0-9._-]{2,}@[a-z]{2,}(?![a-z0-9.-])/gi },
+  { kind: "link", pattern: /\b(?:https?:\/\/|www\.)\S+/gi },
+  { kind: "link", pattern: new RegExp(`\\b[a-z0-9-]+(?:${DOT}[a-z0-9-]+)*${DOT}(?:${TLDS})\\b(?:/\\S*)?`, "gi") },
+];
+
+function countDigits(run: string) {
+  let digits = 0;
+  for (const [token] of run.matchAll(DIGIT_TOKENS)) {
+    const word = token.toLowerCase();
+    digits += word === "double" ? 1 : word === "triple" ? 2 : 1;
+  }
+  return digits;
+}
+
+function overlaps(matches: Match[], start: number, end: number) {
+  return matches.some(match => start < match.end && end > match.start);
+}
+
+// Contact details in the text, as non-overlapping spans in order of appearance.
+export function findContactDetails(text: string, rules: ModerationRules["contactDetails"]) {
+  const matches: Match[] = [];
+  for (const { kind, pattern } of PATTERNS) {
+    if (!rules.detect.includes(kind)) continue;
+    for (const found of text.matchAll(pattern)) {
+      const start = found.index!;
+      const end = start + found[0].length;
+      if (!overlaps(matches, start, end)) matches.push({ kind, start, end });
+    }
+  }
+  if (rules.detect.includes("phone")) {
+    for (const found of text.matchAll(DIGIT_RUN)) {
+      const start = found.index!;
+      const end = start + found[0].length;
+      if (countDigits(found[0]) >= rules.minPhoneDigits && !overlaps(matches, start, end)) {
+        matches.push({ kind: "phone", start, end });
+      }
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+export function maskMatches(text: string, matches: Match[]) {
+  let masked = "";
+  let position = 0;
+  for (const match of matches) {
+    masked += `${text.slice(position, match.start)}[${match.kind} hidden]`;
+    position = match.end;
+  }
+  return masked + text.slice(position);
+}
+
+const LEET: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", "$": "s" };
+
+// Lower-cases, undoes look-alike characters inside words and joins letters spelled out one at a
+// time ("s.e.x", "s e x").
+function normalizeForPolicy(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[a-z0-9@$]+/g, word => (/[a-z]/.test(word) ? word.replace(/[0-9@$]/g, ch => LEET[ch] ?? ch) : word))
+    .replace(/\b[a-z](?:[\s.\-_*]+[a-z]\b)+/g, letters => letters.replace(/[^a-z]/g, ""));
+}
+
+function termPattern(term: string) {
+  const body = [...term.toLowerCase()]
+    .map(ch => (ch === " " ? "[\\s_-]*" : `${ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}+`))
+    .join("");
+  // Plurals count too: "happy endings", "escorts".
+  return new RegExp(`(?<![a-z])${body}(?:e?s)?(?![a-z])`);
+}
+
+// Policy terms found in the text, by their configured spelling.
+export function findPolicyTerms(text: string, terms: string[]) {
+  const normalized = normalizeForPolicy(text);
+  return terms.filter(term => termPattern(term).test(normalized));
+}
@@ -0,0 +1,65 @@
+import { db } from "../db";
+import { findContactDetails, findPolicyTerms, maskMatches } from "./detectors";
+import { loadRules } from "./rules";
+
+// clean and masked messages are delivered; held and blocked ones are not. flagged messages
+// are delivered but wait in the moderation queue, as do held ones.
+export type ModerationStatus = "clean" | "masked" | "flagged" | "held" | "blocked" | "released" | "removed";
+
+export interface ModerationResult {
+  status: ModerationStatus;
+  // What is stored as the message and shown to the receiver.
+  content: string;
+  // The text as typed, kept for moderators whenever it differs or is not delivered.
+  original: string | null;
+  // e.g. ["phone", "policy:escort"].
+  flags: string[];
+  deliver: boolean;
+  // Shown to the sender in the chat when the message was changed or kept back.
+  notice: string | null;
+}
+
+const rules = loadRules();
+
+// Contact details are fine once the two have a confirmed booking together.
+function hasConfirmedBooking(userId: number, otherId: number) {
+  return Boolean(db.prepare(`
+    SELECT 1 FROM bookings
+    WHERE ((customer_id = ? AND friend_id = ?) OR (customer_id = ? AND friend_id = ?))
+      AND status IN ('confirmed', 'in_progress', 'completed')
+    LIMIT 1
+  `).get(userId, otherId, otherId, userId));
+}
+
+const CONTACT_RULE = rules.contactDetails.untilBookingConfirmed
+  ? "until your booking is confirmed"
+  : "in chat";
+
+export function moderateMessage(senderId: number, receiverId: number, text: string): ModerationResult {
+  const terms = rules.policy.action === "allow" ? [] : findPolicyTerms(text, rules.policy.terms);
+  const checkContacts = rules.contactDetails.action !== "allow"
+    && !(rules.contactDetails.untilBookingConfirmed && hasConfirmedBooking(senderId, receiverId));
+  const contacts = checkContacts ? findContactDetails(text, rules.contactDetails) : [];
+
+  const flags = [...new Set(contacts.map(match => match.kind)), ...terms.map(term => `policy:${term}`)];
+  const content = contacts.length > 0 ? maskMatches(text, contacts) : text;
+  const result = (status: ModerationStatus, deliver: boolean, notice: string | null): ModerationResult => ({
+    status,
+    content,
+    original: content !== text || !deliver ? text : null,
+    flags,
+    deliver,
+    notice,
+  });
+
+  if (terms.length > 0 && rules.policy.action === "hold") {
+    return result("held", false, "Your message is being held for review because it may break our safety policy. FriendlyTime is for platonic companionship only.");
+  }
+  if (contacts.length > 0 && rules.contactDetails.action === "block") {
+    return result("blocked", false, `Message not sent: phone numbers, emails, UPI IDs and links can't be shared ${CONTACT_RULE}.`);
+  }
+  const maskNotice = contacts.length > 0 ? `We hid contact details in your message. They can't be shared ${CONTACT_RULE}.` : null;
+  if (terms.length > 0) return result("flagged", true, maskNotice);
+  if (contacts.length > 0) return result("masked", true, maskNotice);
+  return result("clean", true, null);
+}
@@ -0,0 +1,55 @@
+import fs from "fs";
+
+export type ContactKind = "phone" | "email" | "upi" | "link";
+
+// mask: deliver with the details replaced; block: don't deliver at all.
+export type ContactAction = "mask" | "block" | "allow";
+// hold: keep back until a moderator releases it; flag: deliver, but queue it for review.
+export type PolicyAction = "hold" | "flag" | "allow";
+
+export interface ModerationRules {
+  contactDetails: {
+    action: ContactAction;
+    // Which kinds of contact detail to look for.
+    detect: ContactKind[];
+    // Only apply until the two users have a confirmed booking together.
+    untilBookingConfirmed: boolean;
+    // Digits (written or spelled out) that make a run look like a phone number.
+    minPhoneDigits: number;
+  };
+  policy: {
+    action: PolicyAction;
+    // Words and phrases that break the no-intimacy / no-escort policy, matched as whole
+    // words after undoing common obfuscation such as "s.e.x" or "3sc0rt".
+    terms: string[];
+  };
+}
+
+export const DEFAULT_RULES: ModerationRules = {
+  contactDetails: {
+    action: "mask",
+    detect: ["phone", "email", "upi", "link"],
+    untilBookingConfirmed: true,
+    minPhoneDigits: 10,
+  },
+  policy: {
+    action: "hold",
+    terms: [
+      "escort", "escorting", "call girl", "call boy", "sex", "sexy", "sexual", "intimate", "intimacy",
+      "hookup", "hook up", "one night stand", "happy ending", "body massage", "body to body", "b2b", "nude",
+      "naked", "full service", "night stay", "girlfriend experience", "gfe", "cuddle", "cuddling",
+    ],
+  },
+};
+
+// CHAT_MODERATION_RULES names a JSON file whose sections replace the defaults field by field,
+// e.g. {"contactDetails": {"action": "block"}}.
+export function loadRules(): ModerationRules {
+  const file = process.env.CHAT_MODERATION_RULES;
+  if (!file) return DEFAULT_RULES;
+  const overrides = JSON.parse(fs.readFileSync(file, "utf8")) as Partial<ModerationRules>;
+  return {
+    contactDetails: { ...DEFAULT_RULES.contactDetails, ...overrides.contactDetails },
+    policy: { ...DEFAULT_RULES.policy, ...overrides.policy },
+  };
+}
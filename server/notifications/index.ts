@@ -0,0 +1,187 @@
+import express from "express";
+import { db } from "../db";
+import { requireAuth, type SessionUser } from "../auth";
+import { afterTransition } from "../bookings";
+import { sendToUser } from "../chat";
+import { sendEmail } from "../email";
+import { HttpError, sendError } from "../errors";
+import { registerJobHandler, scheduleJob } from "../scheduler";
+import { sendSms } from "../sms";
+import { formatLocalDateTime } from "../time";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TEMPLATES,
+  isNotificationType,
+  type NotificationChannel,
+  type NotificationData,
+  type NotificationType,
+} from "./templates";
+
+export type { NotificationType } from "./templates";
+
+interface NotificationRow {
+  id: number;
+  user_id: number;
+  type: NotificationType;
+  title: string;
+  body: string;
+  url: string | null;
+  subject_key: string | null;
+  in_app: number;
+  read_at: string | null;
+  emailed_at: string | null;
+  texted_at: string | null;
+  created_at: string;
+}
+
+const APP_URL = (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+const PAGE_SIZE = 20;
+// Another notification about the same thing is folded into an unread one this recent, so a
+// burst of messages makes one email rather than twenty.
+const REPEAT_WINDOW_MINUTES = 60;
+
+// Links in emails and texts, which go out from jobs with no request to take the host from.
+export function appUrl(path: string) {
+  return `${APP_URL}${path}`;
+}
+
+function channelsFor(userId: number, type: NotificationType) {
+  const channels = { ...NOTIFICATION_TEMPLATES[type].defaults };
+  const overrides = db.prepare("SELECT channel, enabled FROM notification_preferences WHERE user_id = ? AND type = ?")
+    .all(userId, type) as { channel: NotificationChannel; enabled: number }[];
+  for (const { channel, enabled } of overrides) channels[channel] = Boolean(enabled);
+  return channels;
+}
+
+function toPublicNotification(notification: NotificationRow) {
+  const { id, type, title, body, url, read_at, created_at } = notification;
+  return { id, type, title, body, url, read_at, created_at };
+}
+
+function countUnreadNotifications(userId: number) {
+  return (db.prepare("SELECT COUNT(*) AS count FROM notifications WHERE user_id = ? AND in_app = 1 AND read_at IS NULL")
+    .get(userId) as { count: number }).count;
+}
+
+// Records a notification and queues it on every channel the user wants for its type. Nothing is
+// sent inline: the bell hears over the socket, and email and texts are jobs the scheduler
+// retries until they go through.
+export function notify<T extends NotificationType>(userId: number, type: T, data: NotificationData[T], subjectKey?: string) {
+  const channels = channelsFor(userId, type);
+  if (!NOTIFICATION_CHANNELS.some(channel => channels[channel])) return;
+  if (subjectKey && db.prepare(`
+    SELECT 1 FROM notifications
+    WHERE user_id = ? AND type = ? AND subject_key = ? AND read_at IS NULL AND created_at > datetime('now', ?)
+  `).get(userId, type, subjectKey, `-${REPEAT_WINDOW_MINUTES} minutes`)) return;
+
+  const { title, body, url } = NOTIFICATION_TEMPLATES[type].render(data);
+  const notification = db.prepare(`
+    INSERT INTO notifications (user_id, type, title, body, url, subject_key, in_app) VALUES (?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).get(userId, type, title, body, url, subjectKey ?? null, channels.in_app ? 1 : 0) as NotificationRow;
+
+  if (channels.in_app) {
+    sendToUser(userId, { type: "notification", notification: toPublicNotification(notification), unreadCount: countUnreadNotifications(userId) });
+  }
+  for (const channel of ["email", "sms"] as const) {
+    if (channels[channel]) scheduleJob("notification.deliver", new Date(), { notificationId: notification.id, channel });
+  }
+}
+
+// Throwing leaves the job to the scheduler's retries; the sent stamp stops a retry repeating a
+// delivery that already went out.
+registerJobHandler("notification.deliver", async ({ notificationId, channel }: { notificationId: number; channel: "email" | "sms" }) => {
+  const notification = db.prepare("SELECT * FROM notifications WHERE id = ?").get(notificationId) as NotificationRow | undefined;
+  if (!notification) return;
+  const user = db.prepare("SELECT name, email, phone, phone_verified_at FROM users WHERE id = ?")
+    .get(notification.user_id) as { name: string; email: string; phone: string | null; phone_verified_at: string | null };
+  const link = appUrl(notification.url || "/");
+
+  if (channel === "email" && !notification.emailed_at) {
+    await sendEmail({
+      to: user.email,
+      subject: notification.title,
+      text: `Hi ${user.name},\n\n${notification.body}\n\n${link}\n\nChoose which emails you get: ${appUrl("/profile")}`,
+    });
+    db.prepare("UPDATE notifications SET emailed_at = CURRENT_TIMESTAMP WHERE id = ?").run(notification.id);
+  }
+  if (channel === "sms" && !notification.texted_at && user.phone && user.phone_verified_at) {
+    await sendSms(user.phone, `FriendlyTime: ${notification.body} ${link}`);
+    db.prepare("UPDATE notifications SET texted_at = CURRENT_TIMESTAMP WHERE id = ?").run(notification.id);
+  }
+});
+
+function userName(id: number | null) {
+  if (id === null) return undefined;
+  return (db.prepare("SELECT name FROM users WHERE id = ?").get(id) as { name: string } | undefined)?.name;
+}
+
+afterTransition(({ booking, action, actorId }) => {
+  const when = booking.start_at ? formatLocalDateTime(booking.start_at, booking.timezone || "Asia/Kolkata") : null;
+  if (action === "request") {
+    notify(booking.friend_id, "booking_requested", { bookingId: booking.id, customerName: userName(booking.customer_id)!, activity: booking.activity, when });
+  } else if (booking.status === "accepted") {
+    const paid = booking.payment_status === "authorized" || booking.payment_status === "captured";
+    notify(booking.customer_id, "booking_accepted", { bookingId: booking.id, friendName: userName(booking.friend_id)!, activity: booking.activity, when, paid });
+  } else if (booking.status === "cancelled") {
+    // Whoever cancelled knows already; an admin override tells both people.
+    const participant = actorId === booking.customer_id || actorId === booking.friend_id;
+    const cancelledBy = participant ? userName(actorId)! : "FriendlyTime";
+    for (const userId of [booking.customer_id, booking.friend_id]) {
+      if (userId !== actorId) notify(userId, "booking_cancelled", { bookingId: booking.id, cancelledBy, activity: booking.activity, when });
+    }
+  }
+});
+
+function preferencesFor(user: SessionUser) {
+  return (Object.keys(NOTIFICATION_TEMPLATES) as NotificationType[])
+    .filter(type => NOTIFICATION_TEMPLATES[type].roles.includes(user.role))
+    .map(type => ({ type, label: NOTIFICATION_TEMPLATES[type].label, channels: channelsFor(user.id, type) }));
+}
+
+export const notificationsRouter = express.Router();
+
+// The bell: newest first, with the unread count for the badge.
+notificationsRouter.get("/me/notifications", requireAuth, (req, res) => {
+  const notifications = db.prepare("SELECT * FROM notifications WHERE user_id = ? AND in_app = 1 ORDER BY id DESC LIMIT ?")
+    .all(req.user!.id, PAGE_SIZE) as NotificationRow[];
+  res.json({ notifications: notifications.map(toPublicNotification), unreadCount: countUnreadNotifications(req.user!.id) });
+});
+
+notificationsRouter.post("/me/notifications/read-all", requireAuth, (req, res) => {
+  db.prepare("UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL").run(req.user!.id);
+  res.json({ unreadCount: 0 });
+});
+
+notificationsRouter.post("/me/notifications/:id/read", requireAuth, (req, res) => {
+  const info = db.prepare("UPDATE notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP) WHERE id = ? AND user_id = ?")
+    .run(req.params.id, req.user!.id);
+  if (info.changes === 0) {
+    res.status(404).json({ error: "Notification not found" });
+    return;
+  }
+  res.json({ unreadCount: countUnreadNotifications(req.user!.id) });
+});
+
+notificationsRouter.get("/me/notification-preferences", requireAuth, (req, res) => {
+  res.json(preferencesFor(req.user!));
+});
+
+// One switch at a time: { type, channel, enabled }.
+notificationsRouter.put("/me/notification-preferences", requireAuth, (req, res) => {
+  try {
+    const { type, channel, enabled } = req.body || {};
+    if (!isNotificationType(type) || !NOTIFICATION_TEMPLATES[type].roles.includes(req.user!.role)) {
+      throw new HttpError(400, "Unknown notification type");
+    }
+    if (!NOTIFICATION_CHANNELS.includes(channel)) throw new HttpError(400, `channel must be one of ${NOTIFICATION_CHANNELS.join(", ")}`);
+    if (typeof enabled !== "boolean") throw new HttpError(400, "enabled must be true or false");
+    db.prepare(`
+      INSERT INTO notification_preferences (user_id, type, channel, enabled) VALUES (?, ?, ?, ?)
+      ON CONFLICT(user_id, type, channel) DO UPDATE SET enabled = excluded.enabled
+    `).run(req.user!.id, type, channel, enabled ? 1 : 0);
+    res.json(preferencesFor(req.user!));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
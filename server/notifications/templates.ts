@@ -0,0 +1,110 @@
+import type { SessionUser } from "../auth";
+
+export type NotificationChannel = "in_app" | "email" | "sms";
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ["in_app", "email", "sms"];
+
+// What each type of notification is made from. `when` is already formatted in the booking's zone.
+export interface NotificationData {
+  booking_requested: { bookingId: number; customerName: string; activity: string; when: string | null };
+  // paid when the customer had already paid, so accepting confirmed the booking.
+  booking_accepted: { bookingId: number; friendName: string; activity: string; when: string | null; paid: boolean };
+  booking_cancelled: { bookingId: number; cancelledBy: string; activity: string; when: string | null };
+  message_received: { senderId: number; senderName: string; preview: string };
+  review_received: { reviewerName: string; rating: number; url: string };
+  payout_sent: { bookingId: number; amount: number };
+}
+
+export type NotificationType = keyof NotificationData;
+
+interface Rendered {
+  title: string;
+  body: string;
+  url: string;
+}
+
+interface NotificationTemplate<T extends NotificationType> {
+  // Shown in notification settings.
+  label: string;
+  // Who can receive it; the others don't see it in their settings.
+  roles: SessionUser["role"][];
+  defaults: Record<NotificationChannel, boolean>;
+  render(data: NotificationData[T]): Rendered;
+}
+
+// Paise to "₹1,234.50".
+function formatRupees(paise: number) {
+  return `₹${(paise / 100).toLocaleString("en-IN", { minimumFractionDigits: paise % 100 ? 2 : 0, maximumFractionDigits: 2 })}`;
+}
+
+function on(when: string | null) {
+  return when ? ` on ${when}` : "";
+}
+
+export const NOTIFICATION_TEMPLATES: { [T in NotificationType]: NotificationTemplate<T> } = {
+  booking_requested: {
+    label: "New booking requests",
+    roles: ["friend"],
+    defaults: { in_app: true, email: true, sms: true },
+    render: ({ customerName, activity, when }) => ({
+      title: `New request from ${customerName}`,
+      body: `${customerName} would like to book you for ${activity}${on(when)}. Accept or decline it within 24 hours.`,
+      url: "/bookings",
+    }),
+  },
+  booking_accepted: {
+    label: "Accepted bookings",
+    roles: ["customer"],
+    defaults: { in_app: true, email: true, sms: true },
+    render: ({ friendName, activity, when, paid }) => ({
+      title: `${friendName} accepted your booking`,
+      body: paid
+        ? `Your ${activity} with ${friendName}${on(when)} is confirmed.`
+        : `Your ${activity} with ${friendName}${on(when)} is accepted. Pay within 24 hours to confirm it.`,
+      url: "/bookings",
+    }),
+  },
+  booking_cancelled: {
+    label: "Cancelled bookings",
+    roles: ["customer", "friend"],
+    defaults: { in_app: true, email: true, sms: false },
+    render: ({ cancelledBy, activity, when }) => ({
+      title: "A booking was cancelled",
+      body: `${cancelledBy} cancelled the ${activity}${on(when)}.`,
+      url: "/bookings",
+    }),
+  },
+  message_received: {
+    label: "Messages while you're away",
+    roles: ["customer", "friend"],
+    defaults: { in_app: true, email: true, sms: false },
+    render: ({ senderId, senderName, preview }) => ({
+      title: `New message from ${senderName}`,
+      body: preview,
+      url: `/messages?with=${senderId}`,
+    }),
+  },
+  review_received: {
+    label: "New reviews",
+    roles: ["customer", "friend"],
+    defaults: { in_app: true, email: true, sms: false },
+    render: ({ reviewerName, rating, url }) => ({
+      title: `${reviewerName} left you a review`,
+      body: `${reviewerName} rated your time together ${rating} out of 5.`,
+      url,
+    }),
+  },
+  payout_sent: {
+    label: "Payouts",
+    roles: ["friend"],
+    defaults: { in_app: true, email: true, sms: false },
+    render: ({ bookingId, amount }) => ({
+      title: `${formatRupees(amount)} is on its way`,
+      body: `Your earnings of ${formatRupees(amount)} for booking #${bookingId} have been released to you.`,
+      url: "/bookings",
+    }),
+  },
+};
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(NOTIFICATION_TEMPLATES, value);
+}
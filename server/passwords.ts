@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, scryptSync, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt>$<hash>" so the scheme can change without a migration.
+function format(salt: Buffer, hash: Buffer) {
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  return format(salt, await scryptAsync(password, salt, KEY_LENGTH));
+}
+
+export function hashPasswordSync(password: string) {
+  const salt = randomBytes(16);
+  return format(salt, scryptSync(password, salt, KEY_LENGTH));
+}
+
+export async function verifyPassword(password: string, stored: string | null) {
+  if (!stored) return false;
+  const [scheme, saltHex, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,32 @@
+import type { IncomingHttpHeaders } from "http";
+
+export type IntentStatus = "requires_confirmation" | "authorized" | "captured" | "cancelled" | "refunded" | "failed";
+
+export interface GatewayIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: IntentStatus;
+  // Passed to the browser so it can finish checkout with the gateway.
+  clientSecret?: string;
+}
+
+export interface GatewayEvent {
+  // Unique per event, used to ignore webhook redeliveries.
+  id: string;
+  type: "payment.authorized" | "payment.failed" | "payment.captured" | "payment.refunded";
+  intentId: string;
+}
+
+// What a payment provider has to offer. Amounts are in paise and intents are created with
+// manual capture: the customer's card is authorized at request time and only charged once
+// the friend accepts.
+export interface PaymentGateway {
+  name: string;
+  createIntent(input: { amount: number; currency: string; reference: string }): Promise<GatewayIntent>;
+  capture(intentId: string): Promise<GatewayIntent>;
+  cancel(intentId: string): Promise<GatewayIntent>;
+  refund(intentId: string, amount: number): Promise<GatewayIntent>;
+  // Verifies the webhook signature and returns the event, or throws.
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent;
+}
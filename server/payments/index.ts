@@ -0,0 +1,331 @@
+import { randomUUID } from "crypto";
+import express from "express";
+import type { IncomingHttpHeaders } from "http";
+import { db } from "../db";
+import { requireAuth, requireRole } from "../auth";
+import { HttpError, sendError } from "../errors";
+import { afterTransition, getBooking, transitionBooking, type Booking } from "../bookings";
+import type { GatewayEvent, IntentStatus, PaymentGateway } from "./gateway";
+import { ACCOUNTS, bookingLedger, postTransaction } from "./ledger";
+import { MockGateway } from "./mockGateway";
+import { notify } from "../notifications";
+
+// "creating" holds a booking's place while its intent is made at the gateway, so a second pay
+// call can't make another.
+type PaymentStatus = IntentStatus | "creating";
+
+export interface Payment {
+  id: number;
+  booking_id: number;
+  gateway: string;
+  gateway_intent_id: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// The mock gateway approves any checkout without money moving, so production has to name a real one.
+const PRODUCTION = process.env.NODE_ENV === "production";
+const DEFAULT_GATEWAY = process.env.PAYMENT_GATEWAY || (PRODUCTION ? "" : "mock");
+if (PRODUCTION && (!DEFAULT_GATEWAY || DEFAULT_GATEWAY === "mock")) {
+  throw new Error("PAYMENT_GATEWAY must name a real payment gateway in production");
+}
+
+const mockGateway = PRODUCTION ? null : new MockGateway();
+const gateways = new Map<string, PaymentGateway>(mockGateway ? [[mockGateway.name, mockGateway]] : []);
+
+// Real providers register themselves here; PAYMENT_GATEWAY picks the one used for new payments.
+export function registerGateway(gateway: PaymentGateway) {
+  gateways.set(gateway.name, gateway);
+}
+
+function getGateway(name = DEFAULT_GATEWAY) {
+  const gateway = gateways.get(name);
+  if (!gateway) throw new HttpError(500, `Payment gateway "${name}" is not configured`);
+  return gateway;
+}
+
+function getPayment(id: number) {
+  return db.prepare("SELECT * FROM payments WHERE id = ?").get(id) as Payment | undefined;
+}
+
+function latestPayment(bookingId: number) {
+  return db.prepare("SELECT * FROM payments WHERE booking_id = ? AND status != 'creating' ORDER BY id DESC LIMIT 1")
+    .get(bookingId) as Payment | undefined;
+}
+
+const ABANDONED_CREATE_MINUTES = 5;
+
+// Payments in these states still hold or may yet hold the customer's money.
+const LIVE_STATUSES: PaymentStatus[] = ["creating", "requires_confirmation", "authorized", "captured"];
+
+function paymentsIn(bookingId: number, statuses: PaymentStatus[]) {
+  return db.prepare(`SELECT * FROM payments WHERE booking_id = ? AND status IN (${statuses.map(() => "?").join(", ")}) ORDER BY id`)
+    .all(bookingId, ...statuses) as Payment[];
+}
+
+// The payment escrow was taken from. There is only ever one, but the newest wins if an older
+// database has more.
+function capturedPayment(bookingId: number) {
+  return paymentsIn(bookingId, ["captured"]).pop();
+}
+
+function setPaymentStatus(paymentId: number, status: IntentStatus) {
+  db.prepare("UPDATE payments SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(status, paymentId);
+}
+
+// Creates (or returns the still-usable) payment for a booking so the customer can authorize it.
+export async function startPayment(booking: Booking) {
+  if (!["requested", "accepted"].includes(booking.status)) {
+    throw new HttpError(409, "This booking can no longer be paid for");
+  }
+  if (!booking.total) throw new HttpError(409, "This booking has no price to charge");
+
+  const gateway = getGateway();
+  const reserved = reservePayment.immediate(booking, gateway.name);
+  if (reserved.status !== "creating") return reserved;
+
+  try {
+    const intent = await gateway.createIntent({ amount: booking.total, currency: "INR", reference: `booking:${booking.id}` });
+    db.prepare(`
+      UPDATE payments SET gateway_intent_id = ?, amount = ?, currency = ?, status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(intent.id, intent.amount, intent.currency, intent.status, reserved.id);
+    return { ...getPayment(reserved.id)!, clientSecret: intent.clientSecret };
+  } catch (error) {
+    db.prepare("DELETE FROM payments WHERE id = ?").run(reserved.id);
+    throw error;
+  }
+}
+
+// Returns the booking's live payment, or writes a "creating" row for the caller to fill in once
+// the gateway has made the intent. Checking and writing in one transaction is what stops two
+// pay calls at once from both charging.
+const reservePayment = db.transaction((booking: Booking, gatewayName: string) => {
+  // A row left "creating" this long belonged to a process that died before the gateway answered.
+  db.prepare(`DELETE FROM payments WHERE booking_id = ? AND status = 'creating' AND created_at < datetime('now', '-${ABANDONED_CREATE_MINUTES} minutes')`)
+    .run(booking.id);
+  const existing = paymentsIn(booking.id, LIVE_STATUSES).pop();
+  if (existing?.status === "creating") throw new HttpError(409, "This payment is already being set up. Try again in a moment");
+  if (existing) return existing;
+  return db.prepare(`
+    INSERT INTO payments (booking_id, gateway, gateway_intent_id, amount, currency, status)
+    VALUES (?, ?, ?, ?, 'INR', 'creating') RETURNING *
+  `).get(booking.id, gatewayName, `creating:${randomUUID()}`, booking.total) as Payment;
+});
+
+// Charges an authorized payment into escrow and confirms the booking.
+async function capturePayment(payment: Payment) {
+  await getGateway(payment.gateway).capture(payment.gateway_intent_id);
+  setPaymentStatus(payment.id, "captured");
+  postTransaction("capture", { bookingId: payment.booking_id, paymentId: payment.id }, [
+    { account: ACCOUNTS.gatewayClearing, debit: payment.amount },
+    { account: ACCOUNTS.escrow, credit: payment.amount },
+  ]);
+  await transitionBooking(payment.booking_id, "confirm", null, "Payment captured");
+}
+
+// Gives the customer their money back: voids uncaptured authorizations and refunds escrow,
+// for every payment on the booking that still holds money.
+async function returnFunds(bookingId: number, memo: string) {
+  for (const payment of paymentsIn(bookingId, ["requires_confirmation", "authorized", "captured"])) {
+    const gateway = getGateway(payment.gateway);
+    if (payment.status === "captured") {
+      await gateway.refund(payment.gateway_intent_id, payment.amount);
+      setPaymentStatus(payment.id, "refunded");
+      postTransaction("refund", { bookingId, paymentId: payment.id, memo }, [
+        { account: ACCOUNTS.escrow, debit: payment.amount },
+        { account: ACCOUNTS.gatewayClearing, credit: payment.amount },
+      ]);
+    } else {
+      await gateway.cancel(payment.gateway_intent_id);
+      setPaymentStatus(payment.id, "cancelled");
+    }
+  }
+}
+
+function refundedAmount(paymentId: number) {
+  const row = db.prepare(`
+    SELECT COALESCE(SUM(e.credit), 0) AS refunded
+    FROM ledger_transactions t JOIN ledger_entries e ON e.transaction_id = t.id
+    WHERE t.payment_id = ? AND t.kind IN ('refund', 'goodwill_refund') AND e.account = ?
+  `).get(paymentId, ACCOUNTS.gatewayClearing) as { refunded: number };
+  return row.refunded;
+}
+
+// Refunds part or all of a settled booking (completed, or closed as a no-show) after escrow
+// has been released. The friend keeps their payout; the platform funds the refund.
+// Open bookings are refunded in full by cancelling them instead.
+export async function refundSettledBooking(booking: Booking, amount: number | undefined, memo: string) {
+  if (!["completed", "no_show"].includes(booking.status)) {
+    throw new HttpError(409, "Only completed or no-show bookings can be refunded here; cancel open bookings instead");
+  }
+  const payment = capturedPayment(booking.id);
+  if (!payment) throw new HttpError(409, "This booking has no captured payment to refund");
+
+  const refundable = payment.amount - refundedAmount(payment.id);
+  const refund = amount ?? refundable;
+  if (!Number.isInteger(refund) || refund <= 0 || refund > refundable) {
+    throw new HttpError(400, `Refund must be a whole number of paise between 1 and ${refundable}`);
+  }
+
+  await getGateway(payment.gateway).refund(payment.gateway_intent_id, refund);
+  postTransaction("goodwill_refund", { bookingId: booking.id, paymentId: payment.id, memo }, [
+    { account: ACCOUNTS.platformRevenue, debit: refund },
+    { account: ACCOUNTS.gatewayClearing, credit: refund },
+  ]);
+  if (refund === refundable) setPaymentStatus(payment.id, "refunded");
+  return { refunded: refund, remaining: refundable - refund };
+}
+
+// Moves a finished booking's escrow to the friend (80%), the platform (20%) and GST.
+function releaseEscrow(booking: Booking, memo: string) {
+  const payment = capturedPayment(booking.id);
+  if (!payment) return;
+  const friendShare = booking.friend_payout!;
+  const tax = booking.tax || 0;
+  postTransaction("release", { bookingId: booking.id, paymentId: payment.id, memo }, [
+    { account: ACCOUNTS.escrow, debit: payment.amount },
+    { account: ACCOUNTS.friendPayable(booking.friend_id), credit: friendShare },
+    { account: ACCOUNTS.gstPayable, credit: tax },
+    { account: ACCOUNTS.platformRevenue, credit: payment.amount - friendShare - tax },
+  ]);
+  notify(booking.friend_id, "payout_sent", { bookingId: booking.id, amount: friendShare });
+}
+
+afterTransition(async ({ booking, actorId }) => {
+  switch (booking.status) {
+    case "accepted": {
+      const payment = latestPayment(booking.id);
+      if (payment?.status === "authorized") await capturePayment(payment);
+      break;
+    }
+    case "declined":
+    case "expired":
+    case "cancelled":
+      await returnFunds(booking.id, `Booking ${booking.status}`);
+      break;
+    case "completed":
+      releaseEscrow(booking, "Booking completed");
+      break;
+    case "no_show":
+      // Whoever reports the no-show is the one who was stood up.
+      if (actorId === booking.customer_id) {
+        await returnFunds(booking.id, "Friend did not show up");
+      } else {
+        releaseEscrow(booking, "Customer did not show up");
+      }
+      break;
+  }
+});
+
+export async function handleGatewayEvent(gatewayName: string, event: GatewayEvent) {
+  // Gateways redeliver webhooks; each event is only ever applied once.
+  const inserted = db.prepare("INSERT OR IGNORE INTO gateway_events (gateway, event_id, type, payload) VALUES (?, ?, ?, ?)")
+    .run(gatewayName, event.id, event.type, JSON.stringify(event));
+  if (inserted.changes === 0) return;
+
+  const payment = db.prepare("SELECT * FROM payments WHERE gateway = ? AND gateway_intent_id = ?")
+    .get(gatewayName, event.intentId) as Payment | undefined;
+  if (!payment) {
+    console.warn(`Webhook ${event.id} for unknown intent ${event.intentId}`);
+    return;
+  }
+
+  switch (event.type) {
+    case "payment.authorized": {
+      setPaymentStatus(payment.id, "authorized");
+      const booking = getBooking(payment.booking_id);
+      // The friend already accepted while we waited for the customer to pay. A booking is only
+      // ever charged once, so a second authorization is voided.
+      if (booking?.status === "accepted") {
+        if (capturedPayment(booking.id)) {
+          await getGateway(payment.gateway).cancel(payment.gateway_intent_id);
+          setPaymentStatus(payment.id, "cancelled");
+        } else {
+          await capturePayment({ ...payment, status: "authorized" });
+        }
+      }
+      // The request lapsed before the customer finished paying.
+      if (booking && !["requested", "accepted"].includes(booking.status)) await returnFunds(booking.id, "Booking no longer active");
+      break;
+    }
+    case "payment.failed":
+      setPaymentStatus(payment.id, "failed");
+      break;
+    case "payment.captured":
+    case "payment.refunded":
+      // We initiate these ourselves and record them when the gateway call returns.
+      break;
+  }
+}
+
+export async function processWebhook(gatewayName: string, rawBody: Buffer, headers: IncomingHttpHeaders) {
+  const gateway = getGateway(gatewayName);
+  let event: GatewayEvent;
+  try {
+    event = gateway.parseWebhook(rawBody, headers);
+  } catch {
+    throw new HttpError(400, "Invalid webhook");
+  }
+  await handleGatewayEvent(gateway.name, event);
+}
+
+// Needs the raw body for signature checks, so it is mounted before express.json().
+export const paymentWebhookRouter = express.Router();
+
+paymentWebhookRouter.post("/payments/webhook/:gateway", express.raw({ type: "*/*" }), async (req, res) => {
+  try {
+    await processWebhook(req.params.gateway, req.body, req.headers);
+    res.json({ received: true });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+export const paymentsRouter = express.Router();
+
+paymentsRouter.post("/bookings/:id/pay", requireRole("customer"), async (req, res) => {
+  const booking = getBooking(Number(req.params.id));
+  if (!booking || booking.customer_id !== req.user!.id) {
+    res.status(404).json({ error: "Booking not found" });
+    return;
+  }
+  try {
+    res.json(await startPayment(booking));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+paymentsRouter.get("/bookings/:id/payments", requireAuth, (req, res) => {
+  const booking = getBooking(Number(req.params.id));
+  if (!booking || (booking.customer_id !== req.user!.id && booking.friend_id !== req.user!.id)) {
+    res.status(404).json({ error: "Booking not found" });
+    return;
+  }
+  const payments = db.prepare("SELECT * FROM payments WHERE booking_id = ? ORDER BY id").all(booking.id);
+  res.json({ payments, ledger: bookingLedger(booking.id) });
+});
+
+// Stands in for the provider's hosted checkout while developing against the mock gateway.
+paymentsRouter.post("/payments/:id/mock-checkout", requireRole("customer"), async (req, res) => {
+  const payment = getPayment(Number(req.params.id));
+  const booking = payment && getBooking(payment.booking_id);
+  if (!mockGateway || !payment || !booking || booking.customer_id !== req.user!.id) {
+    res.status(404).json({ error: "Payment not found" });
+    return;
+  }
+  if (payment.gateway !== mockGateway.name) {
+    res.status(400).json({ error: "This payment is not using the mock gateway" });
+    return;
+  }
+  try {
+    const webhook = mockGateway.confirm(payment.gateway_intent_id, req.body?.outcome === "fail" ? "fail" : "succeed");
+    await processWebhook(mockGateway.name, webhook.body, webhook.headers);
+    res.json(getPayment(payment.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
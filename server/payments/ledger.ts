@@ -0,0 +1,57 @@
+import { db } from "../db";
+import { HttpError } from "../errors";
+
+// Double-entry accounts. Money the gateway holds for us is an asset; customer money in
+// escrow and everything owed to friends or the tax authority are liabilities until paid out.
+export const ACCOUNTS = {
+  gatewayClearing: "gateway_clearing",
+  escrow: "escrow",
+  platformRevenue: "platform_revenue",
+  gstPayable: "gst_payable",
+  friendPayable: (friendId: number) => `friend_payable:${friendId}`,
+};
+
+export interface LedgerEntry {
+  account: string;
+  debit?: number;
+  credit?: number;
+}
+
+// Records one balanced transaction. Debits must equal credits or nothing is written.
+export function postTransaction(
+  kind: string,
+  refs: { bookingId?: number; paymentId?: number; memo?: string },
+  entries: LedgerEntry[]
+) {
+  const debits = entries.reduce((sum, e) => sum + (e.debit || 0), 0);
+  const credits = entries.reduce((sum, e) => sum + (e.credit || 0), 0);
+  if (debits !== credits) throw new HttpError(500, `Unbalanced ${kind} transaction: ${debits} debit vs ${credits} credit`);
+
+  return db.transaction(() => {
+    const info = db.prepare("INSERT INTO ledger_transactions (kind, booking_id, payment_id, memo) VALUES (?, ?, ?, ?)")
+      .run(kind, refs.bookingId ?? null, refs.paymentId ?? null, refs.memo ?? null);
+    const insert = db.prepare("INSERT INTO ledger_entries (transaction_id, account, debit, credit) VALUES (?, ?, ?, ?)");
+    for (const entry of entries) {
+      if (!entry.debit && !entry.credit) continue;
+      insert.run(info.lastInsertRowid, entry.account, entry.debit || 0, entry.credit || 0);
+    }
+    return Number(info.lastInsertRowid);
+  })();
+}
+
+// Credit-normal balance (credits minus debits), which is what liability and revenue accounts
+// such as escrow or friend_payable report.
+export function accountBalance(account: string) {
+  const row = db.prepare("SELECT COALESCE(SUM(credit - debit), 0) AS balance FROM ledger_entries WHERE account = ?")
+    .get(account) as { balance: number };
+  return row.balance;
+}
+
+export function bookingLedger(bookingId: number) {
+  return db.prepare(`
+    SELECT t.id AS transaction_id, t.kind, t.memo, t.created_at, e.account, e.debit, e.credit
+    FROM ledger_transactions t JOIN ledger_entries e ON e.transaction_id = t.id
+    WHERE t.booking_id = ?
+    ORDER BY t.id, e.id
+  `).all(bookingId);
+}
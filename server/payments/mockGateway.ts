@@ -0,0 +1,98 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import { addColumn, db } from "../db";
+import type { GatewayEvent, GatewayIntent, IntentStatus, PaymentGateway } from "./gateway";
+
+const SIGNATURE_HEADER = "x-mock-signature";
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS mock_gateway_intents (
+    id TEXT PRIMARY KEY,
+    amount INTEGER NOT NULL,
+    currency TEXT NOT NULL,
+    status TEXT NOT NULL,
+    reference TEXT,
+    refunded INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+addColumn("mock_gateway_intents", "refunded", "INTEGER NOT NULL DEFAULT 0");
+
+function randomId(prefix: string) {
+  return `${prefix}_${randomBytes(12).toString("hex")}`;
+}
+
+// A stand-in for a real provider, for development and tests. It keeps "remote" intents in
+// its own table, never talks to the network, and signs webhooks with a shared secret.
+export class MockGateway implements PaymentGateway {
+  name = "mock";
+
+  constructor(private secret = process.env.MOCK_GATEWAY_SECRET || "mock-gateway-secret") {
+    if (process.env.NODE_ENV === "production") throw new Error("The mock payment gateway can't be used in production");
+  }
+
+  private get(intentId: string) {
+    const intent = db.prepare("SELECT id, amount, currency, status FROM mock_gateway_intents WHERE id = ?")
+      .get(intentId) as GatewayIntent | undefined;
+    if (!intent) throw new Error(`Unknown mock intent ${intentId}`);
+    return intent;
+  }
+
+  private move(intentId: string, from: IntentStatus[], to: IntentStatus) {
+    const intent = this.get(intentId);
+    if (!from.includes(intent.status)) throw new Error(`Mock intent ${intentId} is ${intent.status}, can't move to ${to}`);
+    db.prepare("UPDATE mock_gateway_intents SET status = ? WHERE id = ?").run(to, intentId);
+    return { ...intent, status: to };
+  }
+
+  async createIntent(input: { amount: number; currency: string; reference: string }) {
+    const id = randomId("mpi");
+    db.prepare("INSERT INTO mock_gateway_intents (id, amount, currency, status, reference) VALUES (?, ?, ?, 'requires_confirmation', ?)")
+      .run(id, input.amount, input.currency, input.reference);
+    return { ...this.get(id), clientSecret: `${id}_secret` };
+  }
+
+  async capture(intentId: string) {
+    return this.move(intentId, ["authorized"], "captured");
+  }
+
+  async cancel(intentId: string) {
+    return this.move(intentId, ["requires_confirmation", "authorized"], "cancelled");
+  }
+
+  // Partial refunds leave the intent captured until the whole amount has been returned.
+  async refund(intentId: string, amount: number) {
+    const intent = db.prepare("SELECT amount, refunded, status FROM mock_gateway_intents WHERE id = ?")
+      .get(intentId) as { amount: number; refunded: number; status: IntentStatus } | undefined;
+    if (!intent || intent.status !== "captured") return this.move(intentId, ["captured"], "refunded");
+    if (intent.refunded + amount > intent.amount) throw new Error(`Mock intent ${intentId} can't refund more than was captured`);
+    db.prepare("UPDATE mock_gateway_intents SET refunded = refunded + ? WHERE id = ?").run(amount, intentId);
+    return intent.refunded + amount === intent.amount ? this.move(intentId, ["captured"], "refunded") : this.get(intentId);
+  }
+
+  sign(rawBody: Buffer) {
+    return createHmac("sha256", this.secret).update(rawBody).digest("hex");
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayEvent {
+    const signature = String(headers[SIGNATURE_HEADER] || "");
+    const expected = this.sign(rawBody);
+    if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new Error("Invalid webhook signature");
+    }
+    return JSON.parse(rawBody.toString());
+  }
+
+  // What the hosted checkout page of a real provider would do: the customer approves (or
+  // their bank declines) and the provider sends us a signed webhook.
+  confirm(intentId: string, outcome: "succeed" | "fail") {
+    const intent = this.move(intentId, ["requires_confirmation"], outcome === "succeed" ? "authorized" : "failed");
+    const event: GatewayEvent = {
+      id: randomId("evt"),
+      type: outcome === "succeed" ? "payment.authorized" : "payment.failed",
+      intentId: intent.id,
+    };
+    const body = Buffer.from(JSON.stringify(event));
+    return { body, headers: { [SIGNATURE_HEADER]: this.sign(body) } };
+  }
+}
@@ -0,0 +1,131 @@
+import express from "express";
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { db } from "./db";
+import { requireAuth } from "./auth";
+import { HttpError, sendError } from "./errors";
+import { sendSms } from "./sms";
+
+interface OtpCode {
+  id: number;
+  user_id: number;
+  phone: string;
+  code_hash: string;
+  attempts: number;
+  expires_at: string;
+}
+
+const CODE_TTL_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+const RESEND_AFTER_SECONDS = 60;
+// Codes sent per number and per client address within an hour.
+const PHONE_HOURLY_LIMIT = 5;
+const IP_HOURLY_LIMIT = 20;
+
+function loadOtpSecret() {
+  const secret = process.env.OTP_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") throw new Error("OTP_SECRET must be set in production");
+    console.warn("OTP_SECRET is not set; using the development secret for phone codes.");
+  }
+  return secret || "friendlytime-development-otp-secret";
+}
+
+const OTP_SECRET = loadOtpSecret();
+
+// Indian mobile numbers, accepted with or without +91 / 0 and spacing, stored as E.164.
+export function normalizePhone(raw: unknown) {
+  const digits = String(raw ?? "").replace(/[\s()-]/g, "").replace(/^(\+91|91(?=\d{10}$)|0(?=\d{10}$))/, "");
+  if (!/^[6-9]\d{9}$/.test(digits)) throw new HttpError(400, "Enter a valid 10-digit Indian mobile number");
+  return `+91${digits}`;
+}
+
+function hashCode(phone: string, code: string) {
+  return createHmac("sha256", OTP_SECRET).update(`${phone}:${code}`).digest();
+}
+
+function count(sql: string, ...params: unknown[]) {
+  return (db.prepare(sql).get(...params) as { count: number }).count;
+}
+
+function assertPhoneFree(userId: number, phone: string) {
+  const owner = db.prepare("SELECT id FROM users WHERE phone = ? AND id != ?").get(phone, userId);
+  if (owner) throw new HttpError(409, "This number is already linked to another account");
+}
+
+export async function issueOtp(userId: number, rawPhone: unknown, ip: string | undefined) {
+  const phone = normalizePhone(rawPhone);
+  assertPhoneFree(userId, phone);
+
+  const recent = db.prepare(`
+    SELECT CAST(strftime('%s', 'now') - strftime('%s', created_at) AS INTEGER) AS age FROM otp_codes
+    WHERE phone = ? ORDER BY id DESC LIMIT 1
+  `).get(phone) as { age: number } | undefined;
+  if (recent && recent.age < RESEND_AFTER_SECONDS) {
+    throw new HttpError(429, `Please wait ${RESEND_AFTER_SECONDS - recent.age} seconds before requesting another code`);
+  }
+  if (count("SELECT COUNT(*) AS count FROM otp_codes WHERE phone = ? AND created_at > datetime('now', '-1 hour')", phone) >= PHONE_HOURLY_LIMIT
+    || (ip && count("SELECT COUNT(*) AS count FROM otp_codes WHERE ip = ? AND created_at > datetime('now', '-1 hour')", ip) >= IP_HOURLY_LIMIT)) {
+    throw new HttpError(429, "Too many codes requested. Try again in an hour");
+  }
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  // Only the newest code for a user can be used.
+  db.prepare("UPDATE otp_codes SET consumed_at = CURRENT_TIMESTAMP WHERE user_id = ? AND consumed_at IS NULL").run(userId);
+  const info = db.prepare(`
+    INSERT INTO otp_codes (user_id, phone, code_hash, ip, expires_at)
+    VALUES (?, ?, ?, ?, datetime('now', '+${CODE_TTL_MINUTES} minutes'))
+  `).run(userId, phone, hashCode(phone, code).toString("hex"), ip || null);
+
+  try {
+    await sendSms(phone, `${code} is your FriendlyTime verification code. It expires in ${CODE_TTL_MINUTES} minutes.`);
+  } catch (error) {
+    db.prepare("DELETE FROM otp_codes WHERE id = ?").run(info.lastInsertRowid);
+    throw error;
+  }
+  return { phone, expiresInSeconds: CODE_TTL_MINUTES * 60, resendAfterSeconds: RESEND_AFTER_SECONDS };
+}
+
+// Checks the user's current code. Wrong guesses are counted before anything is thrown so
+// the limit holds across requests.
+export function verifyOtp(userId: number, rawCode: unknown) {
+  const code = String(rawCode ?? "").trim();
+  const otp = db.prepare(`
+    SELECT * FROM otp_codes
+    WHERE user_id = ? AND consumed_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+    ORDER BY id DESC LIMIT 1
+  `).get(userId) as OtpCode | undefined;
+  if (!otp) throw new HttpError(400, "Your code has expired or was already used. Request a new one");
+  if (otp.attempts >= MAX_ATTEMPTS) throw new HttpError(429, "Too many wrong attempts. Request a new code");
+
+  const matches = /^\d{6}$/.test(code) && timingSafeEqual(hashCode(otp.phone, code), Buffer.from(otp.code_hash, "hex"));
+  if (!matches) {
+    db.prepare("UPDATE otp_codes SET attempts = attempts + 1 WHERE id = ?").run(otp.id);
+    const left = MAX_ATTEMPTS - otp.attempts - 1;
+    throw new HttpError(400, left > 0 ? `That code is not right. ${left} ${left === 1 ? "try" : "tries"} left` : "Too many wrong attempts. Request a new code");
+  }
+
+  db.transaction(() => {
+    assertPhoneFree(userId, otp.phone);
+    db.prepare("UPDATE otp_codes SET consumed_at = CURRENT_TIMESTAMP WHERE id = ?").run(otp.id);
+    db.prepare("UPDATE users SET phone = ?, phone_verified_at = CURRENT_TIMESTAMP WHERE id = ?").run(otp.phone, userId);
+  })();
+  return db.prepare("SELECT phone, phone_verified_at FROM users WHERE id = ?").get(userId) as { phone: string; phone_verified_at: string };
+}
+
+export const phoneRouter = express.Router();
+
+phoneRouter.post("/me/phone/otp", requireAuth, async (req, res) => {
+  try {
+    res.json(await issueOtp(req.user!.id, req.body?.phone, req.ip));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+phoneRouter.post("/me/phone/verify", requireAuth, (req, res) => {
+  try {
+    res.json(verifyOtp(req.user!.id, req.body?.code));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
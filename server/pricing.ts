@@ -0,0 +1,189 @@
+import { db } from "./db";
+import { HttpError } from "./errors";
+import { findFriendActivity } from "./taxonomy";
+import { localDate, weekdayOf, zoneOffsetMs } from "./time";
+
+// All amounts are integer paise (₹1 = 100 paise) so splits and taxes never drift.
+export const PRICING = {
+  platformFeeRate: 0.2,
+  // GST applies to the platform's service fee, not to the friend's share.
+  gstRate: 0.18,
+  weekendSurchargeRate: 0.1,
+  lateNightSurchargeRate: 0.15,
+  lateNightStartHour: 22,
+  lateNightEndHour: 6,
+  // Longest matching tier wins.
+  multiHourDiscounts: [
+    { minHours: 12, rate: 0.1 },
+    { minHours: 6, rate: 0.05 },
+  ],
+};
+
+export interface QuoteLine {
+  code: string;
+  label: string;
+  // Negative for discounts.
+  amount: number;
+}
+
+export interface Quote {
+  currency: "INR";
+  hours: number;
+  hourlyRate: number;
+  lines: QuoteLine[];
+  subtotal: number;
+  platformFee: number;
+  friendPayout: number;
+  tax: number;
+  total: number;
+  promoCode: string | null;
+}
+
+interface PromoCode {
+  code: string;
+  percent_off: number | null;
+  amount_off: number | null;
+  max_discount: number | null;
+  valid_until: string | null;
+  max_redemptions: number | null;
+  // Bookings one customer can use the code on; null for no limit.
+  max_per_customer: number | null;
+  redemptions: number;
+  active: number;
+}
+
+// Bookings with the code that still count against the customer's limit. Declined, cancelled and
+// expired bookings have given their redemption back.
+function customerRedemptions(code: string, customerId: number) {
+  return (db.prepare(`
+    SELECT COUNT(*) AS count FROM bookings
+    WHERE customer_id = ? AND promo_code = ? COLLATE NOCASE AND status NOT IN ('declined', 'cancelled', 'expired')
+  `).get(customerId, code) as { count: number }).count;
+}
+
+// Checks the code can be used, by this customer when one is given.
+export function findPromoCode(code: string, customerId?: number) {
+  const promo = db.prepare("SELECT * FROM promo_codes WHERE code = ? COLLATE NOCASE")
+    .get(code.trim()) as PromoCode | undefined;
+  if (!promo || !promo.active) throw new HttpError(400, "That promo code isn't valid");
+  if (promo.valid_until && promo.valid_until < new Date().toISOString()) {
+    throw new HttpError(400, "That promo code has expired");
+  }
+  if (promo.max_redemptions !== null && promo.redemptions >= promo.max_redemptions) {
+    throw new HttpError(400, "That promo code has been fully redeemed");
+  }
+  if (customerId !== undefined && promo.max_per_customer !== null && customerRedemptions(promo.code, customerId) >= promo.max_per_customer) {
+    throw new HttpError(400, "You've already used that promo code");
+  }
+  return promo;
+}
+
+// Counts a new booking against the code's limits. Runs inside the booking's transaction, before
+// the booking is written, so the checks see every other booking and none can take the same last use.
+export function redeemPromoCode(code: string, customerId: number) {
+  findPromoCode(code, customerId);
+  db.prepare("UPDATE promo_codes SET redemptions = redemptions + 1 WHERE code = ?").run(code);
+}
+
+// Gives the use back when a booking with the code never goes ahead.
+export function releasePromoCode(code: string) {
+  db.prepare("UPDATE promo_codes SET redemptions = MAX(redemptions - 1, 0) WHERE code = ?").run(code);
+}
+
+// Minutes of [start, end) that fall in the late-night window of the friend's local clock.
+// The offset is taken once at the start; a DST change mid-booking shifts it by at most an hour.
+function lateNightMinutes(start: number, end: number, timezone: string) {
+  const offset = zoneOffsetMs(start, timezone);
+  let minutes = 0;
+  for (let t = start; t < end; t += 60 * 1000) {
+    const hour = new Date(t + offset).getUTCHours();
+    if (hour >= PRICING.lateNightStartHour || hour < PRICING.lateNightEndHour) minutes++;
+  }
+  return minutes;
+}
+
+// Prices a booking. Without a start time the time-based surcharges are left out, which is
+// what the profile page shows before a slot is picked. An activity the friend
+// offers at its own rate is priced at that rate; otherwise the profile rate applies.
+export function quoteBooking(input: {
+  friendId: number;
+  hours: number;
+  activity?: string | null;
+  startAt?: string | null;
+  // Straight from the request body, so checked here rather than trusted to be text.
+  promoCode?: unknown;
+  customerId?: number;
+}): Quote {
+  const friend = db.prepare("SELECT hourly_rate, timezone FROM users WHERE id = ? AND role = 'friend'")
+    .get(input.friendId) as { hourly_rate: number | null; timezone: string | null } | undefined;
+  if (!friend || !friend.hourly_rate) throw new HttpError(404, "Friend not found");
+
+  let rupeesPerHour = friend.hourly_rate;
+  if (input.activity) {
+    const offering = findFriendActivity(input.friendId, input.activity);
+    if (!offering) throw new HttpError(400, `This friend doesn't offer ${input.activity}`);
+    rupeesPerHour = offering.hourly_rate ?? friend.hourly_rate;
+  }
+
+  const timezone = friend.timezone || "Asia/Kolkata";
+  const hourlyRate = rupeesPerHour * 100;
+  const base = hourlyRate * input.hours;
+  const lines: QuoteLine[] = [
+    { code: "base", label: `${input.hours} × ₹${rupeesPerHour}/hour`, amount: base },
+  ];
+
+  if (input.startAt) {
+    const start = Date.parse(input.startAt);
+    const end = start + input.hours * 60 * 60 * 1000;
+    const weekday = weekdayOf(localDate(start, timezone));
+    if (weekday === 0 || weekday === 6) {
+      lines.push({ code: "weekend", label: "Weekend surcharge", amount: Math.round(base * PRICING.weekendSurchargeRate) });
+    }
+    const lateMinutes = lateNightMinutes(start, end, timezone);
+    if (lateMinutes > 0) {
+      lines.push({
+        code: "late_night",
+        label: "Late-night surcharge",
+        amount: Math.round((hourlyRate / 60) * lateMinutes * PRICING.lateNightSurchargeRate),
+      });
+    }
+  }
+
+  const tier = PRICING.multiHourDiscounts.find(d => input.hours >= d.minHours);
+  if (tier) {
+    lines.push({ code: "multi_hour", label: `${Math.round(tier.rate * 100)}% off ${tier.minHours}+ hours`, amount: -Math.round(base * tier.rate) });
+  }
+
+  // The friend's share is set before any promo: promos are funded out of the platform fee,
+  // so a promo can never discount more than the fee itself.
+  const priced = lines.reduce((sum, line) => sum + line.amount, 0);
+  const friendPayout = Math.round(priced * (1 - PRICING.platformFeeRate));
+
+  let promoCode: string | null = null;
+  if (input.promoCode != null && typeof input.promoCode !== "string") throw new HttpError(400, "promoCode must be text");
+  if (typeof input.promoCode === "string" && input.promoCode) {
+    const promo = findPromoCode(input.promoCode, input.customerId);
+    let discount = promo.percent_off ? Math.round(priced * promo.percent_off / 100) : promo.amount_off || 0;
+    if (promo.max_discount !== null) discount = Math.min(discount, promo.max_discount);
+    discount = Math.min(discount, priced - friendPayout);
+    lines.push({ code: "promo", label: `Promo ${promo.code}`, amount: -discount });
+    promoCode = promo.code;
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const platformFee = subtotal - friendPayout;
+  const tax = Math.round(platformFee * PRICING.gstRate);
+
+  return {
+    currency: "INR",
+    hours: input.hours,
+    hourlyRate,
+    lines,
+    subtotal,
+    platformFee,
+    friendPayout,
+    tax,
+    total: subtotal + tax,
+    promoCode,
+  };
+}
@@ -0,0 +1,172 @@
+import express from "express";
+import { db } from "./db";
+import { requireAdmin, requireAuth, requireRole, type SessionUser } from "./auth";
+import { recordAudit } from "./audit";
+import { HttpError, sendError } from "./errors";
+import { getFriendActivities, getUserTerms, setFriendActivities, setUserTerms, withTaxonomy } from "./taxonomy";
+
+export const FRIEND_STATUSES = ["draft", "submitted", "approved", "rejected"] as const;
+export type FriendStatus = typeof FRIEND_STATUSES[number];
+
+const MIN_AGE = 18;
+const MIN_ABOUT_LENGTH = 30;
+const MAX_ABOUT_LENGTH = 1000;
+const MIN_HOURLY_RATE = 100;
+const MAX_HOURLY_RATE = 100000;
+
+// Everything the user may see about themselves, including the state of their application.
+export function getOwnProfile(userId: number) {
+  const profile = db.prepare(`
+    SELECT id, name, email, role, city, age, about, hourly_rate, verified, rating, review_count, timezone,
+      phone, phone_verified_at, friend_status, safety_agreed_at, application_submitted_at, application_reviewed_at,
+      application_note
+    FROM users WHERE id = ?
+  `).get(userId) as { id: number; role: string } | undefined;
+  if (!profile) throw new HttpError(404, "User not found");
+  return withTaxonomy(profile);
+}
+
+function parseText(value: unknown, field: string, max: number) {
+  if (typeof value !== "string") throw new HttpError(400, `${field} must be text`);
+  if (value.trim().length > max) throw new HttpError(400, `${field} can be at most ${max} characters`);
+  return value.trim();
+}
+
+function parseInteger(value: unknown, field: string, min: number, max: number) {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new HttpError(400, `${field} must be a whole number between ${min} and ${max}`);
+  }
+  return number;
+}
+
+function parseList(value: unknown, field: string) {
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) throw new HttpError(400, `${field} must be a list of names`);
+  return value as string[];
+}
+
+// Partial update: only the fields present in the body change. Rate and activities are
+// friend-only.
+const updateProfile = db.transaction((user: SessionUser, body: Record<string, unknown>) => {
+  const columns: Record<string, string | number | null> = {};
+  if (body.name !== undefined) {
+    const name = parseText(body.name, "Name", 80);
+    if (!name) throw new HttpError(400, "Name is required");
+    columns.name = name;
+  }
+  if (body.city !== undefined) columns.city = parseText(body.city, "City", 80) || null;
+  if (body.age !== undefined) columns.age = body.age === null || body.age === "" ? null : parseInteger(body.age, "Age", MIN_AGE, 100);
+  if (body.about !== undefined) columns.about = parseText(body.about, "About", MAX_ABOUT_LENGTH) || null;
+
+  const isFriend = user.role === "friend";
+  if ((body.hourlyRate !== undefined || body.activities !== undefined) && !isFriend) {
+    throw new HttpError(403, "Only friends can set rates and activities");
+  }
+  if (body.hourlyRate !== undefined) columns.hourly_rate = parseInteger(body.hourlyRate, "Hourly rate", MIN_HOURLY_RATE, MAX_HOURLY_RATE);
+
+  const names = Object.keys(columns);
+  if (names.length > 0) {
+    db.prepare(`UPDATE users SET ${names.map(name => `${name} = ?`).join(", ")} WHERE id = ?`)
+      .run(...Object.values(columns), user.id);
+  }
+  if (body.languages !== undefined) setUserTerms(user.id, "language", parseList(body.languages, "Languages"));
+  if (body.interests !== undefined) setUserTerms(user.id, "interest", parseList(body.interests, "Interests"));
+  if (body.activities !== undefined) {
+    if (!Array.isArray(body.activities)) throw new HttpError(400, "Activities must be a list");
+    setFriendActivities(user.id, body.activities);
+  }
+});
+
+// What still has to be filled in before a friend application can be submitted.
+function missingForApplication(userId: number) {
+  const user = db.prepare("SELECT name, city, age, about, hourly_rate, phone_verified_at FROM users WHERE id = ?")
+    .get(userId) as { name: string; city: string | null; age: number | null; about: string | null; hourly_rate: number | null; phone_verified_at: string | null };
+  const missing: string[] = [];
+  if (!user.phone_verified_at) missing.push("verified mobile number");
+  if (!user.city) missing.push("city");
+  if (!user.age || user.age < MIN_AGE) missing.push(`age (${MIN_AGE}+)`);
+  if ((user.about || "").length < MIN_ABOUT_LENGTH) missing.push(`about (at least ${MIN_ABOUT_LENGTH} characters)`);
+  if (!user.hourly_rate) missing.push("hourly rate");
+  if (getUserTerms(userId, "language").length === 0) missing.push("languages");
+  if (getUserTerms(userId, "interest").length === 0) missing.push("interests");
+  if (getFriendActivities(userId).length === 0) missing.push("activities");
+  return missing;
+}
+
+export const profileRouter = express.Router();
+
+profileRouter.get("/me/profile", requireAuth, (req, res) => {
+  res.json(getOwnProfile(req.user!.id));
+});
+
+profileRouter.put("/me/profile", requireAuth, (req, res) => {
+  try {
+    updateProfile(req.user!, req.body || {});
+    res.json(getOwnProfile(req.user!.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Sends a draft (or a rejected application, after edits) to the admins for review.
+profileRouter.post("/me/friend-application", requireRole("friend"), (req, res) => {
+  try {
+    const { friend_status: status } = db.prepare("SELECT friend_status FROM users WHERE id = ?")
+      .get(req.user!.id) as { friend_status: FriendStatus | null };
+    if (status !== "draft" && status !== "rejected") throw new HttpError(409, `Your application is already ${status}`);
+    if (req.body?.agreeToSafetyPolicy !== true) throw new HttpError(400, "Please agree to the safety policy");
+    const missing = missingForApplication(req.user!.id);
+    if (missing.length > 0) throw new HttpError(400, `Complete your profile first: ${missing.join(", ")}`);
+
+    db.prepare(`
+      UPDATE users SET friend_status = 'submitted', safety_agreed_at = CURRENT_TIMESTAMP,
+        application_submitted_at = CURRENT_TIMESTAMP, application_note = NULL
+      WHERE id = ?
+    `).run(req.user!.id);
+    res.json(getOwnProfile(req.user!.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+profileRouter.get("/admin/friend-applications", requireAdmin, (req, res) => {
+  const status = typeof req.query.status === "string" ? req.query.status : "submitted";
+  if (!FRIEND_STATUSES.includes(status as FriendStatus)) {
+    res.status(400).json({ error: `status must be one of ${FRIEND_STATUSES.join(", ")}` });
+    return;
+  }
+  const applicants = db.prepare(`
+    SELECT id FROM users WHERE role = 'friend' AND friend_status = ? ORDER BY application_submitted_at, id
+  `).all(status) as { id: number }[];
+  res.json(applicants.map(({ id }) => getOwnProfile(id)));
+});
+
+profileRouter.post("/admin/friend-applications/:id/:decision", requireAdmin, (req, res) => {
+  const { decision } = req.params;
+  if (decision !== "approve" && decision !== "reject") {
+    res.status(404).json({ error: "Unknown decision" });
+    return;
+  }
+  const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+  if (decision === "reject" && !reason) {
+    res.status(400).json({ error: "Tell the applicant why their application was rejected" });
+    return;
+  }
+  const info = db.prepare(`
+    UPDATE users SET friend_status = ?, application_reviewed_at = CURRENT_TIMESTAMP, application_note = ?
+    WHERE id = ? AND role = 'friend' AND friend_status = 'submitted'
+  `).run(decision === "approve" ? "approved" : "rejected", reason || null, req.params.id);
+  if (info.changes === 0) {
+    res.status(404).json({ error: "No submitted application with that id" });
+    return;
+  }
+  recordAudit({
+    actorId: req.user!.id,
+    action: decision === "approve" ? "friend_application.approved" : "friend_application.rejected",
+    entity: "user",
+    entityId: Number(req.params.id),
+    subjectUserId: Number(req.params.id),
+    detail: reason ? { reason } : undefined,
+  });
+  res.json(getOwnProfile(Number(req.params.id)));
+});
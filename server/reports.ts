@@ -0,0 +1,281 @@
+import express from "express";
+import { ACTIVE_ACCOUNT, db } from "./db";
+import { requireAdmin, requireAuth } from "./auth";
+import { recordAudit } from "./audit";
+import { HttpError, sendError } from "./errors";
+import { getBooking } from "./bookings";
+import { setAccountStatus } from "./admin";
+import { blockUser } from "./blocks";
+
+export const REPORT_CATEGORIES = [
+  "harassment",
+  "inappropriate_conduct",
+  "physical_intimacy_request",
+  "safety_threat",
+  "fraud_or_scam",
+  "fake_profile",
+  "other",
+] as const;
+export type ReportCategory = typeof REPORT_CATEGORIES[number];
+
+export const REPORT_SUBJECTS = ["user", "message", "booking"] as const;
+export type ReportSubject = typeof REPORT_SUBJECTS[number];
+
+export type ReportStatus = "open" | "escalated" | "actioned" | "dismissed";
+
+// Categories that go to the top of the queue straight away.
+const URGENT_CATEGORIES: ReportCategory[] = ["safety_threat", "physical_intimacy_request"];
+
+// Reports from this many different people inside the window escalate every open report
+// against the account; at the higher count the account is suspended until an admin looks.
+// Only reporters with a verified phone who have a paid booking with the account, or have been
+// messaged by it, count towards a suspension: anyone can message a friend, so messages they sent
+// themselves prove nothing, and a handful of throwaway accounts can't take someone offline.
+const REPORT_WINDOW_DAYS = 30;
+const ESCALATE_AFTER_REPORTERS = 2;
+const RESTRICT_AFTER_REPORTERS = 3;
+const AUTO_SUSPENSION_DAYS = 7;
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+// Messages either side of a reported message, or the latest ones for other reports.
+const EVIDENCE_CONTEXT = 10;
+const EVIDENCE_LIMIT = 50;
+
+interface EvidenceMessage {
+  id: number;
+  sender_id: number;
+  receiver_id: number;
+  content: string;
+  created_at: string;
+}
+
+interface ReportRow {
+  id: number;
+  reporter_id: number;
+  reported_user_id: number;
+  subject_type: ReportSubject;
+  subject_id: number;
+  category: ReportCategory;
+  description: string;
+  evidence: string | null;
+  status: ReportStatus;
+  resolution_note: string | null;
+  resolved_by: number | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// Messages between two users; takes (a, b, b, a).
+const CONVERSATION = "((sender_id = ? AND receiver_id = ?) OR (sender_id = ? AND receiver_id = ?))";
+
+// Works out who is being reported and checks the reporter was actually part of it.
+function resolveSubject(reporterId: number, type: ReportSubject, subjectId: number) {
+  if (type === "user") {
+    if (!db.prepare("SELECT 1 FROM users WHERE id = ?").get(subjectId)) throw new HttpError(404, "User not found");
+    return subjectId;
+  }
+  if (type === "message") {
+    const message = db.prepare("SELECT sender_id, receiver_id FROM messages WHERE id = ?")
+      .get(subjectId) as { sender_id: number; receiver_id: number } | undefined;
+    if (!message || message.receiver_id !== reporterId) throw new HttpError(404, "Message not found");
+    return message.sender_id;
+  }
+  const booking = getBooking(subjectId);
+  if (!booking || (booking.customer_id !== reporterId && booking.friend_id !== reporterId)) {
+    throw new HttpError(404, "Booking not found");
+  }
+  return booking.customer_id === reporterId ? booking.friend_id : booking.customer_id;
+}
+
+function snapshotEvidence(reporterId: number, reportedId: number, type: ReportSubject, subjectId: number) {
+  const params = [reporterId, reportedId, reportedId, reporterId];
+  let messages: EvidenceMessage[];
+  if (type === "message") {
+    const before = db.prepare(`
+      SELECT id, sender_id, receiver_id, content, created_at FROM messages
+      WHERE ${CONVERSATION} AND id <= ? ORDER BY id DESC LIMIT ?
+    `).all(...params, subjectId, EVIDENCE_CONTEXT + 1) as EvidenceMessage[];
+    const after = db.prepare(`
+      SELECT id, sender_id, receiver_id, content, created_at FROM messages
+      WHERE ${CONVERSATION} AND id > ? ORDER BY id LIMIT ?
+    `).all(...params, subjectId, EVIDENCE_CONTEXT) as EvidenceMessage[];
+    messages = [...before.reverse(), ...after];
+  } else {
+    messages = (db.prepare(`
+      SELECT id, sender_id, receiver_id, content, created_at FROM messages
+      WHERE ${CONVERSATION} ORDER BY id DESC LIMIT ?
+    `).all(...params, EVIDENCE_LIMIT) as EvidenceMessage[]).reverse();
+  }
+  return { messages, capturedAt: new Date().toISOString() };
+}
+
+// Escalates, and past the threshold restricts, an account that several people have reported.
+function applyReportThresholds(userId: number) {
+  const { reporters } = db.prepare(`
+    SELECT COUNT(DISTINCT reporter_id) AS reporters FROM reports
+    WHERE reported_user_id = ? AND status != 'dismissed' AND created_at > datetime('now', ?)
+  `).get(userId, `-${REPORT_WINDOW_DAYS} days`) as { reporters: number };
+
+  if (reporters >= ESCALATE_AFTER_REPORTERS) {
+    db.prepare("UPDATE reports SET status = 'escalated' WHERE reported_user_id = ? AND status = 'open'").run(userId);
+  }
+  if (reporters < RESTRICT_AFTER_REPORTERS) return;
+
+  const { trusted } = db.prepare(`
+    SELECT COUNT(DISTINCT reports.reporter_id) AS trusted FROM reports
+    JOIN users reporter ON reporter.id = reports.reporter_id
+    WHERE reports.reported_user_id = ? AND reports.status != 'dismissed' AND reports.created_at > datetime('now', ?)
+      AND reporter.phone_verified_at IS NOT NULL
+      AND (
+        EXISTS (
+          SELECT 1 FROM bookings
+          WHERE ((customer_id = reports.reporter_id AND friend_id = reports.reported_user_id)
+            OR (customer_id = reports.reported_user_id AND friend_id = reports.reporter_id))
+            AND status IN ('confirmed', 'in_progress', 'completed', 'no_show')
+        )
+        OR EXISTS (
+          SELECT 1 FROM messages WHERE sender_id = reports.reported_user_id AND receiver_id = reports.reporter_id
+        )
+      )
+  `).get(userId, `-${REPORT_WINDOW_DAYS} days`) as { trusted: number };
+
+  if (trusted >= RESTRICT_AFTER_REPORTERS) {
+    const account = db.prepare(`SELECT is_admin, ${ACTIVE_ACCOUNT} AS active FROM users WHERE id = ?`)
+      .get(userId) as { is_admin: number; active: number };
+    if (account.active && !account.is_admin) {
+      setAccountStatus(userId, null, "suspend", `Reported by ${trusted} people in ${REPORT_WINDOW_DAYS} days; pending review`, AUTO_SUSPENSION_DAYS);
+    }
+  }
+}
+
+const createReport = db.transaction((reporterId: number, body: Record<string, unknown>) => {
+  const type = body.subjectType as ReportSubject;
+  if (!REPORT_SUBJECTS.includes(type)) throw new HttpError(400, `subjectType must be one of ${REPORT_SUBJECTS.join(", ")}`);
+  const category = body.category as ReportCategory;
+  if (!REPORT_CATEGORIES.includes(category)) throw new HttpError(400, `category must be one of ${REPORT_CATEGORIES.join(", ")}`);
+  const description = typeof body.description === "string" ? body.description.trim() : "";
+  if (!description) throw new HttpError(400, "Describe what happened");
+  if (description.length > MAX_DESCRIPTION_LENGTH) throw new HttpError(400, `Keep the description under ${MAX_DESCRIPTION_LENGTH} characters`);
+
+  const subjectId = Number(body.subjectId);
+  const reportedId = resolveSubject(reporterId, type, subjectId);
+  if (reportedId === reporterId) throw new HttpError(400, "You can't report yourself");
+
+  const duplicate = db.prepare(`
+    SELECT 1 FROM reports
+    WHERE reporter_id = ? AND subject_type = ? AND subject_id = ? AND status IN ('open', 'escalated')
+  `).get(reporterId, type, subjectId);
+  if (duplicate) throw new HttpError(409, "You have already reported this. Our team is looking into it");
+
+  const info = db.prepare(`
+    INSERT INTO reports (reporter_id, reported_user_id, subject_type, subject_id, category, description, evidence, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    reporterId, reportedId, type, subjectId, category, description,
+    JSON.stringify(snapshotEvidence(reporterId, reportedId, type, subjectId)),
+    URGENT_CATEGORIES.includes(category) ? "escalated" : "open"
+  );
+  if (body.block === true) blockUser(reporterId, reportedId);
+  applyReportThresholds(reportedId);
+  return Number(info.lastInsertRowid);
+});
+
+// What the reporter gets back: their own report without the evidence snapshot.
+function getOwnReport(id: number) {
+  return db.prepare(`
+    SELECT id, reported_user_id, subject_type, subject_id, category, description, status, created_at
+    FROM reports WHERE id = ?
+  `).get(id);
+}
+
+function getAdminReport(id: number | string) {
+  const report = db.prepare(`
+    SELECT reports.*, reporter.name AS reporter_name, reported.name AS reported_user_name,
+      reported.account_status AS reported_account_status,
+      (SELECT COUNT(*) FROM reports other WHERE other.reported_user_id = reports.reported_user_id) AS reports_against_user
+    FROM reports
+    JOIN users reporter ON reporter.id = reports.reporter_id
+    JOIN users reported ON reported.id = reports.reported_user_id
+    WHERE reports.id = ?
+  `).get(id) as (ReportRow & Record<string, unknown>) | undefined;
+  if (!report) return undefined;
+  return { ...report, evidence: report.evidence ? JSON.parse(report.evidence) : null };
+}
+
+export const reportsRouter = express.Router();
+
+reportsRouter.post("/reports", requireAuth, (req, res) => {
+  try {
+    res.status(201).json(getOwnReport(createReport(req.user!.id, req.body || {})));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+reportsRouter.get("/me/reports", requireAuth, (req, res) => {
+  const reports = db.prepare(`
+    SELECT reports.id, reported_user_id, users.name AS reported_user_name, subject_type, subject_id, category,
+      status, reports.created_at
+    FROM reports JOIN users ON users.id = reports.reported_user_id
+    WHERE reporter_id = ? ORDER BY reports.id DESC
+  `).all(req.user!.id);
+  res.json(reports);
+});
+
+// The triage queue: escalated reports first, then oldest first. "open" covers both states.
+reportsRouter.get("/admin/reports", requireAdmin, (req, res) => {
+  const status = typeof req.query.status === "string" ? req.query.status : "open";
+  const statuses = status === "open" ? ["open", "escalated"] : [status];
+  if (!["open", "escalated", "actioned", "dismissed"].includes(status)) {
+    res.status(400).json({ error: "status must be one of open, escalated, actioned, dismissed" });
+    return;
+  }
+  const ids = db.prepare(`
+    SELECT id FROM reports WHERE status IN (${statuses.map(() => "?").join(", ")})
+    ORDER BY status = 'escalated' DESC, ${status === "open" || status === "escalated" ? "created_at ASC" : "resolved_at DESC"}
+    LIMIT 200
+  `).all(...statuses) as { id: number }[];
+  res.json(ids.map(({ id }) => getAdminReport(id)));
+});
+
+reportsRouter.get("/admin/reports/:id", requireAdmin, (req, res) => {
+  const report = getAdminReport(req.params.id);
+  if (!report) {
+    res.status(404).json({ error: "Report not found" });
+    return;
+  }
+  res.json(report);
+});
+
+// Closes a report. Acting on the account itself (suspend, ban) is a separate admin action.
+reportsRouter.post("/admin/reports/:id/:decision", requireAdmin, (req, res) => {
+  const { decision } = req.params;
+  if (decision !== "action" && decision !== "dismiss") {
+    res.status(404).json({ error: "Unknown decision" });
+    return;
+  }
+  const note = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+  if (!note) {
+    res.status(400).json({ error: "Give a reason; it is kept in the audit log" });
+    return;
+  }
+  const status = decision === "action" ? "actioned" : "dismissed";
+  const info = db.prepare(`
+    UPDATE reports SET status = ?, resolution_note = ?, resolved_by = ?, resolved_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status IN ('open', 'escalated')
+  `).run(status, note, req.user!.id, req.params.id);
+  if (info.changes === 0) {
+    res.status(404).json({ error: "No open report with that id" });
+    return;
+  }
+  const report = getAdminReport(req.params.id)!;
+  recordAudit({
+    actorId: req.user!.id,
+    action: `report.${status}`,
+    entity: "report",
+    entityId: report.id,
+    subjectUserId: report.reported_user_id,
+    detail: { reason: note, category: report.category },
+  });
+  res.json(report);
+});
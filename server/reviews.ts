@@ -0,0 +1,147 @@
+import express from "express";
+import { db } from "./db";
+import { requireAuth, requireRole } from "./auth";
+import { HttpError, sendError } from "./errors";
+import { getBooking } from "./bookings";
+import { notify } from "./notifications";
+
+export interface Review {
+  id: number;
+  booking_id: number;
+  reviewer_id: number;
+  reviewee_id: number;
+  rating: number;
+  body: string | null;
+  punctuality: number | null;
+  communication: number | null;
+  reply: string | null;
+  replied_at: string | null;
+  created_at: string;
+}
+
+const MAX_BODY_LENGTH = 2000;
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+function parseScore(value: unknown, field: string, required: boolean) {
+  if (value === undefined || value === null || value === "") {
+    if (required) throw new HttpError(400, `${field} is required`);
+    return null;
+  }
+  const score = Number(value);
+  if (!Number.isInteger(score) || score < 1 || score > 5) throw new HttpError(400, `${field} must be 1 to 5 stars`);
+  return score;
+}
+
+function parseText(value: unknown, field: string) {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") throw new HttpError(400, `${field} must be text`);
+  if (value.length > MAX_BODY_LENGTH) throw new HttpError(400, `${field} can be at most ${MAX_BODY_LENGTH} characters`);
+  return value.trim() || null;
+}
+
+// Keeps users.rating and users.review_count in step with the reviews they have received.
+function refreshRating(userId: number) {
+  db.prepare(`
+    UPDATE users SET
+      rating = (SELECT ROUND(AVG(rating), 2) FROM reviews WHERE reviewee_id = ?),
+      review_count = (SELECT COUNT(*) FROM reviews WHERE reviewee_id = ?)
+    WHERE id = ?
+  `).run(userId, userId, userId);
+}
+
+// Each side of a completed booking may review the other once.
+export const createReview = db.transaction((bookingId: number, reviewerId: number, input: Record<string, unknown>) => {
+  const booking = getBooking(bookingId);
+  if (!booking || (booking.customer_id !== reviewerId && booking.friend_id !== reviewerId)) {
+    throw new HttpError(404, "Booking not found");
+  }
+  if (booking.status !== "completed") throw new HttpError(409, "Only completed bookings can be reviewed");
+  if (db.prepare("SELECT id FROM reviews WHERE booking_id = ? AND reviewer_id = ?").get(bookingId, reviewerId)) {
+    throw new HttpError(409, "You have already reviewed this booking");
+  }
+
+  const revieweeId = booking.customer_id === reviewerId ? booking.friend_id : booking.customer_id;
+  const info = db.prepare(`
+    INSERT INTO reviews (booking_id, reviewer_id, reviewee_id, rating, body, punctuality, communication)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    bookingId,
+    reviewerId,
+    revieweeId,
+    parseScore(input.rating, "Rating", true),
+    parseText(input.body, "Review"),
+    parseScore(input.punctuality, "Punctuality", false),
+    parseScore(input.communication, "Communication", false)
+  );
+  refreshRating(revieweeId);
+  return db.prepare("SELECT * FROM reviews WHERE id = ?").get(info.lastInsertRowid) as Review;
+});
+
+export const reviewsRouter = express.Router();
+
+// Reviews customers left for a friend, newest first, with the friend's aggregate scores.
+reviewsRouter.get("/friends/:id/reviews", (req, res) => {
+  const friend = db.prepare("SELECT id, rating, review_count FROM users WHERE id = ? AND role = 'friend'")
+    .get(req.params.id) as { id: number; rating: number | null; review_count: number } | undefined;
+  if (!friend) {
+    res.status(404).json({ error: "Friend not found" });
+    return;
+  }
+
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(req.query.pageSize) || DEFAULT_PAGE_SIZE));
+  const reviews = db.prepare(`
+    SELECT reviews.*, reviewer.name AS reviewer_name
+    FROM reviews JOIN users reviewer ON reviewer.id = reviews.reviewer_id
+    WHERE reviews.reviewee_id = ?
+    ORDER BY reviews.created_at DESC, reviews.id DESC
+    LIMIT ? OFFSET ?
+  `).all(friend.id, pageSize, (page - 1) * pageSize);
+  const subScores = db.prepare(`
+    SELECT ROUND(AVG(punctuality), 2) AS punctuality, ROUND(AVG(communication), 2) AS communication
+    FROM reviews WHERE reviewee_id = ?
+  `).get(friend.id);
+
+  res.json({
+    rating: friend.rating,
+    reviewCount: friend.review_count,
+    subScores,
+    page,
+    pageSize,
+    hasMore: page * pageSize < friend.review_count,
+    reviews,
+  });
+});
+
+reviewsRouter.post("/bookings/:id/reviews", requireAuth, (req, res) => {
+  try {
+    const review = createReview(Number(req.params.id), req.user!.id, req.body || {});
+    const reviewee = db.prepare("SELECT role FROM users WHERE id = ?").get(review.reviewee_id) as { role: string };
+    notify(review.reviewee_id, "review_received", {
+      reviewerName: req.user!.name,
+      rating: review.rating,
+      url: reviewee.role === "friend" ? `/friend/${review.reviewee_id}` : "/bookings",
+    });
+    res.status(201).json(review);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Friends can answer reviews about them once, publicly, under the review.
+reviewsRouter.post("/reviews/:id/reply", requireRole("friend"), (req, res) => {
+  try {
+    const review = db.prepare("SELECT * FROM reviews WHERE id = ? AND reviewee_id = ?")
+      .get(req.params.id, req.user!.id) as Review | undefined;
+    if (!review) throw new HttpError(404, "Review not found");
+    if (review.reply) throw new HttpError(409, "You have already replied to this review");
+    const reply = parseText(req.body?.reply, "Reply");
+    if (!reply) throw new HttpError(400, "Reply can't be empty");
+
+    db.prepare("UPDATE reviews SET reply = ?, replied_at = CURRENT_TIMESTAMP WHERE id = ?").run(reply, review.id);
+    res.json(db.prepare("SELECT * FROM reviews WHERE id = ?").get(review.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
@@ -0,0 +1,374 @@
+import { createHash, randomBytes } from "crypto";
+import express from "express";
+import { db } from "./db";
+import { requireAdmin, requireAuth } from "./auth";
+import { recordAudit } from "./audit";
+import { getBooking } from "./bookings";
+import { sendToUser } from "./chat";
+import { notifyEmergencyContacts } from "./emergencyContacts";
+import { HttpError, sendError } from "./errors";
+
+export type IncidentStatus = "active" | "ended" | "resolved";
+export type IncidentSource = "button" | "check_in";
+
+export type IncidentEventType =
+  | "triggered"
+  | "check_in_missed"
+  | "location"
+  | "link_created"
+  | "link_opened"
+  | "acknowledged"
+  | "ended"
+  | "resolved";
+
+export interface Position {
+  latitude: number;
+  longitude: number;
+  // Metres, as reported by the device.
+  accuracy: number | null;
+}
+
+interface IncidentRow {
+  id: number;
+  booking_id: number;
+  user_id: number;
+  status: IncidentStatus;
+  source: IncidentSource;
+  share_token_hash: string | null;
+  share_expires_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  located_at: string | null;
+  acknowledged_by: number | null;
+  acknowledged_at: string | null;
+  ended_at: string | null;
+  resolved_by: number | null;
+  resolved_at: string | null;
+  resolution_note: string | null;
+  created_at: string;
+}
+
+// Share links stop working after this long, or as soon as the user says they are safe.
+const SHARE_LINK_HOURS = 12;
+// Location updates closer together than this are dropped, so one client can't flood the timeline.
+const MIN_LOCATION_INTERVAL_SECONDS = 5;
+const MAX_NOTE_LENGTH = 1000;
+
+function hashShareToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function recordEvent(incidentId: number, type: IncidentEventType, actorId: number | null, { position, note }: { position?: Position; note?: string } = {}) {
+  db.prepare(`
+    INSERT INTO safety_incident_events (incident_id, type, actor_id, latitude, longitude, accuracy, note)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(incidentId, type, actorId, position?.latitude ?? null, position?.longitude ?? null, position?.accuracy ?? null, note ?? null);
+}
+
+// A position from a request body or socket frame. Missing coordinates are fine (the user may
+// have refused location access); bad ones are not.
+export function parsePosition(body: Record<string, unknown>): Position | undefined {
+  if (body.latitude === undefined && body.longitude === undefined) return undefined;
+  const latitude = Number(body.latitude);
+  const longitude = Number(body.longitude);
+  const accuracy = body.accuracy === undefined || body.accuracy === null ? null : Number(body.accuracy);
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90
+    || !Number.isFinite(longitude) || longitude < -180 || longitude > 180
+    || (accuracy !== null && (!Number.isFinite(accuracy) || accuracy < 0))) {
+    throw new HttpError(400, "Invalid location");
+  }
+  return { latitude, longitude, accuracy };
+}
+
+function getIncident(id: number | string) {
+  return db.prepare("SELECT * FROM safety_incidents WHERE id = ?").get(id) as IncidentRow | undefined;
+}
+
+// The user's own view of an incident; the share token is only ever handed out when it is made.
+function toOwnIncident(incident: IncidentRow) {
+  const { id, booking_id, status, share_expires_at, located_at, acknowledged_at, ended_at, created_at } = incident;
+  return { id, booking_id, status, share_expires_at, located_at, acknowledged_at, ended_at, created_at };
+}
+
+function getOwnActiveIncident(id: number | string, userId: number) {
+  const incident = getIncident(id);
+  if (!incident || incident.user_id !== userId || incident.source !== "button") throw new HttpError(404, "Incident not found");
+  if (incident.status !== "active") throw new HttpError(409, "This alert has already ended");
+  return incident;
+}
+
+// Replaces the incident's share link with a new one; anyone holding the old link loses access.
+function createShareLink(incidentId: number, actorId: number) {
+  const token = randomBytes(24).toString("base64url");
+  const { share_expires_at: expiresAt } = db.prepare(`
+    UPDATE safety_incidents SET share_token_hash = ?, share_expires_at = datetime('now', ?)
+    WHERE id = ?
+    RETURNING share_expires_at
+  `).get(hashShareToken(token), `+${SHARE_LINK_HOURS} hours`, incidentId) as { share_expires_at: string };
+  recordEvent(incidentId, "link_created", actorId);
+  return { token, expiresAt };
+}
+
+function shareUrl(req: express.Request, token: string) {
+  return `${req.protocol}://${req.get("host")}/sos/${token}`;
+}
+
+// Every admin hears about a new or ended alert on their open sockets, wherever they are in the app.
+function alertAdmins(frame: object) {
+  const admins = db.prepare("SELECT id FROM users WHERE is_admin = 1").all() as { id: number }[];
+  for (const { id } of admins) sendToUser(id, frame);
+}
+
+// Only someone on an in-progress booking can raise an alert for it. The other person on the
+// booking is deliberately not told. Pressing again while an alert is active returns that one.
+const triggerIncident = db.transaction((userId: number, bookingId: number, position: Position | undefined) => {
+  const booking = getBooking(bookingId);
+  if (!booking || (booking.customer_id !== userId && booking.friend_id !== userId)) throw new HttpError(404, "Booking not found");
+  if (booking.status !== "in_progress") throw new HttpError(409, "The Safety Button works while a booking is in progress");
+
+  const existing = db.prepare("SELECT * FROM safety_incidents WHERE booking_id = ? AND user_id = ? AND status = 'active' AND source = 'button'")
+    .get(bookingId, userId) as IncidentRow | undefined;
+  if (existing) return { incident: existing, created: false };
+
+  const { id } = db.prepare(`
+    INSERT INTO safety_incidents (booking_id, user_id, latitude, longitude, accuracy, located_at)
+    VALUES (?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END)
+    RETURNING id
+  `).get(bookingId, userId, position?.latitude ?? null, position?.longitude ?? null, position?.accuracy ?? null, position?.latitude ?? null) as { id: number };
+  recordEvent(id, "triggered", userId, { position });
+  return { incident: getIncident(id)!, created: true };
+});
+
+// Puts a missed check-in in front of staff as an alert of its own. There is no share link or
+// location, since the user never asked for help.
+export function raiseCheckInIncident(bookingId: number, userId: number, note: string) {
+  const { id } = db.prepare(`
+    INSERT INTO safety_incidents (booking_id, user_id, source) VALUES (?, ?, 'check_in') RETURNING id
+  `).get(bookingId, userId) as { id: number };
+  recordEvent(id, "check_in_missed", null, { note });
+  alertAdmins({ type: "sos", incidentId: id, status: "active" });
+  return id;
+}
+
+// The user answered the check-in after all. Staff still close the incident themselves.
+export function endCheckInIncident(incidentId: number, userId: number) {
+  const { changes } = db.prepare(`
+    UPDATE safety_incidents SET status = 'ended', ended_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'active'
+  `).run(incidentId);
+  if (changes === 0) return;
+  recordEvent(incidentId, "ended", userId, { note: "Checked in as safe" });
+  alertAdmins({ type: "sos", incidentId, status: "ended" });
+}
+
+// A location update from the user's socket while their alert is active. Returns false when it
+// came too soon after the last one and was dropped.
+export function recordLocation(userId: number, incidentId: number, position: Position) {
+  const incident = getOwnActiveIncident(incidentId, userId);
+  const { changes } = db.prepare(`
+    UPDATE safety_incidents SET latitude = ?, longitude = ?, accuracy = ?, located_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND (located_at IS NULL OR located_at <= datetime('now', ?))
+  `).run(position.latitude, position.longitude, position.accuracy, incident.id, `-${MIN_LOCATION_INTERVAL_SECONDS} seconds`);
+  if (changes === 0) return false;
+  recordEvent(incident.id, "location", userId, { position });
+  return true;
+}
+
+function getTimeline(incidentId: number) {
+  return db.prepare(`
+    SELECT safety_incident_events.*, actor.name AS actor_name
+    FROM safety_incident_events LEFT JOIN users actor ON actor.id = safety_incident_events.actor_id
+    WHERE incident_id = ? ORDER BY safety_incident_events.id
+  `).all(incidentId);
+}
+
+// What staff see: the incident with both people on the booking and how to reach them.
+function getAdminIncident(id: number | string) {
+  return db.prepare(`
+    SELECT safety_incidents.id, safety_incidents.booking_id, safety_incidents.user_id, safety_incidents.status, safety_incidents.source,
+      safety_incidents.share_expires_at, safety_incidents.latitude, safety_incidents.longitude, safety_incidents.accuracy,
+      safety_incidents.located_at, safety_incidents.acknowledged_at, safety_incidents.ended_at, safety_incidents.resolved_at,
+      safety_incidents.resolution_note, safety_incidents.created_at,
+      reporter.name AS user_name, reporter.phone AS user_phone,
+      other.id AS other_user_id, other.name AS other_user_name, other.phone AS other_user_phone,
+      acknowledger.name AS acknowledged_by_name,
+      bookings.activity, bookings.start_at, bookings.end_at, bookings.timezone, bookings.status AS booking_status
+    FROM safety_incidents
+    JOIN bookings ON bookings.id = safety_incidents.booking_id
+    JOIN users reporter ON reporter.id = safety_incidents.user_id
+    JOIN users other ON other.id = CASE WHEN bookings.customer_id = safety_incidents.user_id THEN bookings.friend_id ELSE bookings.customer_id END
+    LEFT JOIN users acknowledger ON acknowledger.id = safety_incidents.acknowledged_by
+    WHERE safety_incidents.id = ?
+  `).get(id) as (Record<string, unknown> & { id: number; user_id: number; status: IncidentStatus }) | undefined;
+}
+
+export const safetyRouter = express.Router();
+
+safetyRouter.post("/safety/incidents", requireAuth, (req, res) => {
+  try {
+    const body = req.body || {};
+    const { incident, created } = triggerIncident(req.user!.id, Number(body.bookingId), parsePosition(body));
+    if (!created) {
+      res.json({ incident: toOwnIncident(incident), shareUrl: null });
+      return;
+    }
+    const link = createShareLink(incident.id, req.user!.id);
+    alertAdmins({ type: "sos", incidentId: incident.id, status: "active" });
+    notifyEmergencyContacts(req.user!.id, `${req.user!.name} has pressed the Safety Button on FriendlyTime. See where they are: ${shareUrl(req, link.token)}`)
+      .catch(error => console.error(`Incident ${incident.id}: contacts not told`, error));
+    res.status(201).json({ incident: toOwnIncident(getIncident(incident.id)!), shareUrl: shareUrl(req, link.token) });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+safetyRouter.get("/me/safety-incidents/active", requireAuth, (req, res) => {
+  const incidents = db.prepare("SELECT * FROM safety_incidents WHERE user_id = ? AND status = 'active' AND source = 'button' ORDER BY id DESC")
+    .all(req.user!.id) as IncidentRow[];
+  res.json(incidents.map(toOwnIncident));
+});
+
+// A fresh link, for when the old one was lost or shared too widely.
+safetyRouter.post("/safety/incidents/:id/share-link", requireAuth, (req, res) => {
+  try {
+    const incident = getOwnActiveIncident(req.params.id, req.user!.id);
+    const link = createShareLink(incident.id, req.user!.id);
+    res.status(201).json({ shareUrl: shareUrl(req, link.token), expiresAt: link.expiresAt });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// The user is safe: location sharing stops and the link goes dead. Staff still review it.
+safetyRouter.post("/safety/incidents/:id/end", requireAuth, (req, res) => {
+  try {
+    const incident = getOwnActiveIncident(req.params.id, req.user!.id);
+    db.prepare(`
+      UPDATE safety_incidents SET status = 'ended', ended_at = CURRENT_TIMESTAMP, share_token_hash = NULL, share_expires_at = NULL
+      WHERE id = ?
+    `).run(incident.id);
+    recordEvent(incident.id, "ended", req.user!.id);
+    alertAdmins({ type: "sos", incidentId: incident.id, status: "ended" });
+    res.json(toOwnIncident(getIncident(incident.id)!));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// The page behind a share link. No login: holding the unexpired link is the permission.
+safetyRouter.get("/safety/share/:token", (req, res) => {
+  const incident = db.prepare(`
+    SELECT * FROM safety_incidents WHERE share_token_hash = ? AND share_expires_at > CURRENT_TIMESTAMP AND status = 'active'
+  `).get(hashShareToken(req.params.token)) as IncidentRow | undefined;
+  if (!incident) {
+    res.status(404).json({ error: "This alert has ended or the link has expired" });
+    return;
+  }
+  // The first opening of each link goes on the timeline; the page refreshing itself does not.
+  const opened = db.prepare(`
+    SELECT 1 FROM safety_incident_events
+    WHERE incident_id = ? AND type = 'link_opened'
+      AND id > (SELECT MAX(id) FROM safety_incident_events WHERE incident_id = ? AND type = 'link_created')
+  `).get(incident.id, incident.id);
+  if (!opened) recordEvent(incident.id, "link_opened", null);
+
+  const details = db.prepare(`
+    SELECT reporter.name, other.name AS with_name, bookings.activity, bookings.start_at, bookings.end_at, bookings.timezone
+    FROM bookings
+    JOIN users reporter ON reporter.id = ?
+    JOIN users other ON other.id = CASE WHEN bookings.customer_id = ? THEN bookings.friend_id ELSE bookings.customer_id END
+    WHERE bookings.id = ?
+  `).get(incident.user_id, incident.user_id, incident.booking_id) as Record<string, string | null>;
+  res.setHeader("Cache-Control", "no-store");
+  res.json({
+    name: details.name,
+    started_at: incident.created_at,
+    expires_at: incident.share_expires_at,
+    acknowledged: Boolean(incident.acknowledged_at),
+    location: incident.located_at
+      ? { latitude: incident.latitude, longitude: incident.longitude, accuracy: incident.accuracy, located_at: incident.located_at }
+      : null,
+    booking: {
+      activity: details.activity,
+      with_name: details.with_name,
+      start_at: details.start_at,
+      end_at: details.end_at,
+      timezone: details.timezone,
+    },
+  });
+});
+
+// The SOS queue: active alerts first, then ones the user ended that staff haven't closed.
+safetyRouter.get("/admin/safety-incidents", requireAdmin, (req, res) => {
+  const status = typeof req.query.status === "string" ? req.query.status : "open";
+  if (status !== "open" && status !== "resolved") {
+    res.status(400).json({ error: "status must be open or resolved" });
+    return;
+  }
+  const ids = db.prepare(`
+    SELECT id FROM safety_incidents
+    WHERE ${status === "open" ? "status IN ('active', 'ended')" : "status = 'resolved'"}
+    ORDER BY ${status === "open" ? "status = 'active' DESC, created_at ASC" : "resolved_at DESC"}
+    LIMIT 200
+  `).all() as { id: number }[];
+  res.json(ids.map(({ id }) => getAdminIncident(id)));
+});
+
+safetyRouter.get("/admin/safety-incidents/:id", requireAdmin, (req, res) => {
+  const incident = getAdminIncident(req.params.id);
+  if (!incident) {
+    res.status(404).json({ error: "Incident not found" });
+    return;
+  }
+  const contacts = db.prepare(`
+    SELECT name, phone, relationship, status FROM emergency_contacts WHERE user_id = ? ORDER BY status = 'verified' DESC, id
+  `).all(incident.user_id);
+  res.json({ ...incident, timeline: getTimeline(incident.id), emergency_contacts: contacts });
+});
+
+// Tells the user someone on the safety team has picked up their alert.
+safetyRouter.post("/admin/safety-incidents/:id/acknowledge", requireAdmin, (req, res) => {
+  const info = db.prepare(`
+    UPDATE safety_incidents SET acknowledged_by = ?, acknowledged_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND acknowledged_at IS NULL AND status != 'resolved'
+  `).run(req.user!.id, req.params.id);
+  if (info.changes === 0) {
+    res.status(404).json({ error: "No unacknowledged incident with that id" });
+    return;
+  }
+  const incident = getAdminIncident(req.params.id)!;
+  recordEvent(incident.id, "acknowledged", req.user!.id);
+  recordAudit({ actorId: req.user!.id, action: "safety_incident.acknowledged", entity: "safety_incident", entityId: incident.id, subjectUserId: incident.user_id });
+  sendToUser(incident.user_id, { type: "sos-update", incident: toOwnIncident(getIncident(incident.id)!) });
+  res.json({ ...incident, timeline: getTimeline(incident.id) });
+});
+
+// Closes the incident after follow-up; an alert that is still active is ended with it.
+safetyRouter.post("/admin/safety-incidents/:id/resolve", requireAdmin, (req, res) => {
+  const note = typeof req.body?.reason === "string" ? req.body.reason.trim().slice(0, MAX_NOTE_LENGTH) : "";
+  if (!note) {
+    res.status(400).json({ error: "Give a reason; it is kept in the audit log" });
+    return;
+  }
+  const info = db.prepare(`
+    UPDATE safety_incidents SET status = 'resolved', resolved_by = ?, resolved_at = CURRENT_TIMESTAMP, resolution_note = ?,
+      ended_at = COALESCE(ended_at, CURRENT_TIMESTAMP), share_token_hash = NULL, share_expires_at = NULL
+    WHERE id = ? AND status != 'resolved'
+  `).run(req.user!.id, note, req.params.id);
+  if (info.changes === 0) {
+    res.status(404).json({ error: "No open incident with that id" });
+    return;
+  }
+  const incident = getAdminIncident(req.params.id)!;
+  recordEvent(incident.id, "resolved", req.user!.id, { note });
+  recordAudit({
+    actorId: req.user!.id,
+    action: "safety_incident.resolved",
+    entity: "safety_incident",
+    entityId: incident.id,
+    subjectUserId: incident.user_id,
+    detail: { reason: note },
+  });
+  sendToUser(incident.user_id, { type: "sos-update", incident: toOwnIncident(getIncident(incident.id)!) });
+  res.json({ ...incident, timeline: getTimeline(incident.id) });
+});
@@ -0,0 +1,112 @@
+import { db } from "./db";
+import { INSTANCE_ID } from "./bus";
+
+export interface ScheduledJob {
+  id: number;
+  type: string;
+  key: string | null;
+  payload: string;
+  run_at: string;
+  attempts: number;
+}
+
+type JobHandler<P = unknown> = (payload: P, job: ScheduledJob) => void | Promise<void>;
+
+const POLL_MS = Number(process.env.SCHEDULER_POLL_MS) || 5000;
+const BATCH_SIZE = 20;
+// A failed job is tried again after 1, 2, 4 and 8 minutes, then left as failed.
+const MAX_ATTEMPTS = 5;
+// A job still marked running after this long belonged to a process that died mid-run.
+const STALE_LOCK_MINUTES = 10;
+
+const handlers = new Map<string, JobHandler>();
+let timer: ReturnType<typeof setInterval> | undefined;
+let running: Promise<void> | undefined;
+let stopped = false;
+
+// Modules register what each job type does when they load; jobs are only ever stored by type.
+// P is the payload the module schedules that type with.
+export function registerJobHandler<P>(type: string, handler: JobHandler<P>) {
+  handlers.set(type, handler as JobHandler);
+}
+
+// Queues a job for runAt (an ISO instant or a Date). Scheduling a key that is already waiting
+// moves it instead of adding another; a key that has already run is left alone.
+export function scheduleJob(type: string, runAt: string | Date, payload: Record<string, unknown> = {}, key?: string) {
+  const when = runAt instanceof Date ? runAt.toISOString() : runAt;
+  db.prepare(`
+    INSERT INTO scheduled_jobs (type, key, payload, run_at) VALUES (?, ?, ?, datetime(?))
+    ON CONFLICT(key) DO UPDATE SET type = excluded.type, payload = excluded.payload, run_at = excluded.run_at
+    WHERE scheduled_jobs.status = 'pending'
+  `).run(type, key ?? null, JSON.stringify(payload), when);
+}
+
+// Drops waiting jobs whose key starts with the prefix, e.g. everything for one booking.
+export function cancelJobs(keyPrefix: string) {
+  db.prepare("UPDATE scheduled_jobs SET status = 'cancelled', finished_at = CURRENT_TIMESTAMP WHERE status = 'pending' AND key LIKE ? ESCAPE '\\'")
+    .run(`${keyPrefix.replace(/[\\%_]/g, "\\$&")}%`);
+}
+
+// Takes the due jobs in one statement, so two processes polling together never both get one.
+function claimDueJobs() {
+  db.prepare(`
+    UPDATE scheduled_jobs SET status = 'pending', locked_by = NULL, locked_at = NULL
+    WHERE status = 'running' AND locked_at < datetime('now', ?)
+  `).run(`-${STALE_LOCK_MINUTES} minutes`);
+  return db.prepare(`
+    UPDATE scheduled_jobs SET status = 'running', locked_by = ?, locked_at = CURRENT_TIMESTAMP, attempts = attempts + 1
+    WHERE id IN (
+      SELECT id FROM scheduled_jobs WHERE status = 'pending' AND run_at <= CURRENT_TIMESTAMP ORDER BY run_at LIMIT ?
+    )
+    RETURNING id, type, key, payload, run_at, attempts
+  `).all(INSTANCE_ID, BATCH_SIZE) as ScheduledJob[];
+}
+
+async function runJob(job: ScheduledJob) {
+  try {
+    const handler = handlers.get(job.type);
+    if (!handler) throw new Error(`No handler for job type "${job.type}"`);
+    await handler(JSON.parse(job.payload), job);
+    db.prepare("UPDATE scheduled_jobs SET status = 'done', finished_at = CURRENT_TIMESTAMP, last_error = NULL WHERE id = ?").run(job.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${job.id} (${job.type}) failed`, error);
+    if (job.attempts >= MAX_ATTEMPTS) {
+      db.prepare("UPDATE scheduled_jobs SET status = 'failed', finished_at = CURRENT_TIMESTAMP, last_error = ? WHERE id = ?").run(message, job.id);
+    } else {
+      db.prepare(`
+        UPDATE scheduled_jobs SET status = 'pending', locked_by = NULL, locked_at = NULL, last_error = ?, run_at = datetime('now', ?)
+        WHERE id = ?
+      `).run(message, `+${2 ** (job.attempts - 1)} minutes`, job.id);
+    }
+  }
+}
+
+async function runDueJobs() {
+  while (!stopped) {
+    const jobs = claimDueJobs();
+    if (jobs.length === 0) return;
+    for (const job of jobs) await runJob(job);
+  }
+}
+
+function tick() {
+  // A slow batch simply delays the next poll rather than overlapping with it.
+  if (running) return;
+  running = runDueJobs()
+    .catch(error => console.error("Scheduler poll failed", error))
+    .finally(() => { running = undefined; });
+}
+
+// Jobs that came due while no server was up run on the first poll.
+export function startScheduler() {
+  tick();
+  timer = setInterval(tick, POLL_MS);
+}
+
+// Stops polling and waits for the jobs already taken to finish.
+export async function stopScheduler() {
+  stopped = true;
+  clearInterval(timer);
+  await running;
+}
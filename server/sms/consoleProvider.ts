@@ -0,0 +1,10 @@
+import type { SmsProvider } from "./provider";
+
+// Development provider: prints messages to the server log instead of sending them.
+export class ConsoleSmsProvider implements SmsProvider {
+  name = "console";
+
+  async send({ to, body }: { to: string; body: string }) {
+    console.log(`[sms] to ${to}: ${body}`);
+  }
+}
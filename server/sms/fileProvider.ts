@@ -0,0 +1,15 @@
+import fs from "fs";
+import path from "path";
+import type { SmsProvider } from "./provider";
+
+// Appends each message as a line of JSON to a file, so scripts and tests can read the codes back.
+export class FileSmsProvider implements SmsProvider {
+  name = "file";
+
+  constructor(private file = path.resolve(process.env.SMS_OUTBOX_FILE || "sms-outbox.jsonl")) {}
+
+  async send({ to, body }: { to: string; body: string }) {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.appendFile(this.file, JSON.stringify({ to, body, sentAt: new Date().toISOString() }) + "\n");
+  }
+}
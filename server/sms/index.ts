@@ -0,0 +1,19 @@
+import { HttpError } from "../errors";
+import { ConsoleSmsProvider } from "./consoleProvider";
+import { FileSmsProvider } from "./fileProvider";
+import type { SmsProvider } from "./provider";
+
+const providers = new Map<string, SmsProvider>();
+for (const provider of [new ConsoleSmsProvider(), new FileSmsProvider()]) providers.set(provider.name, provider);
+
+// Real providers register themselves here; SMS_PROVIDER picks the one messages go through.
+export function registerSmsProvider(provider: SmsProvider) {
+  providers.set(provider.name, provider);
+}
+
+export async function sendSms(to: string, body: string) {
+  const name = process.env.SMS_PROVIDER || "console";
+  const provider = providers.get(name);
+  if (!provider) throw new HttpError(500, `SMS provider "${name}" is not configured`);
+  await provider.send({ to, body });
+}
@@ -0,0 +1,5 @@
+// What an SMS provider has to offer. Numbers are E.164 ("+919876543210").
+export interface SmsProvider {
+  name: string;
+  send(message: { to: string; body: string }): Promise<void>;
+}
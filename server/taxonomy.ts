@@ -0,0 +1,242 @@
+import express from "express";
+import { db } from "./db";
+import { requireRole } from "./auth";
+import { HttpError, sendError } from "./errors";
+
+export const TAXONOMY_KINDS = ["language", "interest", "activity"] as const;
+export type TaxonomyKind = typeof TAXONOMY_KINDS[number];
+
+export interface Term {
+  id: number;
+  kind: TaxonomyKind;
+  name: string;
+  curated: number;
+}
+
+export interface FriendActivity {
+  id: number;
+  name: string;
+  // Rupees per hour for this activity; falls back to the friend's profile rate.
+  hourly_rate: number | null;
+}
+
+const AUTOCOMPLETE_LIMIT = 10;
+
+// The curated vocabulary offered in pickers and autocomplete. Synonyms are what people
+// type or what older profiles used; they resolve to the curated name.
+const CURATED: Record<TaxonomyKind, Record<string, string[]>> = {
+  language: {
+    Assamese: [],
+    Bengali: ["Bangla"],
+    English: [],
+    Gujarati: [],
+    Hindi: [],
+    Kannada: [],
+    Konkani: [],
+    Malayalam: [],
+    Marathi: [],
+    Odia: ["Oriya"],
+    Punjabi: ["Panjabi"],
+    Tamil: [],
+    Telugu: [],
+    Urdu: [],
+  },
+  interest: {
+    Art: ["Painting", "Galleries"],
+    Books: ["Reading", "Literature"],
+    Cooking: ["Baking"],
+    Cricket: [],
+    Dance: ["Dancing"],
+    Fitness: ["Gym", "Workout"],
+    Food: ["Cafes", "Foodie"],
+    Gaming: ["Video games", "Games"],
+    Movies: ["Cinema", "Films"],
+    Music: ["Concerts", "Singing"],
+    Photography: [],
+    Tech: ["Technology", "Gadgets"],
+    Travel: ["Travelling", "Traveling"],
+    Trekking: ["Hiking"],
+  },
+  activity: {
+    "Movie Partner": ["Movies", "Cinema"],
+    "Event Companion": ["Events", "Party"],
+    "Travel Buddy": ["Travel", "City tour"],
+    "Study Partner": ["Study", "Library"],
+    "Fitness Partner": ["Gym", "Workout"],
+    "Wedding Companion": ["Wedding"],
+  },
+};
+
+function seedCuratedTerms() {
+  const insertTerm = db.prepare("INSERT OR IGNORE INTO taxonomy_terms (kind, name) VALUES (?, ?)");
+  const findTerm = db.prepare("SELECT id FROM taxonomy_terms WHERE kind = ? AND name = ? COLLATE NOCASE");
+  const markCurated = db.prepare("UPDATE taxonomy_terms SET curated = 1 WHERE id = ?");
+  const insertSynonym = db.prepare("INSERT OR IGNORE INTO taxonomy_synonyms (term_id, synonym) VALUES (?, ?)");
+  db.transaction(() => {
+    for (const kind of TAXONOMY_KINDS) {
+      for (const [name, synonyms] of Object.entries(CURATED[kind])) {
+        insertTerm.run(kind, name);
+        const { id } = findTerm.get(kind, name) as { id: number };
+        markCurated.run(id);
+        for (const synonym of synonyms) insertSynonym.run(id, synonym);
+      }
+    }
+  })();
+}
+
+// Finds a term by its name or one of its synonyms, ignoring case.
+export function resolveTerm(kind: TaxonomyKind, text: string) {
+  return db.prepare(`
+    SELECT * FROM taxonomy_terms
+    WHERE kind = ? AND (name = ? COLLATE NOCASE OR id IN (SELECT term_id FROM taxonomy_synonyms WHERE synonym = ?))
+    ORDER BY curated DESC, id
+    LIMIT 1
+  `).get(kind, text.trim(), text.trim()) as Term | undefined;
+}
+
+// Unknown terms are added uncurated when allowed; otherwise they are rejected.
+function resolveOrCreate(kind: "language" | "interest", text: string, allowNew: boolean) {
+  const existing = resolveTerm(kind, text);
+  if (existing) return existing;
+  if (!allowNew) throw new HttpError(400, `Unknown ${kind} "${text.trim()}"`);
+  const info = db.prepare("INSERT INTO taxonomy_terms (kind, name) VALUES (?, ?)").run(kind, text.trim());
+  return db.prepare("SELECT * FROM taxonomy_terms WHERE id = ?").get(info.lastInsertRowid) as Term;
+}
+
+export function getUserTerms(userId: number, kind: "language" | "interest") {
+  const rows = db.prepare(`
+    SELECT t.name FROM user_terms ut JOIN taxonomy_terms t ON t.id = ut.term_id
+    WHERE ut.user_id = ? AND t.kind = ?
+    ORDER BY t.name
+  `).all(userId, kind) as { name: string }[];
+  return rows.map(row => row.name);
+}
+
+// users.languages and users.interests are kept as comma-separated copies of the links so the
+// full-text index can search them.
+function syncProfileText(userId: number) {
+  db.prepare("UPDATE users SET languages = ?, interests = ? WHERE id = ?")
+    .run(getUserTerms(userId, "language").join(", "), getUserTerms(userId, "interest").join(", "), userId);
+}
+
+// Interests are open-ended, so people can add their own; languages must be known ones.
+export const setUserTerms = db.transaction((
+  userId: number,
+  kind: "language" | "interest",
+  names: string[],
+  allowNew = kind === "interest"
+) => {
+  const terms = names.filter(name => name.trim()).map(name => resolveOrCreate(kind, name, allowNew));
+  db.prepare(`
+    DELETE FROM user_terms WHERE user_id = ? AND term_id IN (SELECT id FROM taxonomy_terms WHERE kind = ?)
+  `).run(userId, kind);
+  const insert = db.prepare("INSERT OR IGNORE INTO user_terms (user_id, term_id) VALUES (?, ?)");
+  for (const term of terms) insert.run(userId, term.id);
+  syncProfileText(userId);
+});
+
+export function getFriendActivities(friendId: number) {
+  return db.prepare(`
+    SELECT t.id, t.name, fa.hourly_rate FROM friend_activities fa JOIN taxonomy_terms t ON t.id = fa.activity_id
+    WHERE fa.friend_id = ?
+    ORDER BY t.name
+  `).all(friendId) as FriendActivity[];
+}
+
+// The friend's offering for an activity given by name (or synonym), if they offer it.
+export function findFriendActivity(friendId: number, activity: string) {
+  const term = resolveTerm("activity", activity);
+  if (!term) return undefined;
+  return getFriendActivities(friendId).find(offering => offering.id === term.id);
+}
+
+export const setFriendActivities = db.transaction((friendId: number, offerings: { activity: string; hourlyRate?: number | null }[]) => {
+  const rows = offerings.map(offering => {
+    const term = resolveTerm("activity", String(offering.activity || ""));
+    if (!term || !term.curated) throw new HttpError(400, `Unknown activity "${offering.activity}"`);
+    const rate = offering.hourlyRate === undefined || offering.hourlyRate === null ? null : Number(offering.hourlyRate);
+    if (rate !== null && (!Number.isInteger(rate) || rate <= 0)) throw new HttpError(400, `${term.name} needs a whole-rupee hourly rate`);
+    return { activityId: term.id, rate };
+  });
+  db.prepare("DELETE FROM friend_activities WHERE friend_id = ?").run(friendId);
+  const insert = db.prepare("INSERT OR REPLACE INTO friend_activities (friend_id, activity_id, hourly_rate) VALUES (?, ?, ?)");
+  for (const row of rows) insert.run(friendId, row.activityId, row.rate);
+});
+
+// Adds the structured languages and interests (and, for friends, activities) to user rows.
+export function withTaxonomy<T extends { id: number; role?: string }>(user: T) {
+  return {
+    ...user,
+    languages: getUserTerms(user.id, "language"),
+    interests: getUserTerms(user.id, "interest"),
+    ...(user.role === "friend" ? { activities: getFriendActivities(user.id) } : {}),
+  };
+}
+
+// Profiles written before the taxonomy existed stored comma-separated strings; link each
+// entry to its term. Runs for any user who has text but no links yet.
+function migrateProfileText() {
+  const users = db.prepare(`
+    SELECT id, languages, interests FROM users
+    WHERE (COALESCE(languages, '') != '' OR COALESCE(interests, '') != '')
+      AND id NOT IN (SELECT user_id FROM user_terms)
+  `).all() as { id: number; languages: string | null; interests: string | null }[];
+  const split = (text: string | null) => (text || "").split(",").map(part => part.trim()).filter(Boolean);
+  for (const user of users) {
+    setUserTerms(user.id, "language", split(user.languages), true);
+    setUserTerms(user.id, "interest", split(user.interests), true);
+  }
+
+  // Before offerings existed every friend could be booked for any activity at their profile rate.
+  const offeringCount = db.prepare("SELECT COUNT(*) as count FROM friend_activities").get() as { count: number };
+  if (offeringCount.count === 0) {
+    db.prepare(`
+      INSERT INTO friend_activities (friend_id, activity_id)
+      SELECT users.id, taxonomy_terms.id FROM users, taxonomy_terms
+      WHERE users.role = 'friend' AND taxonomy_terms.kind = 'activity' AND taxonomy_terms.curated = 1
+    `).run();
+  }
+}
+
+seedCuratedTerms();
+migrateProfileText();
+
+export const taxonomyRouter = express.Router();
+
+// Autocomplete: terms whose name or a synonym starts with q. Without q, the curated list.
+taxonomyRouter.get("/taxonomy/:kind", (req, res) => {
+  const kind = req.params.kind as TaxonomyKind;
+  if (!TAXONOMY_KINDS.includes(kind)) {
+    res.status(404).json({ error: "Unknown taxonomy" });
+    return;
+  }
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  if (!q) {
+    res.json(db.prepare("SELECT id, name FROM taxonomy_terms WHERE kind = ? AND curated = 1 ORDER BY name").all(kind));
+    return;
+  }
+  const pattern = `${q.replace(/[\\%_]/g, "\\$&")}%`;
+  res.json(db.prepare(`
+    SELECT t.id, t.name, MIN(s.synonym) AS matched_synonym
+    FROM taxonomy_terms t LEFT JOIN taxonomy_synonyms s ON s.term_id = t.id AND s.synonym LIKE ? ESCAPE '\\'
+    WHERE t.kind = ? AND (t.name LIKE ? ESCAPE '\\' OR s.synonym IS NOT NULL)
+    GROUP BY t.id
+    ORDER BY t.curated DESC, t.name
+    LIMIT ?
+  `).all(pattern, kind, pattern, AUTOCOMPLETE_LIMIT));
+});
+
+taxonomyRouter.get("/me/activities", requireRole("friend"), (req, res) => {
+  res.json(getFriendActivities(req.user!.id));
+});
+
+// Replaces the activities the friend offers, each optionally at its own hourly rate.
+taxonomyRouter.put("/me/activities", requireRole("friend"), (req, res) => {
+  try {
+    if (!Array.isArray(req.body?.activities)) throw new HttpError(400, "activities must be a list");
+    setFriendActivities(req.user!.id, req.body.activities);
+    res.json(getFriendActivities(req.user!.id));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
@@ -0,0 +1,67 @@
+// Date and time zone helpers. Dates are "YYYY-MM-DD" strings and instants are epoch
+// milliseconds, so nothing here depends on the server's own zone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timezone: unknown): timezone is string {
+  if (typeof timezone !== "string" || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// How far ahead of UTC the zone's wall clock is at the given instant.
+export function zoneOffsetMs(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// The UTC instant of a wall-clock time ("YYYY-MM-DD" plus minutes after midnight) in a zone.
+// Checked twice so times on either side of a DST change resolve to the right offset.
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const firstGuess = wallClock - zoneOffsetMs(wallClock, timeZone);
+  return wallClock - zoneOffsetMs(firstGuess, timeZone);
+}
+
+export function addDays(date: string, days: number) {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function weekdayOf(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// The calendar date in the zone at the given instant.
+export function localDate(instant: number, timeZone: string) {
+  return new Date(instant + zoneOffsetMs(instant, timeZone)).toISOString().slice(0, 10);
+}
+
+// A short wall-clock time in the zone, for texts, e.g. "6:30 pm".
+export function formatLocalTime(instant: string, timeZone: string) {
+  return new Intl.DateTimeFormat("en-IN", { timeZone, hour: "numeric", minute: "2-digit" }).format(new Date(instant));
+}
+
+// Day and time in the zone, for notifications and error messages, e.g. "Wed, 22 Oct, 6:30 pm".
+export function formatLocalDateTime(instant: string, timeZone: string) {
+  return new Intl.DateTimeFormat("en-IN", {
+    timeZone, weekday: "short", day: "numeric", month: "short", hour: "numeric", minute: "2-digit",
+  }).format(new Date(instant));
+}
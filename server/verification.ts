@@ -0,0 +1,303 @@
+import express from "express";
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { db } from "./db";
+import { requireAdmin, requireAuth } from "./auth";
+import { getAuditTrail, recordAudit } from "./audit";
+import { HttpError, sendError } from "./errors";
+
+export const DOCUMENT_TYPES = ["aadhaar", "pan"] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+export type VerificationStatus = "pending" | "approved" | "rejected" | "expired";
+
+export interface IdVerification {
+  id: number;
+  user_id: number;
+  document_type: DocumentType;
+  number_hash: string;
+  number_last4: string;
+  file_name: string | null;
+  mime_type: string;
+  status: VerificationStatus;
+  reason: string | null;
+  reviewed_by: number | null;
+  reviewed_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+const VALIDITY_DAYS = 365;
+// How long before expiry a verified user may submit a fresh document.
+const RENEWAL_WINDOW_DAYS = 30;
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+const DOCUMENT_DIR = path.resolve(process.env.ID_DOCUMENT_DIR || "uploads/id-documents");
+
+// The first bytes of each accepted file type, so a renamed file can't pass as a scan.
+const FILE_SIGNATURES: Record<string, number[]> = {
+  "image/jpeg": [0xff, 0xd8, 0xff],
+  "image/png": [0x89, 0x50, 0x4e, 0x47],
+  "application/pdf": [0x25, 0x50, 0x44, 0x46],
+};
+
+function loadKey() {
+  const secret = process.env.ID_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") throw new Error("ID_ENCRYPTION_KEY must be set in production");
+    console.warn("ID_ENCRYPTION_KEY is not set; using the development key for ID documents.");
+  }
+  return createHash("sha256").update(secret || "friendlytime-development-id-key").digest();
+}
+
+const KEY = loadKey();
+
+// Files are stored as IV (12 bytes) + auth tag (16 bytes) + AES-256-GCM ciphertext.
+function encrypt(data: Buffer) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decrypt(data: Buffer) {
+  const decipher = createDecipheriv("aes-256-gcm", KEY, data.subarray(0, 12));
+  decipher.setAuthTag(data.subarray(12, 28));
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+}
+
+// Keyed so the hash can't be reversed by trying every Aadhaar number.
+function hashNumber(number: string) {
+  return createHmac("sha256", KEY).update(number).digest("hex");
+}
+
+// Verhoeff checksum, which the last digit of every Aadhaar number satisfies.
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function passesVerhoeff(digits: string) {
+  let check = 0;
+  digits.split("").reverse().forEach((digit, index) => {
+    check = VERHOEFF_D[check][VERHOEFF_P[index % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+function parseDocumentNumber(type: DocumentType, raw: string) {
+  if (type === "aadhaar") {
+    const number = raw.replace(/[\s-]/g, "");
+    if (!/^[2-9]\d{11}$/.test(number) || !passesVerhoeff(number)) throw new HttpError(400, "That is not a valid Aadhaar number");
+    return number;
+  }
+  const number = raw.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-Z]{5}\d{4}[A-Z]$/.test(number)) throw new HttpError(400, "That is not a valid PAN");
+  return number;
+}
+
+// The only form of a document number that ever leaves the server.
+export function maskDocumentNumber(type: DocumentType, last4: string) {
+  return type === "aadhaar" ? `XXXX XXXX ${last4}` : `XXXXXX${last4}`;
+}
+
+function toPublic(verification: IdVerification) {
+  const { number_hash, number_last4, file_name, ...rest } = verification;
+  return { ...rest, masked_number: maskDocumentNumber(verification.document_type, number_last4), has_document: !!file_name };
+}
+
+function removeDocument(verification: IdVerification) {
+  if (!verification.file_name) return;
+  fs.rmSync(path.join(DOCUMENT_DIR, verification.file_name), { force: true });
+  db.prepare("UPDATE id_verifications SET file_name = NULL WHERE id = ?").run(verification.id);
+}
+
+function getVerification(id: number | string) {
+  return db.prepare("SELECT * FROM id_verifications WHERE id = ?").get(id) as IdVerification | undefined;
+}
+
+function latestVerification(userId: number) {
+  return db.prepare("SELECT * FROM id_verifications WHERE user_id = ? ORDER BY id DESC LIMIT 1")
+    .get(userId) as IdVerification | undefined;
+}
+
+// users.verified mirrors whether the user holds an approved, unexpired ID check.
+export function refreshVerified(userId: number) {
+  db.prepare(`
+    UPDATE users SET verified = EXISTS (
+      SELECT 1 FROM id_verifications
+      WHERE user_id = ? AND status = 'approved' AND expires_at > CURRENT_TIMESTAMP
+    ) WHERE id = ?
+  `).run(userId, userId);
+}
+
+// Whether the user may upload a document now, and if not, why.
+function submissionBlocker(userId: number) {
+  const pending = db.prepare("SELECT 1 FROM id_verifications WHERE user_id = ? AND status = 'pending'").get(userId);
+  if (pending) return "Your ID is already being reviewed";
+  const current = db.prepare(`
+    SELECT 1 FROM id_verifications
+    WHERE user_id = ? AND status = 'approved' AND expires_at > datetime('now', ?)
+  `).get(userId, `+${RENEWAL_WINDOW_DAYS} days`);
+  if (current) return `You can renew your verification in the last ${RENEWAL_WINDOW_DAYS} days before it expires`;
+  return null;
+}
+
+export function submitVerification(userId: number, type: DocumentType, rawNumber: string, mimeType: string, file: Buffer) {
+  const blocker = submissionBlocker(userId);
+  if (blocker) throw new HttpError(409, blocker);
+  const number = parseDocumentNumber(type, rawNumber);
+  const signature = FILE_SIGNATURES[mimeType];
+  if (!signature) throw new HttpError(415, "Upload a JPEG, PNG or PDF");
+  if (!signature.every((byte, index) => file[index] === byte)) throw new HttpError(400, "The file does not match its type");
+
+  const numberHash = hashNumber(number);
+  const otherOwner = db.prepare(`
+    SELECT 1 FROM id_verifications WHERE number_hash = ? AND user_id != ? AND status IN ('pending', 'approved')
+  `).get(numberHash, userId);
+  if (otherOwner) throw new HttpError(409, "This document is already linked to another account");
+
+  const fileName = `${randomUUID()}.bin`;
+  fs.mkdirSync(DOCUMENT_DIR, { recursive: true });
+  fs.writeFileSync(path.join(DOCUMENT_DIR, fileName), encrypt(file), { mode: 0o600 });
+  try {
+    const info = db.prepare(`
+      INSERT INTO id_verifications (user_id, document_type, number_hash, number_last4, file_name, mime_type)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(userId, type, numberHash, number.slice(-4), fileName, mimeType);
+    const id = Number(info.lastInsertRowid);
+    recordAudit({ actorId: userId, action: "verification.submitted", entity: "id_verification", entityId: id, subjectUserId: userId, detail: { documentType: type } });
+    return getVerification(id)!;
+  } catch (error) {
+    fs.rmSync(path.join(DOCUMENT_DIR, fileName), { force: true });
+    throw error;
+  }
+}
+
+export function reviewVerification(id: number | string, reviewerId: number, decision: "approve" | "reject", reason?: string) {
+  const verification = getVerification(id);
+  if (!verification || verification.status !== "pending") throw new HttpError(404, "No pending verification with that id");
+  if (verification.user_id === reviewerId) throw new HttpError(403, "You can't review your own ID");
+  if (decision === "reject" && !reason) throw new HttpError(400, "Tell the user why their ID was rejected");
+
+  if (decision === "approve") {
+    db.prepare(`
+      UPDATE id_verifications SET status = 'approved', reason = ?, reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP,
+        expires_at = datetime('now', ?)
+      WHERE id = ?
+    `).run(reason || null, reviewerId, `+${VALIDITY_DAYS} days`, verification.id);
+  } else {
+    db.prepare(`
+      UPDATE id_verifications SET status = 'rejected', reason = ?, reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(reason, reviewerId, verification.id);
+    // Rejected scans have no further use, so they are not kept.
+    removeDocument(verification);
+  }
+  recordAudit({
+    actorId: reviewerId,
+    action: decision === "approve" ? "verification.approved" : "verification.rejected",
+    entity: "id_verification",
+    entityId: verification.id,
+    subjectUserId: verification.user_id,
+    detail: reason ? { reason } : undefined,
+  });
+  refreshVerified(verification.user_id);
+  return getVerification(verification.id)!;
+}
+
+// Lapsed approvals drop the badge and their scans; the user has to verify again.
+export function expireVerifications() {
+  const lapsed = db.prepare(`
+    SELECT * FROM id_verifications WHERE status = 'approved' AND expires_at <= CURRENT_TIMESTAMP
+  `).all() as IdVerification[];
+  for (const verification of lapsed) {
+    db.prepare("UPDATE id_verifications SET status = 'expired' WHERE id = ?").run(verification.id);
+    removeDocument(verification);
+    recordAudit({ actorId: null, action: "verification.expired", entity: "id_verification", entityId: verification.id, subjectUserId: verification.user_id });
+    refreshVerified(verification.user_id);
+  }
+  return lapsed.length;
+}
+
+export const verificationRouter = express.Router();
+
+verificationRouter.get("/me/verification", requireAuth, (req, res) => {
+  const latest = latestVerification(req.user!.id);
+  const { verified } = db.prepare("SELECT verified FROM users WHERE id = ?").get(req.user!.id) as { verified: number };
+  const blocker = submissionBlocker(req.user!.id);
+  res.json({ verified: !!verified, latest: latest ? toPublic(latest) : null, canSubmit: !blocker, blocker });
+});
+
+// The scan is the raw request body; the document type and number travel in headers so
+// the upload needs no multipart parsing.
+verificationRouter.post(
+  "/me/verification",
+  requireAuth,
+  express.raw({ type: Object.keys(FILE_SIGNATURES), limit: MAX_DOCUMENT_BYTES }),
+  (req, res) => {
+    try {
+      const type = String(req.header("x-document-type") || "") as DocumentType;
+      if (!DOCUMENT_TYPES.includes(type)) throw new HttpError(400, "Document type must be aadhaar or pan");
+      const mimeType = String(req.header("content-type") || "").split(";")[0].trim();
+      if (!FILE_SIGNATURES[mimeType]) throw new HttpError(415, "Upload a JPEG, PNG or PDF");
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) throw new HttpError(400, "Attach a photo or PDF of your ID");
+      const verification = submitVerification(req.user!.id, type, String(req.header("x-document-number") || ""), mimeType, req.body);
+      res.status(201).json(toPublic(verification));
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+);
+
+verificationRouter.get("/admin/verifications", requireAdmin, (req, res) => {
+  const status = typeof req.query.status === "string" ? req.query.status : "pending";
+  const verifications = db.prepare(`
+    SELECT id_verifications.*, users.name AS user_name, users.email AS user_email, users.role AS user_role
+    FROM id_verifications JOIN users ON users.id = id_verifications.user_id
+    WHERE status = ?
+    ORDER BY id_verifications.created_at, id_verifications.id
+  `).all(status) as (IdVerification & { user_name: string; user_email: string; user_role: string })[];
+  res.json(verifications.map(toPublic));
+});
+
+verificationRouter.get("/admin/verifications/:id", requireAdmin, (req, res) => {
+  const verification = getVerification(req.params.id);
+  if (!verification) {
+    res.status(404).json({ error: "Verification not found" });
+    return;
+  }
+  res.json({ ...toPublic(verification), history: getAuditTrail("id_verification", verification.id) });
+});
+
+// Every look at a scan is logged.
+verificationRouter.get("/admin/verifications/:id/document", requireAdmin, (req, res) => {
+  const verification = getVerification(req.params.id);
+  if (!verification?.file_name) {
+    res.status(404).json({ error: "Document not available" });
+    return;
+  }
+  recordAudit({ actorId: req.user!.id, action: "verification.document_viewed", entity: "id_verification", entityId: verification.id, subjectUserId: verification.user_id });
+  res.setHeader("Cache-Control", "no-store");
+  res.type(verification.mime_type).send(decrypt(fs.readFileSync(path.join(DOCUMENT_DIR, verification.file_name))));
+});
+
+verificationRouter.post("/admin/verifications/:id/:decision", requireAdmin, (req, res) => {
+  const { decision } = req.params;
+  if (decision !== "approve" && decision !== "reject") {
+    res.status(404).json({ error: "Unknown decision" });
+    return;
+  }
+  try {
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+    res.json(toPublic(reviewVerification(req.params.id, req.user!.id, decision, reason)));
+  } catch (error) {
+    sendError(res, error);
+  }
+});
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef } from 'react';
-import { BrowserRouter as Router, Routes, Route, Link, useNavigate, useParams } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { BrowserRouter as Router, Routes, Route, Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { 
   Users, 
   ShieldCheck, 
@@ -18,174 +18,73 @@ import {
   AlertTriangle,
   ArrowRight,
   Heart,
-  Send
+  Flag,
+  Ban
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-// --- Types ---
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  role: 'customer' | 'friend';
-  city: string;
-  age: number;
-  languages: string;
-  interests: string;
-  about: string;
-  hourly_rate: number;
-  verified: number;
-  rating: number;
-}
-
-interface Message {
-  id?: number;
-  sender_id: number;
-  receiver_id: number;
-  content: string;
-  created_at: string;
-}
+import { cn, formatINR } from './lib/utils';
+import { postJson } from './lib/api';
+import { payForBooking } from './lib/payments';
+import type { Booking, User, Quote } from './types';
+import { STATUS_LABELS, STATUS_STYLES, toDateTimeLocal } from './lib/bookings';
+import { AuthProvider, useAuth } from './context/AuthContext';
+import { ChatProvider, useChat } from './context/ChatContext';
+import LoginPage from './pages/LoginPage';
+import SignupPage from './pages/SignupPage';
+import BookingsPage from './pages/BookingsPage';
+import AvailabilityPage from './pages/AvailabilityPage';
+import BecomeFriendPage from './pages/BecomeFriendPage';
+import ProfilePage from './pages/ProfilePage';
+import VerifyPhonePage from './pages/VerifyPhonePage';
+import AdminPage from './pages/AdminPage';
+import MessagesPage from './pages/MessagesPage';
+import SafetySharePage from './pages/SafetySharePage';
+import EmergencyContactInvitePage from './pages/EmergencyContactInvitePage';
+import AvailabilityCalendar from './components/AvailabilityCalendar';
+import ReviewsSection from './components/ReviewsSection';
+import FriendFilters, { FILTER_KEYS, SORT_OPTIONS } from './components/FriendFilters';
+import ReportDialog from './components/ReportDialog';
+import ChatThread from './components/ChatThread';
+import CheckInBanner from './components/CheckInBanner';
+import NotificationBell from './components/NotificationBell';
 
 // --- Components ---
 
 const ChatWidget = ({ 
   friend, 
   onClose, 
-  currentUserId = 1 // Mock current user ID
+  onBlocked,
+  currentUserId
 }: { 
   friend: User; 
   onClose: () => void;
-  currentUserId?: number;
-}) => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [input, setInput] = useState('');
-  const ws = useRef<WebSocket | null>(null);
-  const scrollRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    // Fetch history
-    fetch(`/api/messages/${currentUserId}/${friend.id}`)
-      .then(res => res.json())
-      .then(data => setMessages(data));
-
-    // Setup WebSocket
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    ws.current = new WebSocket(`${protocol}//${window.location.host}`);
-
-    ws.current.onopen = () => {
-      ws.current?.send(JSON.stringify({ type: 'auth', userId: currentUserId }));
-    };
-
-    ws.current.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      if (data.type === 'chat' && data.senderId === friend.id) {
-        setMessages(prev => [...prev, {
-          sender_id: data.senderId,
-          receiver_id: currentUserId,
-          content: data.content,
-          created_at: data.createdAt
-        }]);
-      }
-    };
+  onBlocked: () => void;
+  currentUserId: number;
+}) => (
+  <motion.div 
+    initial={{ opacity: 0, y: 20, scale: 0.95 }}
+    animate={{ opacity: 1, y: 0, scale: 1 }}
+    exit={{ opacity: 0, y: 20, scale: 0.95 }}
+    className="fixed bottom-6 right-6 w-80 md:w-96 h-[500px] bg-white rounded-[32px] shadow-2xl border border-zinc-100 flex flex-col z-[100] overflow-hidden"
+  >
+    <ChatThread counterpart={friend} currentUserId={currentUserId} onClose={onClose} onBlocked={onBlocked} />
+  </motion.div>
+);
 
-    return () => ws.current?.close();
-  }, [friend.id, currentUserId]);
+const Navbar = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { user, logout } = useAuth();
+  const { unreadCount } = useChat();
+  const navigate = useNavigate();
+  // Friends stay hidden from customers until an admin approves their application.
+  const needsApplication = user?.role === 'friend' && (user.friend_status === 'draft' || user.friend_status === 'rejected');
 
-  useEffect(() => {
-    scrollRef.current?.scrollTo(0, scrollRef.current.scrollHeight);
-  }, [messages]);
-
-  const sendMessage = () => {
-    if (!input.trim() || !ws.current) return;
-
-    const msg = {
-      type: 'chat',
-      senderId: currentUserId,
-      receiverId: friend.id,
-      content: input
-    };
-
-    ws.current.send(JSON.stringify(msg));
-    setMessages(prev => [...prev, {
-      sender_id: currentUserId,
-      receiver_id: friend.id,
-      content: input,
-      created_at: new Date().toISOString()
-    }]);
-    setInput('');
+  const handleLogout = async () => {
+    await logout();
+    setIsOpen(false);
+    navigate('/');
   };
 
-  return (
-    <motion.div 
-      initial={{ opacity: 0, y: 20, scale: 0.95 }}
-      animate={{ opacity: 1, y: 0, scale: 1 }}
-      exit={{ opacity: 0, y: 20, scale: 0.95 }}
-      className="fixed bottom-6 right-6 w-80 md:w-96 h-[500px] bg-white rounded-[32px] shadow-2xl border border-zinc-100 flex flex-col z-[100] overflow-hidden"
-    >
-      <div className="p-4 bg-zinc-900 text-white flex justify-between items-center">
-        <div className="flex items-center gap-3">
-          <img src={`https://picsum.photos/seed/${friend.id}/100/100`} className="w-8 h-8 rounded-full object-cover" />
-          <div>
-            <div className="text-sm font-bold">{friend.name}</div>
-            <div className="text-[10px] text-rose-400 font-bold uppercase tracking-widest">Online</div>
-          </div>
-        </div>
-        <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full transition-colors">
-          <X className="w-5 h-5" />
-        </button>
-      </div>
-
-      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4 bg-zinc-50">
-        {messages.map((msg, i) => (
-          <div key={i} className={cn(
-            "flex flex-col max-w-[80%]",
-            msg.sender_id === currentUserId ? "ml-auto items-end" : "items-start"
-          )}>
-            <div className={cn(
-              "px-4 py-2 rounded-2xl text-sm",
-              msg.sender_id === currentUserId 
-                ? "bg-rose-600 text-white rounded-tr-none" 
-                : "bg-white text-zinc-900 border border-zinc-100 rounded-tl-none shadow-sm"
-            )}>
-              {msg.content}
-            </div>
-            <span className="text-[10px] text-zinc-400 mt-1">
-              {new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-            </span>
-          </div>
-        ))}
-      </div>
-
-      <div className="p-4 border-t border-zinc-100 bg-white">
-        <div className="flex gap-2">
-          <input 
-            type="text" 
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
-            placeholder="Type a message..." 
-            className="flex-1 bg-zinc-50 border border-zinc-100 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-rose-500/20"
-          />
-          <button 
-            onClick={sendMessage}
-            className="p-2 bg-rose-600 text-white rounded-xl hover:bg-rose-700 transition-colors"
-          >
-            <Send className="w-5 h-5" />
-          </button>
-        </div>
-      </div>
-    </motion.div>
-  );
-};
-
-const Navbar = () => {
-  const [isOpen, setIsOpen] = useState(false);
   return (
     <nav className="sticky top-0 z-50 bg-white/80 backdrop-blur-md border-b border-zinc-100">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -197,21 +96,43 @@ const Navbar = () => {
             <span className="text-xl font-bold tracking-tight text-zinc-900">FriendlyTime</span>
           </Link>
           
-          <div className="hidden md:flex items-center space-x-8">
-            <Link to="/" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">Home</Link>
-            <Link to="/how-it-works" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">How It Works</Link>
-            <Link to="/browse" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">Browse Friends</Link>
-            <Link to="/safety" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">Safety</Link>
-            <div className="flex items-center space-x-4 ml-4">
-              <button className="text-sm font-semibold text-zinc-900 px-4 py-2 hover:bg-zinc-50 rounded-full transition-colors">Login</button>
-              <button className="text-sm font-semibold bg-rose-600 text-white px-5 py-2 rounded-full hover:bg-rose-700 transition-all shadow-sm shadow-rose-200">Sign Up</button>
+          <div className="flex items-center gap-2 md:gap-4">
+            <div className="hidden md:flex items-center space-x-8">
+              <Link to="/" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">Home</Link>
+              <Link to="/how-it-works" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">How It Works</Link>
+              <Link to="/browse" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">Browse Friends</Link>
+              <Link to="/safety" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">Safety</Link>
+              {user && <Link to="/bookings" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">My Bookings</Link>}
+              {user && (
+                <Link to="/messages" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors flex items-center gap-1.5">
+                  Messages
+                  {unreadCount > 0 && <span className="min-w-5 h-5 px-1.5 rounded-full bg-rose-600 text-white text-[10px] font-bold flex items-center justify-center">{unreadCount}</span>}
+                </Link>
+              )}
+              {user?.role === 'friend' && <Link to="/availability" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">Availability</Link>}
+              {needsApplication && <Link to="/become-a-friend" className="text-sm font-bold text-rose-600 hover:text-rose-700 transition-colors">Finish Application</Link>}
+              {!!user?.is_admin && <Link to="/admin" className="text-sm font-medium text-zinc-600 hover:text-rose-600 transition-colors">Admin</Link>}
+              {user ? (
+                <div className="flex items-center space-x-4 ml-4">
+                  <Link to="/profile" className="flex items-center gap-2 text-sm font-semibold text-zinc-900 hover:text-rose-600 transition-colors">
+                    <UserCircle className="w-5 h-5 text-zinc-400" /> {user.name}
+                  </Link>
+                  <button onClick={handleLogout} className="text-sm font-semibold text-zinc-900 px-4 py-2 hover:bg-zinc-50 rounded-full transition-colors">Logout</button>
+                </div>
+              ) : (
+                <div className="flex items-center space-x-4 ml-4">
+                  <Link to="/login" className="text-sm font-semibold text-zinc-900 px-4 py-2 hover:bg-zinc-50 rounded-full transition-colors">Login</Link>
+                  <Link to="/signup" className="text-sm font-semibold bg-rose-600 text-white px-5 py-2 rounded-full hover:bg-rose-700 transition-all shadow-sm shadow-rose-200">Sign Up</Link>
+                </div>
+              )}
             </div>
-          </div>
 
-          <div className="md:hidden">
-            <button onClick={() => setIsOpen(!isOpen)} className="p-2 text-zinc-600">
-              {isOpen ? <X /> : <Menu />}
-            </button>
+            {user && <NotificationBell />}
+            <div className="md:hidden">
+              <button onClick={() => setIsOpen(!isOpen)} className="p-2 text-zinc-600">
+                {isOpen ? <X /> : <Menu />}
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -230,9 +151,25 @@ const Navbar = () => {
               <Link to="/how-it-works" className="block px-3 py-2 text-base font-medium text-zinc-700 hover:bg-zinc-50 rounded-md">How It Works</Link>
               <Link to="/browse" className="block px-3 py-2 text-base font-medium text-zinc-700 hover:bg-zinc-50 rounded-md">Browse Friends</Link>
               <Link to="/safety" className="block px-3 py-2 text-base font-medium text-zinc-700 hover:bg-zinc-50 rounded-md">Safety</Link>
+              {user && <Link to="/bookings" className="block px-3 py-2 text-base font-medium text-zinc-700 hover:bg-zinc-50 rounded-md">My Bookings</Link>}
+              {user && (
+                <Link to="/messages" className="block px-3 py-2 text-base font-medium text-zinc-700 hover:bg-zinc-50 rounded-md">
+                  Messages{unreadCount > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-rose-600 text-white text-xs font-bold">{unreadCount}</span>}
+                </Link>
+              )}
+              {user?.role === 'friend' && <Link to="/availability" className="block px-3 py-2 text-base font-medium text-zinc-700 hover:bg-zinc-50 rounded-md">Availability</Link>}
+              {needsApplication && <Link to="/become-a-friend" className="block px-3 py-2 text-base font-bold text-rose-600 hover:bg-zinc-50 rounded-md">Finish Application</Link>}
+              {user && <Link to="/profile" className="block px-3 py-2 text-base font-medium text-zinc-700 hover:bg-zinc-50 rounded-md">Profile</Link>}
+              {!!user?.is_admin && <Link to="/admin" className="block px-3 py-2 text-base font-medium text-zinc-700 hover:bg-zinc-50 rounded-md">Admin</Link>}
               <div className="pt-4 flex flex-col space-y-2">
-                <button className="w-full text-center py-3 font-semibold text-zinc-900 border border-zinc-200 rounded-xl">Login</button>
-                <button className="w-full text-center py-3 font-semibold bg-rose-600 text-white rounded-xl">Sign Up</button>
+                {user ? (
+                  <button onClick={handleLogout} className="w-full text-center py-3 font-semibold text-zinc-900 border border-zinc-200 rounded-xl">Logout ({user.name})</button>
+                ) : (
+                  <>
+                    <Link to="/login" onClick={() => setIsOpen(false)} className="w-full text-center py-3 font-semibold text-zinc-900 border border-zinc-200 rounded-xl">Login</Link>
+                    <Link to="/signup" onClick={() => setIsOpen(false)} className="w-full text-center py-3 font-semibold bg-rose-600 text-white rounded-xl">Sign Up</Link>
+                  </>
+                )}
               </div>
             </div>
           </motion.div>
@@ -271,7 +208,7 @@ const Footer = () => (
           <ul className="space-y-2 text-sm">
             <li>support@friendlytime.com</li>
             <li>Help Center</li>
-            <li>Report an Issue</li>
+            <li><Link to="/safety#report" className="hover:text-rose-400">Report an Issue</Link></li>
           </ul>
         </div>
       </div>
@@ -308,9 +245,9 @@ const Hero = () => (
             <Link to="/browse" className="px-8 py-4 bg-rose-600 text-white rounded-2xl font-bold text-lg hover:bg-rose-700 transition-all shadow-lg shadow-rose-200 flex items-center justify-center gap-2">
               Find a Friend <ArrowRight className="w-5 h-5" />
             </Link>
-            <button className="px-8 py-4 bg-white text-zinc-900 border-2 border-zinc-100 rounded-2xl font-bold text-lg hover:border-rose-200 transition-all flex items-center justify-center gap-2">
+            <Link to="/become-a-friend" className="px-8 py-4 bg-white text-zinc-900 border-2 border-zinc-100 rounded-2xl font-bold text-lg hover:border-rose-200 transition-all flex items-center justify-center gap-2">
               Become a Friend
-            </button>
+            </Link>
           </div>
         </motion.div>
       </div>
@@ -346,9 +283,9 @@ const ProfileCard = ({ friend }: { friend: User; key?: any }) => (
       />
       <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-1 rounded-full flex items-center gap-1.5 shadow-sm">
         <Star className="w-3.5 h-3.5 text-amber-500 fill-amber-500" />
-        <span className="text-xs font-bold text-zinc-900">{friend.rating}</span>
+        <span className="text-xs font-bold text-zinc-900">{friend.review_count > 0 ? friend.rating?.toFixed(1) : 'New'}</span>
       </div>
-      {friend.verified && (
+      {!!friend.verified && (
         <div className="absolute top-4 right-4 bg-rose-500 text-white p-1.5 rounded-full shadow-lg">
           <CheckCircle2 className="w-4 h-4" />
         </div>
@@ -370,9 +307,9 @@ const ProfileCard = ({ friend }: { friend: User; key?: any }) => (
       </div>
       
       <div className="flex flex-wrap gap-2 my-4">
-        {friend.interests.split(',').map(interest => (
+        {friend.interests.map(interest => (
           <span key={interest} className="px-2.5 py-1 bg-zinc-50 text-zinc-600 text-[10px] font-bold uppercase tracking-wider rounded-md">
-            {interest.trim()}
+            {interest}
           </span>
         ))}
       </div>
@@ -397,9 +334,9 @@ const HomePage = () => {
   const [friends, setFriends] = useState<User[]>([]);
 
   useEffect(() => {
-    fetch('/api/friends')
+    fetch('/api/friends?sort=rating&limit=3')
       .then(res => res.json())
-      .then(data => setFriends(data.slice(0, 3)));
+      .then(data => setFriends(data.friends));
   }, []);
 
   return (
@@ -475,17 +412,63 @@ const HomePage = () => {
 };
 
 const BrowsePage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [friends, setFriends] = useState<User[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [query, setQuery] = useState(searchParams.get('q') || '');
+  const [showFilters, setShowFilters] = useState(() => FILTER_KEYS.some(key => searchParams.has(key)));
+  const search = searchParams.toString();
 
   useEffect(() => {
-    fetch('/api/friends')
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    fetch(`/api/friends?${search}`)
       .then(res => res.json())
       .then(data => {
-        setFriends(data);
+        if (cancelled) return;
+        setFriends(data.friends || []);
+        setNextCursor(data.nextCursor || null);
+        setError(data.error || '');
         setLoading(false);
       });
-  }, []);
+    return () => { cancelled = true; };
+  }, [search]);
+
+  const updateParam = (key: string, value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) next.set(key, value); else next.delete(key);
+      // Best match only means something while there is a search.
+      if (!next.get('q') && next.get('sort') === 'relevance') next.delete('sort');
+      return next;
+    }, { replace: true });
+  };
+
+  // Typing waits for a pause before it touches the URL and refetches.
+  useEffect(() => {
+    const timer = setTimeout(() => updateParam('q', query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    const params = new URLSearchParams(searchParams);
+    params.set('cursor', nextCursor);
+    const data = await fetch(`/api/friends?${params}`).then(res => res.json());
+    setFriends(prev => [...prev, ...(data.friends || [])]);
+    setNextCursor(data.nextCursor || null);
+  };
+
+  const clearFilters = () => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      FILTER_KEYS.forEach(key => next.delete(key));
+      return next;
+    }, { replace: true });
+  };
 
   return (
     <div className="py-16 bg-zinc-50 min-h-screen">
@@ -495,94 +478,197 @@ const BrowsePage = () => {
             <h1 className="text-4xl font-bold text-zinc-900 mb-2">Browse Friends</h1>
             <p className="text-zinc-600">Find the perfect companion for your next activity.</p>
           </div>
-          <div className="flex gap-4">
+          <div className="flex flex-wrap gap-4">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400 w-4 h-4" />
               <input 
                 type="text" 
-                placeholder="Search city or interest..." 
+                placeholder="Search name, city or interest..." 
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
                 className="pl-10 pr-4 py-2.5 bg-white border border-zinc-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-rose-500/20 focus:border-rose-500 w-full md:w-64"
               />
             </div>
-            <button className="px-4 py-2.5 bg-white border border-zinc-200 rounded-xl text-sm font-semibold text-zinc-700 hover:bg-zinc-50">
+            <select
+              value={searchParams.get('sort') || (searchParams.get('q') ? 'relevance' : 'rating')}
+              onChange={(e) => updateParam('sort', e.target.value)}
+              className="px-4 py-2.5 bg-white border border-zinc-200 rounded-xl text-sm font-semibold text-zinc-700"
+            >
+              {SORT_OPTIONS.filter(option => option.value !== 'relevance' || searchParams.get('q')).map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowFilters(open => !open)}
+              className={cn(
+                "px-4 py-2.5 border rounded-xl text-sm font-semibold transition-colors",
+                showFilters ? "bg-zinc-900 border-zinc-900 text-white" : "bg-white border-zinc-200 text-zinc-700 hover:bg-zinc-50"
+              )}
+            >
               Filters
             </button>
           </div>
         </div>
 
+        {showFilters && <FriendFilters values={searchParams} onChange={updateParam} onClear={clearFilters} />}
+
+        {error && <p className="text-sm text-rose-600 mb-6">{error}</p>}
+
         {loading ? (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
             {[1, 2, 3, 4, 5, 6].map(i => (
               <div key={i} className="h-[450px] bg-white rounded-3xl animate-pulse" />
             ))}
           </div>
-        ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
-            {friends.map(friend => (
-              <ProfileCard key={friend.id} friend={friend} />
-            ))}
+        ) : friends.length === 0 ? (
+          <div className="bg-white rounded-[40px] p-12 border border-zinc-100 text-center text-zinc-500">
+            No friends match your search. Try fewer filters.
           </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
+              {friends.map(friend => (
+                <ProfileCard key={friend.id} friend={friend} />
+              ))}
+            </div>
+            {nextCursor && (
+              <div className="text-center mt-12">
+                <button onClick={loadMore} className="px-6 py-3 bg-white border border-zinc-200 rounded-xl text-sm font-bold text-zinc-700 hover:bg-zinc-50">
+                  Show more
+                </button>
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
   );
 };
 
+const getDurationHours = (duration: string) => {
+  if (duration === "1 Hour") return 1;
+  if (duration === "3 Hours") return 3;
+  if (duration === "Half Day (6 Hours)") return 6;
+  if (duration === "Full Day (12 Hours)") return 12;
+  return 1;
+};
+
 const FriendProfilePage = () => {
   const { id } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
   const [friend, setFriend] = useState<User | null>(null);
-  const [selectedActivity, setSelectedActivity] = useState("Movie Partner");
+  const [selectedActivity, setSelectedActivity] = useState('');
   const [selectedDuration, setSelectedDuration] = useState("1 Hour");
+  const [selectedStart, setSelectedStart] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [isBookingSuccess, setIsBookingSuccess] = useState(false);
+  const [bookedRequest, setBookedRequest] = useState<Booking | null>(null);
+  const [paymentError, setPaymentError] = useState('');
   const [isBookingLoading, setIsBookingLoading] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [bookingError, setBookingError] = useState('');
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState('');
+  const [promoError, setPromoError] = useState('');
 
   useEffect(() => {
     if (id) {
       fetch(`/api/friends/${id}`)
         .then(res => res.json())
-        .then(data => setFriend(data));
+        .then((data: User) => {
+          setFriend(data);
+          setSelectedActivity(data.activities?.[0]?.name || '');
+        });
     }
   }, [id]);
 
+  // Prices come from the server so the total shown is exactly what the booking will charge.
+  useEffect(() => {
+    if (!id) return;
+    postJson<Quote>('/api/bookings/quote', {
+      friendId: Number(id),
+      activity: selectedActivity || null,
+      durationHours: getDurationHours(selectedDuration),
+      startAt: selectedStart ? new Date(selectedStart).toISOString() : null,
+      promoCode: appliedPromo || null
+    })
+      .then(setQuote)
+      .catch(err => {
+        if (!appliedPromo) return;
+        setPromoError(err.message);
+        setAppliedPromo('');
+      });
+  }, [id, selectedActivity, selectedDuration, selectedStart, appliedPromo]);
+
   if (!friend) return <div className="py-20 text-center">Loading...</div>;
 
-  const getDurationHours = (duration: string) => {
-    if (duration === "1 Hour") return 1;
-    if (duration === "3 Hours") return 3;
-    if (duration === "Half Day (6 Hours)") return 6;
-    if (duration === "Full Day (12 Hours)") return 12;
-    return 1;
+  const offering = friend.activities?.find(activity => activity.name === selectedActivity);
+  const displayedRate = offering?.hourly_rate ?? friend.hourly_rate;
+
+  // Booking and chat need an account with a verified mobile number; send anyone else to
+  // sort that out and bring them back here.
+  const requireLogin = (action: () => void) => {
+    const here = `/friend/${friend.id}`;
+    if (!user) {
+      navigate(`/login?next=${encodeURIComponent(here)}`);
+      return;
+    }
+    if (!user.phone_verified_at) {
+      navigate(`/verify-phone?next=${encodeURIComponent(here)}`);
+      return;
+    }
+    action();
+  };
+
+  // Blocking hides the profile from this user, so there is nothing left to show here.
+  const handleBlock = async () => {
+    if (!window.confirm(`Block ${friend.name}? You won't be able to message or book each other.`)) return;
+    await postJson(`/api/users/${friend.id}/block`);
+    navigate('/browse');
   };
 
-  const totalCost = friend.hourly_rate * getDurationHours(selectedDuration);
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setBookedRequest(null);
+    setPaymentError('');
+  };
 
   const handleConfirmBooking = async () => {
     setIsBookingLoading(true);
-    // Mock booking API call
+    setBookingError('');
     try {
       const response = await fetch('/api/bookings', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          customerId: 1, // Mock customer ID
           friendId: friend.id,
           activity: selectedActivity,
-          duration: selectedDuration
+          durationHours: getDurationHours(selectedDuration),
+          // datetime-local values are local wall time; send the instant plus the zone it was picked in.
+          startAt: new Date(selectedStart).toISOString(),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          promoCode: appliedPromo || undefined,
+          quotedTotal: quote?.total
         })
       });
       
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
       if (response.ok) {
+        const booking: Booking = await response.json();
+        try {
+          await payForBooking(booking.id);
+          setBookedRequest(await fetch(`/api/bookings/${booking.id}`).then(res => res.json()));
+        } catch (error) {
+          // The request stands either way; payment can be retried from My Bookings.
+          setBookedRequest(booking);
+          setPaymentError((error as Error).message);
+        }
+        setIsBookingLoading(false);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setBookingError(data.error || 'Booking failed');
         setIsBookingLoading(false);
-        setIsBookingSuccess(true);
-        setTimeout(() => {
-          setIsModalOpen(false);
-          setIsBookingSuccess(false);
-        }, 2000);
       }
     } catch (error) {
       console.error("Booking failed", error);
@@ -607,7 +693,7 @@ const FriendProfilePage = () => {
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-2">
                     <h1 className="text-4xl font-bold text-zinc-900">{friend.name}, {friend.age}</h1>
-                    {friend.verified && (
+                    {!!friend.verified && (
                       <span className="bg-rose-100 text-rose-700 text-[10px] font-bold uppercase tracking-widest px-2 py-1 rounded-full flex items-center gap-1">
                         <CheckCircle2 className="w-3 h-3" /> Verified
                       </span>
@@ -615,8 +701,8 @@ const FriendProfilePage = () => {
                   </div>
                   <div className="flex flex-wrap gap-4 text-zinc-500 text-sm mb-6">
                     <div className="flex items-center gap-1.5"><MapPin className="w-4 h-4" /> {friend.city}</div>
-                    <div className="flex items-center gap-1.5"><Languages className="w-4 h-4" /> {friend.languages}</div>
-                    <div className="flex items-center gap-1.5"><Star className="w-4 h-4 text-amber-500 fill-amber-500" /> {friend.rating} (12 Reviews)</div>
+                    <div className="flex items-center gap-1.5"><Languages className="w-4 h-4" /> {friend.languages.join(', ')}</div>
+                    <div className="flex items-center gap-1.5"><Star className="w-4 h-4 text-amber-500 fill-amber-500" /> {friend.review_count > 0 ? `${friend.rating?.toFixed(1)} (${friend.review_count} ${friend.review_count === 1 ? 'Review' : 'Reviews'})` : 'New'}</div>
                   </div>
                   
                   <h3 className="text-lg font-bold text-zinc-900 mb-3">About Me</h3>
@@ -626,7 +712,7 @@ const FriendProfilePage = () => {
                   
                   <div className="flex gap-4 mb-8">
                     <button 
-                      onClick={() => setIsChatOpen(true)}
+                      onClick={() => requireLogin(() => setIsChatOpen(true))}
                       className="flex items-center gap-2 px-6 py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm hover:bg-zinc-800 transition-all"
                     >
                       <MessageSquare className="w-4 h-4" /> Chat Now
@@ -635,12 +721,22 @@ const FriendProfilePage = () => {
                       <Heart className="w-4 h-4" /> Save
                     </button>
                   </div>
+                  {user && user.id !== friend.id && (
+                    <div className="flex gap-4 -mt-4 mb-8 text-xs font-bold text-zinc-400">
+                      <button onClick={() => setIsReportOpen(true)} className="flex items-center gap-1 hover:text-rose-600 transition-colors">
+                        <Flag className="w-3.5 h-3.5" /> Report
+                      </button>
+                      <button onClick={handleBlock} className="flex items-center gap-1 hover:text-rose-600 transition-colors">
+                        <Ban className="w-3.5 h-3.5" /> Block
+                      </button>
+                    </div>
+                  )}
 
                   <h3 className="text-lg font-bold text-zinc-900 mb-3">Interests</h3>
                   <div className="flex flex-wrap gap-2">
-                    {friend.interests.split(',').map(interest => (
+                    {friend.interests.map(interest => (
                       <span key={interest} className="px-3 py-1.5 bg-zinc-50 text-zinc-700 text-xs font-semibold rounded-lg border border-zinc-100">
-                        {interest.trim()}
+                        {interest}
                       </span>
                     ))}
                   </div>
@@ -650,23 +746,18 @@ const FriendProfilePage = () => {
 
             <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm">
               <h3 className="text-2xl font-bold text-zinc-900 mb-6">Availability Calendar</h3>
-              <div className="grid grid-cols-7 gap-2">
-                {['M', 'T', 'W', 'T', 'F', 'S', 'S'].map((day, i) => (
-                  <div key={i} className="text-center text-[10px] font-bold text-zinc-400 uppercase mb-2">{day}</div>
-                ))}
-                {Array.from({ length: 31 }).map((_, i) => (
-                  <div key={i} className={cn(
-                    "h-12 rounded-xl flex items-center justify-center text-sm font-medium border",
-                    i % 3 === 0 ? "bg-rose-50 border-rose-100 text-rose-700" : "bg-zinc-50 border-zinc-100 text-zinc-400"
-                  )}>
-                    {i + 1}
-                  </div>
-                ))}
-              </div>
-              <p className="mt-4 text-xs text-zinc-400 flex items-center gap-1.5">
-                <div className="w-2 h-2 bg-rose-500 rounded-full" /> Available slots
-              </p>
+              <AvailabilityCalendar
+                friendId={friend.id}
+                durationHours={getDurationHours(selectedDuration)}
+                selectedStart={selectedStart ? new Date(selectedStart).toISOString() : null}
+                onSelect={(startAt) => {
+                  setSelectedStart(toDateTimeLocal(new Date(startAt)));
+                  setBookingError('');
+                }}
+              />
             </div>
+
+            <ReviewsSection key={friend.id} friendId={friend.id} friendName={friend.name} />
           </div>
 
           {/* Right: Booking Card */}
@@ -674,7 +765,7 @@ const FriendProfilePage = () => {
             <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-xl sticky top-24">
               <div className="flex justify-between items-end mb-8">
                 <div>
-                  <div className="text-3xl font-bold text-zinc-900">₹{friend.hourly_rate}</div>
+                  <div className="text-3xl font-bold text-zinc-900">₹{displayedRate}</div>
                   <div className="text-xs text-zinc-400 font-bold uppercase tracking-widest">Per Hour</div>
                 </div>
                 <div className="text-xs text-zinc-400 text-right">
@@ -691,12 +782,12 @@ const FriendProfilePage = () => {
                     onChange={(e) => setSelectedActivity(e.target.value)}
                     className="w-full px-4 py-3 bg-zinc-50 border border-zinc-100 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-rose-500/20"
                   >
-                    <option>Movie Partner</option>
-                    <option>Event Companion</option>
-                    <option>Travel Buddy</option>
-                    <option>Study Partner</option>
-                    <option>Fitness Partner</option>
-                    <option>Wedding Companion</option>
+                    {friend.activities?.length === 0 && <option value="">No activities offered yet</option>}
+                    {friend.activities?.map(activity => (
+                      <option key={activity.id} value={activity.name}>
+                        {activity.name}{activity.hourly_rate !== null && activity.hourly_rate !== friend.hourly_rate ? ` (₹${activity.hourly_rate}/hr)` : ''}
+                      </option>
+                    ))}
                   </select>
                 </div>
                 <div>
@@ -712,10 +803,60 @@ const FriendProfilePage = () => {
                     <option>Full Day (12 Hours)</option>
                   </select>
                 </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-400 uppercase tracking-widest mb-2">Date & Start Time</label>
+                  <input 
+                    type="datetime-local"
+                    value={selectedStart}
+                    min={toDateTimeLocal(new Date())}
+                    onChange={(e) => setSelectedStart(e.target.value)}
+                    className="w-full px-4 py-3 bg-zinc-50 border border-zinc-100 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-rose-500/20"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-400 uppercase tracking-widest mb-2">Promo Code</label>
+                  <div className="flex gap-2">
+                    <input 
+                      type="text"
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value)}
+                      className="flex-1 min-w-0 px-4 py-3 bg-zinc-50 border border-zinc-100 rounded-xl text-sm uppercase focus:outline-none focus:ring-2 focus:ring-rose-500/20"
+                    />
+                    <button
+                      onClick={() => {
+                        setPromoError('');
+                        setAppliedPromo(promoInput.trim());
+                      }}
+                      className="px-4 py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm hover:bg-zinc-800 transition-colors"
+                    >
+                      Apply
+                    </button>
+                  </div>
+                  {promoError && <p className="text-xs text-rose-600 mt-2">{promoError}</p>}
+                  {quote?.promoCode && <p className="text-xs text-emerald-600 mt-2">{quote.promoCode} applied</p>}
+                </div>
+                {quote && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-zinc-500">Estimated total</span>
+                    <span className="font-bold text-zinc-900">{formatINR(quote.total)}</span>
+                  </div>
+                )}
+                {bookingError && !isModalOpen && <p className="text-sm text-rose-600">{bookingError}</p>}
               </div>
 
               <button 
-                onClick={() => setIsModalOpen(true)}
+                onClick={() => requireLogin(() => {
+                  if (!selectedActivity) {
+                    setBookingError(`${friend.name} isn't offering any activities right now.`);
+                    return;
+                  }
+                  if (!selectedStart) {
+                    setBookingError('Pick a date and start time first.');
+                    return;
+                  }
+                  setBookingError('');
+                  setIsModalOpen(true);
+                })}
                 className="w-full py-4 bg-rose-600 text-white rounded-2xl font-bold text-lg hover:bg-rose-700 transition-all shadow-lg shadow-rose-200 mb-4"
               >
                 Book Now
@@ -744,7 +885,7 @@ const FriendProfilePage = () => {
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={() => !isBookingSuccess && setIsModalOpen(false)}
+              onClick={closeModal}
               className="absolute inset-0 bg-zinc-900/60 backdrop-blur-sm"
             />
             <motion.div 
@@ -753,13 +894,32 @@ const FriendProfilePage = () => {
               exit={{ opacity: 0, scale: 0.9, y: 20 }}
               className="relative bg-white rounded-[40px] p-8 md:p-12 max-w-lg w-full shadow-2xl overflow-hidden"
             >
-              {isBookingSuccess ? (
+              {bookedRequest ? (
                 <div className="text-center py-8">
                   <div className="w-20 h-20 bg-rose-100 rounded-full flex items-center justify-center mx-auto mb-6">
-                    <CheckCircle2 className="text-rose-600 w-10 h-10" />
+                    {bookedRequest.status === 'confirmed'
+                      ? <CheckCircle2 className="text-rose-600 w-10 h-10" />
+                      : <Clock className="text-rose-600 w-10 h-10" />}
                   </div>
-                  <h3 className="text-3xl font-bold text-zinc-900 mb-2">Booking Confirmed!</h3>
-                  <p className="text-zinc-600">Your request has been sent to {friend.name}.</p>
+                  <h3 className="text-3xl font-bold text-zinc-900 mb-2">
+                    {bookedRequest.status === 'confirmed' ? 'Booking Confirmed!' : 'Request Sent'}
+                  </h3>
+                  <p className="text-zinc-600 mb-2">
+                    <span className={cn("text-[10px] font-bold uppercase tracking-widest px-2 py-1 rounded-full", STATUS_STYLES[bookedRequest.status])}>
+                      {STATUS_LABELS[bookedRequest.status]}
+                    </span>
+                  </p>
+                  <p className="text-zinc-600 mb-8">
+                    {bookedRequest.status === 'requested'
+                      ? `We've let ${friend.name} know. They have 24 hours to accept, and we'll tell you when they do. Your card is authorized now and only charged once they accept.`
+                      : `Your booking with ${friend.name} is ${STATUS_LABELS[bookedRequest.status].toLowerCase()}.`}
+                  </p>
+                  {paymentError && (
+                    <p className="text-sm text-rose-600 -mt-4 mb-8">Payment didn't go through ({paymentError}). You can pay from My Bookings.</p>
+                  )}
+                  <Link to="/bookings" className="inline-block px-6 py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm hover:bg-zinc-800 transition-colors">
+                    View My Bookings
+                  </Link>
                 </div>
               ) : isBookingLoading ? (
                 <div className="text-center py-12">
@@ -771,7 +931,7 @@ const FriendProfilePage = () => {
                 <>
                   <div className="flex justify-between items-start mb-8">
                     <h3 className="text-3xl font-bold text-zinc-900">Confirm Booking</h3>
-                    <button onClick={() => setIsModalOpen(false)} className="p-2 hover:bg-zinc-50 rounded-full transition-colors">
+                    <button onClick={closeModal} className="p-2 hover:bg-zinc-50 rounded-full transition-colors">
                       <X className="w-6 h-6 text-zinc-400" />
                     </button>
                   </div>
@@ -789,12 +949,41 @@ const FriendProfilePage = () => {
                       <span className="text-zinc-400 text-sm font-bold uppercase tracking-widest">Duration</span>
                       <span className="text-zinc-900 font-bold">{selectedDuration}</span>
                     </div>
+                    <div className="flex justify-between items-center py-4 border-b border-zinc-100">
+                      <span className="text-zinc-400 text-sm font-bold uppercase tracking-widest">When</span>
+                      <span className="text-zinc-900 font-bold text-right">
+                        {new Date(selectedStart).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      </span>
+                    </div>
+                    {quote && (
+                      <div className="space-y-2 text-sm">
+                        {quote.lines.map(line => (
+                          <div key={line.code} className="flex justify-between text-zinc-600">
+                            <span>{line.label}</span>
+                            <span className={line.amount < 0 ? "text-emerald-600" : undefined}>
+                              {line.amount < 0 ? `−${formatINR(-line.amount)}` : formatINR(line.amount)}
+                            </span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between text-zinc-600">
+                          <span>GST on platform fee</span>
+                          <span>{formatINR(quote.tax)}</span>
+                        </div>
+                      </div>
+                    )}
                     <div className="flex justify-between items-center py-6 bg-rose-50 px-6 rounded-2xl">
                       <span className="text-rose-700 text-sm font-bold uppercase tracking-widest">Total Cost</span>
-                      <span className="text-rose-700 text-2xl font-bold">₹{totalCost}</span>
+                      <span className="text-rose-700 text-2xl font-bold">{quote ? formatINR(quote.total) : '—'}</span>
                     </div>
+                    {quote && (
+                      <p className="text-xs text-zinc-400 text-center">
+                        {formatINR(quote.friendPayout)} goes to {friend.name} · {formatINR(quote.platformFee)} platform fee
+                      </p>
+                    )}
                   </div>
 
+                  {bookingError && <p className="text-sm text-rose-600 mb-4">{bookingError}</p>}
+
                   <div className="flex flex-col gap-4">
                     <button 
                       onClick={handleConfirmBooking}
@@ -803,7 +992,7 @@ const FriendProfilePage = () => {
                       Confirm & Pay
                     </button>
                     <button 
-                      onClick={() => setIsModalOpen(false)}
+                      onClick={closeModal}
                       className="w-full py-4 bg-white text-zinc-400 font-bold text-lg hover:text-zinc-600 transition-all"
                     >
                       Cancel
@@ -817,13 +1006,23 @@ const FriendProfilePage = () => {
       </AnimatePresence>
 
       <AnimatePresence>
-        {isChatOpen && (
+        {isChatOpen && user && (
           <ChatWidget 
             friend={friend} 
             onClose={() => setIsChatOpen(false)} 
+            onBlocked={() => navigate('/browse')}
+            currentUserId={user.id}
           />
         )}
       </AnimatePresence>
+      {isReportOpen && (
+        <ReportDialog
+          subjectType="user"
+          subjectId={friend.id}
+          name={friend.name}
+          onClose={() => setIsReportOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -867,80 +1066,111 @@ const HowItWorksPage = () => (
   </div>
 );
 
-const SafetyPage = () => (
-  <div className="py-24 bg-zinc-50">
-    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
-      <div className="bg-white rounded-[48px] p-12 md:p-20 border border-zinc-100 shadow-sm">
-        <div className="flex items-center gap-4 mb-8">
-          <div className="w-12 h-12 bg-rose-100 rounded-2xl flex items-center justify-center">
-            <ShieldCheck className="text-rose-600 w-6 h-6" />
-          </div>
-          <h1 className="text-4xl font-bold text-zinc-900">Safety & Legal Policy</h1>
-        </div>
+const SafetyPage = () => {
+  // Footer links point at sections such as #report.
+  const { hash } = useLocation();
+  useEffect(() => {
+    if (hash) document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+  }, [hash]);
 
-        <div className="prose prose-zinc max-w-none space-y-12">
-          <section>
-            <h2 className="text-2xl font-bold text-zinc-900 mb-4">Strict No-Physical Intimacy Policy</h2>
-            <p className="text-zinc-600 leading-relaxed">
-              FriendlyTime is a platform for **social companionship only**. We strictly prohibit any form of physical intimacy, sexual services, or escort-like behavior. Our mission is to combat loneliness through platonic, safe, and legal social interactions.
-            </p>
-          </section>
-
-          <section className="bg-amber-50 p-8 rounded-3xl border border-amber-100">
-            <h2 className="text-xl font-bold text-amber-900 mb-4 flex items-center gap-2">
-              <AlertTriangle className="w-5 h-5" /> Legal Disclaimer
-            </h2>
-            <p className="text-amber-800 text-sm leading-relaxed">
-              This platform provides social companionship services only and does not promote escorting, dating for money, or any illegal activity under Indian law (including the Immoral Traffic (Prevention) Act). Any user found violating these terms will be permanently banned and their details may be shared with law enforcement.
-            </p>
-          </section>
-
-          <section>
-            <h2 className="text-2xl font-bold text-zinc-900 mb-4">Verification Process</h2>
-            <ul className="space-y-4 text-zinc-600">
-              <li className="flex gap-3">
-                <CheckCircle2 className="w-5 h-5 text-rose-500 shrink-0" />
-                <span>**ID Verification:** All "Friends" must provide a valid government ID (Aadhaar/PAN) which is verified by our team.</span>
-              </li>
-              <li className="flex gap-3">
-                <CheckCircle2 className="w-5 h-5 text-rose-500 shrink-0" />
-                <span>**Mobile OTP:** Mandatory mobile number verification for all users.</span>
-              </li>
-              <li className="flex gap-3">
-                <CheckCircle2 className="w-5 h-5 text-rose-500 shrink-0" />
-                <span>**Review System:** Continuous monitoring through user ratings and reviews.</span>
-              </li>
-            </ul>
-          </section>
-
-          <section>
-            <h2 className="text-2xl font-bold text-zinc-900 mb-4">Emergency Contact System</h2>
-            <p className="text-zinc-600 leading-relaxed">
-              Our app includes a "Safety Button" during active bookings that allows you to instantly share your live location with emergency contacts or alert our 24/7 safety team.
-            </p>
-          </section>
+  return (
+    <div className="py-24 bg-zinc-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white rounded-[48px] p-12 md:p-20 border border-zinc-100 shadow-sm">
+          <div className="flex items-center gap-4 mb-8">
+            <div className="w-12 h-12 bg-rose-100 rounded-2xl flex items-center justify-center">
+              <ShieldCheck className="text-rose-600 w-6 h-6" />
+            </div>
+            <h1 className="text-4xl font-bold text-zinc-900">Safety & Legal Policy</h1>
+          </div>
+  
+          <div className="prose prose-zinc max-w-none space-y-12">
+            <section>
+              <h2 className="text-2xl font-bold text-zinc-900 mb-4">Strict No-Physical Intimacy Policy</h2>
+              <p className="text-zinc-600 leading-relaxed">
+                FriendlyTime is a platform for **social companionship only**. We strictly prohibit any form of physical intimacy, sexual services, or escort-like behavior. Our mission is to combat loneliness through platonic, safe, and legal social interactions.
+              </p>
+            </section>
+  
+            <section className="bg-amber-50 p-8 rounded-3xl border border-amber-100">
+              <h2 className="text-xl font-bold text-amber-900 mb-4 flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5" /> Legal Disclaimer
+              </h2>
+              <p className="text-amber-800 text-sm leading-relaxed">
+                This platform provides social companionship services only and does not promote escorting, dating for money, or any illegal activity under Indian law (including the Immoral Traffic (Prevention) Act). Any user found violating these terms will be permanently banned and their details may be shared with law enforcement.
+              </p>
+            </section>
+  
+            <section>
+              <h2 className="text-2xl font-bold text-zinc-900 mb-4">Verification Process</h2>
+              <ul className="space-y-4 text-zinc-600">
+                <li className="flex gap-3">
+                  <CheckCircle2 className="w-5 h-5 text-rose-500 shrink-0" />
+                  <span>**ID Verification:** All "Friends" must provide a valid government ID (Aadhaar/PAN) which is verified by our team.</span>
+                </li>
+                <li className="flex gap-3">
+                  <CheckCircle2 className="w-5 h-5 text-rose-500 shrink-0" />
+                  <span>**Mobile OTP:** Mandatory mobile number verification for all users.</span>
+                </li>
+                <li className="flex gap-3">
+                  <CheckCircle2 className="w-5 h-5 text-rose-500 shrink-0" />
+                  <span>**Review System:** Continuous monitoring through user ratings and reviews.</span>
+                </li>
+              </ul>
+            </section>
+  
+            <section id="report">
+              <h2 className="text-2xl font-bold text-zinc-900 mb-4">Reporting & Blocking</h2>
+              <p className="text-zinc-600 leading-relaxed">
+                Use "Report" on any profile, chat message or booking to tell our safety team about misconduct. Your recent messages with that person are attached automatically, and accounts reported by several people are restricted while we review them. Blocking someone stops them from messaging or booking you and hides each of you from the other.
+              </p>
+            </section>
+  
+            <section>
+              <h2 className="text-2xl font-bold text-zinc-900 mb-4">Emergency Contact System</h2>
+              <p className="text-zinc-600 leading-relaxed">
+                Our app includes a "Safety Button" during active bookings that allows you to instantly share your live location with emergency contacts or alert our 24/7 safety team.
+              </p>
+            </section>
+          </div>
         </div>
       </div>
     </div>
-  </div>
-);
+  );
+};
 
 export default function App() {
   return (
     <Router>
-      <div className="flex flex-col min-h-screen">
-        <Navbar />
-        <main className="flex-grow">
-          <Routes>
-            <Route path="/" element={<HomePage />} />
-            <Route path="/browse" element={<BrowsePage />} />
-            <Route path="/how-it-works" element={<HowItWorksPage />} />
-            <Route path="/safety" element={<SafetyPage />} />
-            <Route path="/friend/:id" element={<FriendProfilePage />} />
-          </Routes>
-        </main>
-        <Footer />
-      </div>
+      <AuthProvider>
+        <ChatProvider>
+        <div className="flex flex-col min-h-screen">
+          <Navbar />
+          <CheckInBanner />
+          <main className="flex-grow">
+            <Routes>
+              <Route path="/" element={<HomePage />} />
+              <Route path="/browse" element={<BrowsePage />} />
+              <Route path="/how-it-works" element={<HowItWorksPage />} />
+              <Route path="/safety" element={<SafetyPage />} />
+              <Route path="/friend/:id" element={<FriendProfilePage />} />
+              <Route path="/login" element={<LoginPage />} />
+              <Route path="/signup" element={<SignupPage />} />
+              <Route path="/bookings" element={<BookingsPage />} />
+              <Route path="/messages" element={<MessagesPage />} />
+              <Route path="/availability" element={<AvailabilityPage />} />
+              <Route path="/become-a-friend" element={<BecomeFriendPage />} />
+              <Route path="/profile" element={<ProfilePage />} />
+              <Route path="/verify-phone" element={<VerifyPhonePage />} />
+              <Route path="/admin" element={<AdminPage />} />
+              <Route path="/sos/:token" element={<SafetySharePage />} />
+              <Route path="/emergency-contacts/:token" element={<EmergencyContactInvitePage />} />
+            </Routes>
+          </main>
+          <Footer />
+        </div>
+        </ChatProvider>
+      </AuthProvider>
     </Router>
   );
 }
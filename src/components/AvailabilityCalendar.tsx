@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { Availability, AvailabilityDay } from '../types';
+
+const SLOT_STEP_MINUTES = 30;
+
+function pad(n: number) {
+  return String(n).padStart(2, '0');
+}
+
+// Start times every half hour where a meeting of the given length fits inside a free slot.
+function startTimesFor(day: AvailabilityDay, durationHours: number) {
+  const step = SLOT_STEP_MINUTES * 60 * 1000;
+  const length = durationHours * 60 * 60 * 1000;
+  return day.slots.flatMap(slot => {
+    const starts: string[] = [];
+    const end = Date.parse(slot.endAt);
+    for (let t = Math.ceil(Date.parse(slot.startAt) / step) * step; t + length <= end; t += step) {
+      starts.push(new Date(t).toISOString());
+    }
+    return starts;
+  });
+}
+
+const AvailabilityCalendar = ({
+  friendId,
+  durationHours,
+  selectedStart,
+  onSelect
+}: {
+  friendId: number;
+  durationHours: number;
+  selectedStart: string | null;
+  onSelect: (startAt: string) => void;
+}) => {
+  const today = new Date();
+  const [month, setMonth] = useState({ year: today.getFullYear(), month: today.getMonth() });
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const daysInMonth = new Date(Date.UTC(month.year, month.month + 1, 0)).getUTCDate();
+  const from = `${month.year}-${pad(month.month + 1)}-01`;
+  const to = `${month.year}-${pad(month.month + 1)}-${pad(daysInMonth)}`;
+  // The header starts on Monday; getUTCDay() counts from Sunday.
+  const leadingBlanks = (new Date(Date.UTC(month.year, month.month, 1)).getUTCDay() + 6) % 7;
+  const isCurrentMonth = month.year === today.getFullYear() && month.month === today.getMonth();
+
+  useEffect(() => {
+    setAvailability(null);
+    fetch(`/api/friends/${friendId}/availability?from=${from}&to=${to}`)
+      .then(res => res.json())
+      .then(data => setAvailability(data));
+  }, [friendId, from, to]);
+
+  const changeMonth = (delta: number) => {
+    const next = new Date(month.year, month.month + delta, 1);
+    setMonth({ year: next.getFullYear(), month: next.getMonth() });
+    setSelectedDate(null);
+  };
+
+  const selectedDay = availability?.days.find(day => day.date === selectedDate);
+  const startTimes = selectedDay ? startTimesFor(selectedDay, durationHours) : [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <button
+          onClick={() => changeMonth(-1)}
+          disabled={isCurrentMonth}
+          className="p-2 hover:bg-zinc-50 rounded-full transition-colors disabled:opacity-30"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="font-bold text-zinc-900">
+          {new Date(month.year, month.month, 1).toLocaleDateString([], { month: 'long', year: 'numeric' })}
+        </span>
+        <button onClick={() => changeMonth(1)} className="p-2 hover:bg-zinc-50 rounded-full transition-colors">
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-2">
+        {['M', 'T', 'W', 'T', 'F', 'S', 'S'].map((day, i) => (
+          <div key={i} className="text-center text-[10px] font-bold text-zinc-400 uppercase mb-2">{day}</div>
+        ))}
+        {Array.from({ length: leadingBlanks }).map((_, i) => <div key={`blank-${i}`} />)}
+        {Array.from({ length: daysInMonth }).map((_, i) => {
+          const day = availability?.days[i];
+          const available = day ? startTimesFor(day, durationHours).length > 0 : false;
+          return (
+            <button
+              key={i}
+              disabled={!available}
+              onClick={() => day && setSelectedDate(day.date)}
+              className={cn(
+                "h-12 rounded-xl flex items-center justify-center text-sm font-medium border transition-colors",
+                !availability && "animate-pulse",
+                available ? "bg-rose-50 border-rose-100 text-rose-700 hover:bg-rose-100" : "bg-zinc-50 border-zinc-100 text-zinc-400",
+                day && day.date === selectedDate && "bg-rose-600 border-rose-600 text-white hover:bg-rose-600"
+              )}
+            >
+              {i + 1}
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedDay && (
+        <div className="mt-6">
+          <div className="text-xs font-bold text-zinc-400 uppercase tracking-widest mb-3">
+            Start times for {durationHours} {durationHours === 1 ? 'hour' : 'hours'}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {startTimes.map(startAt => (
+              <button
+                key={startAt}
+                onClick={() => onSelect(startAt)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-semibold border transition-colors",
+                  startAt === selectedStart
+                    ? "bg-rose-600 border-rose-600 text-white"
+                    : "bg-white border-zinc-200 text-zinc-700 hover:border-rose-200"
+                )}
+              >
+                {new Date(startAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="mt-4 text-xs text-zinc-400 flex items-center gap-1.5">
+        <span className="w-2 h-2 bg-rose-500 rounded-full" /> Available slots
+        {availability && <> · Dates follow {availability.timezone}, times are shown in your time zone · Book at least {availability.minNoticeHours}h ahead</>}
+      </p>
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { requestJson } from '../lib/api';
+import { parseDbDate } from '../lib/utils';
+import type { BlockedUser } from '../types';
+
+// People the user has blocked. They can't message or book each other, and neither shows up
+// in the other's search.
+const BlockedUsersCard = () => {
+  const [blocks, setBlocks] = useState<BlockedUser[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/me/blocks')
+      .then(res => res.json())
+      .then(setBlocks);
+  }, []);
+
+  const unblock = async (id: number) => {
+    setError('');
+    try {
+      setBlocks(await requestJson<BlockedUser[]>(`/api/users/${id}/block`, 'DELETE'));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!blocks || blocks.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-4">
+      <h2 className="text-xl font-bold text-zinc-900">Blocked People</h2>
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      <ul className="divide-y divide-zinc-100">
+        {blocks.map(block => (
+          <li key={block.id} className="py-3 flex items-center justify-between gap-4">
+            <div>
+              <p className="font-semibold text-zinc-900">{block.name}</p>
+              <p className="text-xs text-zinc-400">Blocked {parseDbDate(block.created_at).toLocaleDateString()}</p>
+            </div>
+            <button onClick={() => unblock(block.id)} className="text-sm font-bold text-rose-600 hover:text-rose-700">Unblock</button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BlockedUsersCard;
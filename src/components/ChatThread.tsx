@@ -0,0 +1,389 @@
+import { useEffect, useRef, useState, type ChangeEvent, type UIEvent } from 'react';
+import { Check, CheckCheck, FileText, Flag, Loader2, Paperclip, Send, X } from 'lucide-react';
+import { useChat, type ChatFrame } from '../context/ChatContext';
+import {
+  ACK_TIMEOUT_MS,
+  ATTACHMENT_ACCEPT,
+  TYPING_REPEAT_MS,
+  TYPING_TIMEOUT_MS,
+  formatFileSize,
+  formatLastSeen,
+  lastMessageId,
+  mergeMessages,
+  newClientId,
+  uploadAttachment
+} from '../lib/chat';
+import { cn, parseDbDate } from '../lib/utils';
+import ReportDialog from './ReportDialog';
+import type { ChatAttachment, Message, MessagePage, Presence, ReportSubject } from '../types';
+
+// Images show as a thumbnail that opens the full picture; other files as a download card.
+const AttachmentPreview = ({ attachment, own }: { attachment: ChatAttachment; own: boolean }) => {
+  const url = `/api/attachments/${attachment.id}`;
+  if (attachment.kind === 'image') {
+    return (
+      <a href={url} target="_blank" rel="noreferrer" className="block">
+        <img
+          src={`${url}/thumbnail`}
+          alt={attachment.file_name}
+          width={attachment.width ?? undefined}
+          height={attachment.height ?? undefined}
+          className="rounded-xl max-w-full h-auto max-h-60 object-cover"
+        />
+      </a>
+    );
+  }
+  return (
+    <a href={url} download={attachment.file_name} className={cn(
+      "flex items-center gap-3 rounded-xl px-3 py-2",
+      own ? "bg-white/10 hover:bg-white/20" : "bg-zinc-50 hover:bg-zinc-100"
+    )}>
+      <FileText className="w-6 h-6 shrink-0" />
+      <span className="min-w-0">
+        <span className="block truncate font-medium">{attachment.file_name}</span>
+        <span className={cn("block text-[10px]", own ? "text-rose-100" : "text-zinc-400")}>{formatFileSize(attachment.size)}</span>
+      </span>
+    </a>
+  );
+};
+
+// One conversation: header with presence, the messages and the composer. Used by the floating
+// chat on a friend's profile and by the inbox page.
+const ChatThread = ({
+  counterpart,
+  currentUserId,
+  onClose,
+  onBlocked
+}: {
+  counterpart: { id: number; name: string };
+  currentUserId: number;
+  onClose?: () => void;
+  onBlocked: () => void;
+}) => {
+  const { connected, reconnecting, send, subscribe } = useChat();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [input, setInput] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [reporting, setReporting] = useState<{ type: ReportSubject; id: number } | null>(null);
+  const [blocked, setBlocked] = useState(false);
+  const [presence, setPresence] = useState<Presence | null>(null);
+  const [typing, setTyping] = useState(false);
+  // Cursor for the page before the oldest message loaded; null once we have the start.
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom to keep while older messages are added above.
+  const keepScrollFromBottom = useRef<number | null>(null);
+  const lastMessageKey = useRef<unknown>(undefined);
+  const typingTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const lastTypingSent = useRef(0);
+  const ackTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // The socket handlers need the latest list to resume from and to resend what is queued.
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const markFailed = (clientId: string) => {
+    ackTimers.current.delete(clientId);
+    setMessages(prev => prev.map(m => m.client_id === clientId && m.pending ? { ...m, pending: 'failed' } : m));
+  };
+
+  // Sends a queued message. While offline it stays queued and goes out on reconnect; once sent,
+  // it fails if the server doesn't ack it in time.
+  const transmit = (message: Message) => {
+    const clientId = message.client_id!;
+    const frame = { type: 'chat', clientId, receiverId: counterpart.id, content: message.content, attachmentId: message.attachment?.id };
+    if (!send(frame)) return;
+    clearTimeout(ackTimers.current.get(clientId));
+    ackTimers.current.set(clientId, setTimeout(() => markFailed(clientId), ACK_TIMEOUT_MS));
+  };
+
+  useEffect(() => {
+    const timers = ackTimers.current;
+
+    fetch(`/api/messages/${counterpart.id}`)
+      .then(res => res.json())
+      .then((page: MessagePage) => {
+        setMessages(prev => mergeMessages(prev, page.messages));
+        setOlderCursor(page.nextCursor);
+      });
+
+    // On open, and again after every reconnect: watch presence, catch up on anything sent while
+    // we were away (the history frame also marks it read) and resend what is still queued.
+    const start = () => {
+      if (!send({ type: 'presence', userId: counterpart.id })) return;
+      send({ type: 'resume', withUserId: counterpart.id, afterId: lastMessageId(messagesRef.current) });
+      messagesRef.current.filter(m => m.pending === 'sending').forEach(transmit);
+    };
+
+    const handleFrame = (data: ChatFrame) => {
+      if (data.type === 'open') {
+        start();
+      } else if (data.type === 'close') {
+        // Anything still waiting for an ack is resent, with the same client id, once we're back.
+        timers.forEach(clearTimeout);
+        timers.clear();
+      } else if (data.type === 'error') {
+        if (data.clientId && !messagesRef.current.some(m => m.client_id === data.clientId)) return;
+        setError(data.error);
+        if (data.clientId) {
+          clearTimeout(timers.get(data.clientId));
+          markFailed(data.clientId);
+        }
+      } else if (data.type === 'sent') {
+        // The ack for a message we sent, as it was stored; moderation may have changed or kept it back.
+        if (!messagesRef.current.some(m => m.client_id === data.clientId)) return;
+        clearTimeout(timers.get(data.clientId));
+        timers.delete(data.clientId);
+        if (data.notice) setNotice(data.notice);
+        setMessages(prev => prev.map(m => m.client_id === data.clientId
+          ? { ...m, id: data.messageId, kind: data.kind, content: data.content, attachment: data.attachment, created_at: data.createdAt, moderation_status: data.status, pending: undefined }
+          : m));
+      } else if (data.type === 'history' && data.withUserId === counterpart.id) {
+        // After a long time away the server sends only the latest page; older ones load on scroll.
+        setMessages(prev => mergeMessages(data.reset ? prev.filter(m => m.pending) : prev, data.messages));
+        if (data.reset) setOlderCursor(data.nextCursor);
+        send({ type: 'read', senderId: counterpart.id });
+      } else if (data.type === 'removed' && data.senderId === counterpart.id) {
+        setMessages(prev => prev.filter(m => m.id !== data.messageId));
+      } else if (data.type === 'chat' && data.senderId === counterpart.id) {
+        setTyping(false);
+        setMessages(prev => mergeMessages(prev, [{
+          id: data.id,
+          sender_id: data.senderId,
+          receiver_id: currentUserId,
+          kind: data.kind,
+          content: data.content,
+          attachment: data.attachment,
+          created_at: data.createdAt
+        }]));
+        send({ type: 'read', senderId: counterpart.id });
+      } else if (data.type === 'receipt') {
+        const field = data.status === 'read' ? 'read_at' : 'delivered_at';
+        setMessages(prev => prev.map(m => m.id !== undefined && data.messageIds.includes(m.id)
+          ? { ...m, [field]: data.at, delivered_at: m.delivered_at ?? data.at }
+          : m));
+      } else if (data.type === 'typing' && data.senderId === counterpart.id) {
+        clearTimeout(typingTimer.current);
+        setTyping(data.typing);
+        // A lost "stopped typing" signal shouldn't leave the indicator on for good.
+        if (data.typing) typingTimer.current = setTimeout(() => setTyping(false), TYPING_TIMEOUT_MS);
+      } else if (data.type === 'presence' && data.userId === counterpart.id) {
+        setPresence({ online: data.online, lastSeenAt: data.lastSeenAt });
+      }
+    };
+
+    const unsubscribe = subscribe(handleFrame);
+    start();
+
+    return () => {
+      unsubscribe();
+      clearTimeout(typingTimer.current);
+      timers.forEach(clearTimeout);
+      timers.clear();
+    };
+  }, [counterpart.id, currentUserId, send, subscribe]);
+
+  // Follow new messages at the bottom, but stay put when older ones are added above.
+  useEffect(() => {
+    const list = scrollRef.current;
+    if (!list) return;
+    if (keepScrollFromBottom.current !== null) {
+      list.scrollTop = list.scrollHeight - keepScrollFromBottom.current;
+      keepScrollFromBottom.current = null;
+      return;
+    }
+    const last = messages[messages.length - 1];
+    const key = last?.id ?? last?.client_id;
+    if (key !== lastMessageKey.current) list.scrollTo(0, list.scrollHeight);
+    lastMessageKey.current = key;
+  }, [messages]);
+
+  const loadOlder = async () => {
+    if (!olderCursor || loadingOlder) return;
+    setLoadingOlder(true);
+    try {
+      const page: MessagePage = await fetch(`/api/messages/${counterpart.id}?cursor=${olderCursor}`).then(res => res.json());
+      const list = scrollRef.current;
+      if (list) keepScrollFromBottom.current = list.scrollHeight - list.scrollTop;
+      setMessages(prev => mergeMessages(prev, page.messages));
+      setOlderCursor(page.nextCursor);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+    if (event.currentTarget.scrollTop < 40) loadOlder();
+  };
+
+  const signalTyping = (isTyping: boolean) => {
+    const now = Date.now();
+    if (isTyping && now - lastTypingSent.current < TYPING_REPEAT_MS) return;
+    if (send({ type: 'typing', receiverId: counterpart.id, typing: isTyping })) lastTypingSent.current = isTyping ? now : 0;
+  };
+
+  const sendMessage = (attachment?: ChatAttachment) => {
+    if (!input.trim() && !attachment) return;
+
+    const message: Message = {
+      client_id: newClientId(),
+      sender_id: currentUserId,
+      receiver_id: counterpart.id,
+      kind: attachment?.kind ?? 'text',
+      content: input.trim(),
+      attachment,
+      created_at: new Date().toISOString(),
+      pending: 'sending'
+    };
+    setMessages(prev => [...prev, message]);
+    transmit(message);
+    setInput('');
+    setError('');
+    setNotice('');
+    signalTyping(false);
+  };
+
+  // The file is uploaded first and then sent like any message, with what's typed as its caption.
+  const sendFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setUploading(true);
+    setError('');
+    try {
+      sendMessage(await uploadAttachment(file, counterpart.id));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Resends with the same client id, so a message that did reach the server isn't stored twice.
+  const retry = (message: Message) => {
+    setMessages(prev => prev.map(m => m.client_id === message.client_id ? { ...m, pending: 'sending' } : m));
+    transmit(message);
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="p-4 bg-zinc-900 text-white flex justify-between items-center">
+        <div className="flex items-center gap-3">
+          <img src={`https://picsum.photos/seed/${counterpart.id}/100/100`} className="w-8 h-8 rounded-full object-cover" />
+          <div>
+            <div className="text-sm font-bold">{counterpart.name}</div>
+            <div className={cn(
+              "text-[10px] font-bold uppercase tracking-widest",
+              typing || presence?.online ? "text-rose-400" : "text-zinc-400"
+            )}>
+              {typing ? 'Typing…' : presence?.online ? 'Online' : presence ? formatLastSeen(presence.lastSeenAt) : ''}
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setReporting({ type: 'user', id: counterpart.id })} title={`Report ${counterpart.name}`} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+            <Flag className="w-4 h-4" />
+          </button>
+          {onClose && (
+            <button onClick={onClose} className="p-1 hover:bg-white/10 rounded-full transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 space-y-4 bg-zinc-50">
+        {loadingOlder && <p className="text-center text-[10px] text-zinc-400">Loading earlier messages…</p>}
+        {messages.map(msg => (
+          <div key={msg.id ?? msg.client_id} className={cn(
+            "flex flex-col max-w-[80%]",
+            msg.sender_id === currentUserId ? "ml-auto items-end" : "items-start"
+          )}>
+            <div className={cn(
+              "px-4 py-2 rounded-2xl text-sm",
+              msg.attachment && "p-1.5 space-y-1",
+              msg.sender_id === currentUserId
+                ? "bg-rose-600 text-white rounded-tr-none"
+                : "bg-white text-zinc-900 border border-zinc-100 rounded-tl-none shadow-sm"
+            )}>
+              {msg.attachment && <AttachmentPreview attachment={msg.attachment} own={msg.sender_id === currentUserId} />}
+              {msg.content && <div className={cn(msg.attachment && "px-2.5 pb-1")}>{msg.content}</div>}
+            </div>
+            <span className="text-[10px] text-zinc-400 mt-1">
+              {parseDbDate(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              {msg.pending === 'failed' ? (
+                <span className="ml-2 text-rose-600 font-bold">
+                  Not sent · <button onClick={() => retry(msg)} className="underline hover:text-rose-700">Retry</button>
+                </span>
+              ) : msg.pending === 'sending' ? (
+                <span className="ml-2">{connected ? 'Sending…' : 'Waiting for connection'}</span>
+              ) : (msg.moderation_status === 'held' || msg.moderation_status === 'blocked') ? (
+                <span className="ml-2 text-amber-600 font-bold">{msg.moderation_status === 'held' ? 'Held for review' : 'Not delivered'}</span>
+              ) : msg.sender_id === currentUserId && (
+                <span className={cn("ml-2 inline-flex items-center gap-0.5 align-middle", msg.read_at && "text-rose-500")}>
+                  {msg.read_at || msg.delivered_at ? <CheckCheck className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                  {msg.read_at ? 'Read' : msg.delivered_at ? 'Delivered' : 'Sent'}
+                </span>
+              )}
+              {msg.sender_id !== currentUserId && msg.id && (
+                <button onClick={() => setReporting({ type: 'message', id: msg.id! })} className="ml-2 hover:text-rose-600">Report</button>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 border-t border-zinc-100 bg-white">
+        {reconnecting && <p className="text-xs text-zinc-500 mb-2">Connection lost. Reconnecting…</p>}
+        {error && <p className="text-xs text-rose-600 mb-2">{error}</p>}
+        {notice && <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2 mb-2">{notice}</p>}
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept={ATTACHMENT_ACCEPT} onChange={sendFile} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            title="Send a photo or PDF"
+            className="p-2 text-zinc-500 rounded-xl hover:bg-zinc-100 transition-colors disabled:opacity-50"
+          >
+            {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Paperclip className="w-5 h-5" />}
+          </button>
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              signalTyping(e.target.value.trim() !== '');
+            }}
+            onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
+            placeholder="Type a message..."
+            className="flex-1 bg-zinc-50 border border-zinc-100 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-rose-500/20"
+          />
+          <button
+            onClick={() => sendMessage()}
+            className="p-2 bg-rose-600 text-white rounded-xl hover:bg-rose-700 transition-colors"
+          >
+            <Send className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {reporting && (
+        <ReportDialog
+          subjectType={reporting.type}
+          subjectId={reporting.id}
+          name={counterpart.name}
+          onReported={setBlocked}
+          onClose={() => {
+            setReporting(null);
+            if (blocked) onBlocked();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ChatThread;
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ShieldCheck } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useChat } from '../context/ChatContext';
+import { postJson } from '../lib/api';
+import type { SafetyCheckIn } from '../types';
+
+// "Are you safe?" at the top of every page while a check-in is waiting on the user. New ones
+// arrive over the chat socket; anything left unanswered is escalated by the server.
+const CheckInBanner = () => {
+  const { user } = useAuth();
+  const { subscribe } = useChat();
+  const [checkIns, setCheckIns] = useState<SafetyCheckIn[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user) {
+      setCheckIns([]);
+      return;
+    }
+    const load = () => fetch('/api/me/check-ins')
+      .then(res => res.json())
+      .then(setCheckIns);
+    load();
+    return subscribe(frame => {
+      if (frame.type === 'check-in' || frame.type === 'open') load();
+    });
+  }, [user?.id, subscribe]);
+
+  const confirm = async (checkIn: SafetyCheckIn) => {
+    setError('');
+    try {
+      await postJson(`/api/check-ins/${checkIn.id}/confirm`);
+      setCheckIns(prev => prev.filter(c => c.id !== checkIn.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (checkIns.length === 0) return null;
+
+  return (
+    <div className="bg-emerald-50 border-b border-emerald-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 space-y-2">
+        {checkIns.map(checkIn => (
+          <div key={checkIn.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="flex items-center gap-2 text-sm text-emerald-900">
+              <ShieldCheck className="w-5 h-5 text-emerald-600 shrink-0" />
+              <span>
+                <span className="font-bold">Are you safe?</span>{' '}
+                Your {checkIn.activity} with {checkIn.other_user_name} {checkIn.kind === 'start' ? 'has started' : 'should have finished'}.
+                {checkIn.status === 'missed' && ' We alerted our safety team when we didn\'t hear back.'}
+              </span>
+            </p>
+            <div className="flex items-center gap-3 shrink-0">
+              <Link to="/bookings" className="text-xs font-bold text-rose-600 hover:text-rose-700">I need help</Link>
+              <button onClick={() => confirm(checkIn)} className="px-4 py-2 rounded-xl text-xs font-bold bg-emerald-600 text-white hover:bg-emerald-700">
+                I'm safe
+              </button>
+            </div>
+          </div>
+        ))}
+        {error && <p className="text-xs text-rose-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CheckInBanner;
@@ -0,0 +1,131 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { CheckCircle2, Clock, HeartHandshake, XCircle } from 'lucide-react';
+import { postJson, requestJson } from '../lib/api';
+import { inputClass, labelClass } from '../lib/utils';
+import type { EmergencyContact } from '../types';
+
+const MAX_CONTACTS = 3;
+
+const STATUS_NOTES = {
+  verified: { icon: CheckCircle2, className: 'text-emerald-600', label: 'Confirmed' },
+  pending: { icon: Clock, className: 'text-amber-600', label: 'Waiting for them to confirm' },
+  declined: { icon: XCircle, className: 'text-zinc-400', label: 'Said no' }
+};
+
+// People we text if the user presses the Safety Button or goes quiet after a meeting. Each one
+// gets a link to confirm first; until they do, they are never alerted.
+const EmergencyContactsCard = () => {
+  const [contacts, setContacts] = useState<EmergencyContact[] | null>(null);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [relationship, setRelationship] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/me/emergency-contacts')
+      .then(res => res.json())
+      .then(setContacts);
+  }, []);
+
+  const run = async (action: () => Promise<EmergencyContact[]>) => {
+    setBusy(true);
+    setError('');
+    try {
+      setContacts(await action());
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const add = async (e: FormEvent) => {
+    e.preventDefault();
+    if (await run(() => postJson('/api/me/emergency-contacts', { name, phone, relationship }))) {
+      setName('');
+      setPhone('');
+      setRelationship('');
+    }
+  };
+
+  const remove = (contact: EmergencyContact) => {
+    if (!window.confirm(`Remove ${contact.name} from your emergency contacts?`)) return;
+    run(() => requestJson(`/api/me/emergency-contacts/${contact.id}`, 'DELETE'));
+  };
+
+  if (!contacts) return null;
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-6">
+      <div>
+        <h3 className="text-2xl font-bold text-zinc-900 flex items-center gap-2">
+          <HeartHandshake className="w-6 h-6 text-rose-600" /> Emergency Contacts
+        </h3>
+        <p className="text-sm text-zinc-500 mt-1">
+          We text them if you press the Safety Button or don't answer a check-in after a meeting. They confirm by text before they are added.
+        </p>
+      </div>
+
+      {contacts.length > 0 && (
+        <ul className="divide-y divide-zinc-100">
+          {contacts.map(contact => {
+            const note = STATUS_NOTES[contact.status];
+            return (
+              <li key={contact.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div>
+                  <p className="font-semibold text-zinc-900">
+                    {contact.name}
+                    {contact.relationship && <span className="font-normal text-zinc-500"> · {contact.relationship}</span>}
+                  </p>
+                  <p className="text-xs text-zinc-400">{contact.phone}</p>
+                  <p className={`flex items-center gap-1 text-xs font-semibold ${note.className}`}>
+                    <note.icon className="w-3.5 h-3.5" /> {note.label}
+                  </p>
+                </div>
+                <div className="flex gap-4">
+                  {contact.status === 'pending' && (
+                    <button
+                      onClick={() => run(() => postJson(`/api/me/emergency-contacts/${contact.id}/resend`))}
+                      disabled={busy}
+                      className="text-sm font-bold text-zinc-600 hover:text-zinc-900 disabled:opacity-60"
+                    >
+                      Text again
+                    </button>
+                  )}
+                  <button onClick={() => remove(contact)} disabled={busy} className="text-sm font-bold text-rose-600 hover:text-rose-700 disabled:opacity-60">Remove</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {contacts.length < MAX_CONTACTS && (
+        <form onSubmit={add} className="grid sm:grid-cols-3 gap-3 items-end">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input required value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Mobile Number</label>
+            <input type="tel" required placeholder="98765 43210" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Relationship (optional)</label>
+            <input placeholder="Sister, flatmate…" value={relationship} onChange={(e) => setRelationship(e.target.value)} className={inputClass} />
+          </div>
+          <button type="submit" disabled={busy} className="sm:col-span-3 justify-self-start px-6 py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm hover:bg-zinc-800 transition-colors disabled:opacity-60">
+            Add and Text Them
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+    </div>
+  );
+};
+
+export default EmergencyContactsCard;
@@ -0,0 +1,83 @@
+import { inputClass, labelClass } from '../lib/utils';
+import TermInput from './TermInput';
+
+// Filter fields on the Browse page. Values are the raw URL parameters so the page can be
+// shared or bookmarked exactly as it is.
+export const FILTER_KEYS = ['city', 'language', 'interest', 'activity', 'minPrice', 'maxPrice', 'minAge', 'maxAge', 'minRating', 'verified', 'availableOn'] as const;
+
+export const SORT_OPTIONS = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'rating', label: 'Top rated' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'newest', label: 'Newest' }
+];
+
+const TERM_LABELS = { language: 'Language', interest: 'Interest', activity: 'Activity' };
+const TERM_PLACEHOLDERS = { language: 'e.g. Hindi', interest: 'e.g. Movies', activity: 'e.g. Travel Buddy' };
+
+const FriendFilters = ({
+  values,
+  onChange,
+  onClear
+}: {
+  values: URLSearchParams;
+  onChange: (key: string, value: string) => void;
+  onClear: () => void;
+}) => {
+  const field = (key: string, label: string, type = 'text', placeholder = '') => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type={type}
+        min={type === 'number' ? 0 : undefined}
+        placeholder={placeholder}
+        value={values.get(key) || ''}
+        onChange={(e) => onChange(key, e.target.value)}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm mb-12">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {field('city', 'City', 'text', 'Any city')}
+        {(['language', 'interest', 'activity'] as const).map(kind => (
+          <div key={kind}>
+            <label className={labelClass}>{TERM_LABELS[kind]}</label>
+            <TermInput kind={kind} value={values.get(kind) || ''} onChange={(value) => onChange(kind, value)} placeholder={TERM_PLACEHOLDERS[kind]} />
+          </div>
+        ))}
+        {field('availableOn', 'Available On', 'date')}
+        {field('minPrice', 'Min ₹/Hour', 'number')}
+        {field('maxPrice', 'Max ₹/Hour', 'number')}
+        {field('minAge', 'Min Age', 'number')}
+        {field('maxAge', 'Max Age', 'number')}
+        <div>
+          <label className={labelClass}>Minimum Rating</label>
+          <select value={values.get('minRating') || ''} onChange={(e) => onChange('minRating', e.target.value)} className={inputClass}>
+            <option value="">Any</option>
+            <option value="4.5">4.5+</option>
+            <option value="4">4+</option>
+            <option value="3">3+</option>
+          </select>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-semibold text-zinc-700 pt-6">
+          <input
+            type="checkbox"
+            checked={values.get('verified') === '1'}
+            onChange={(e) => onChange('verified', e.target.checked ? '1' : '')}
+            className="w-4 h-4 accent-rose-600"
+          />
+          Verified only
+        </label>
+      </div>
+      <button onClick={onClear} className="mt-4 text-xs font-bold text-rose-600 hover:text-rose-700">
+        Clear filters
+      </button>
+    </div>
+  );
+};
+
+export default FriendFilters;
@@ -0,0 +1,119 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { cn, inputClass, labelClass, parseDbDate } from '../lib/utils';
+import type { DocumentType, IdVerification, VerificationState } from '../types';
+
+const STATUS_TEXT: Record<IdVerification['status'], string> = {
+  pending: 'Under review',
+  approved: 'Verified',
+  rejected: 'Rejected',
+  expired: 'Expired'
+};
+
+const STATUS_STYLES: Record<IdVerification['status'], string> = {
+  pending: 'bg-amber-50 text-amber-700',
+  approved: 'bg-emerald-50 text-emerald-700',
+  rejected: 'bg-rose-50 text-rose-700',
+  expired: 'bg-zinc-100 text-zinc-600'
+};
+
+// Upload a government ID and follow its review; approval is what earns the verified badge.
+const IdVerificationCard = () => {
+  const [state, setState] = useState<VerificationState | null>(null);
+  const [documentType, setDocumentType] = useState<DocumentType>('aadhaar');
+  const [documentNumber, setDocumentNumber] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = () => fetch('/api/me/verification').then(res => res.json()).then(setState);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch('/api/me/verification', {
+        method: 'POST',
+        headers: { 'Content-Type': file.type, 'X-Document-Type': documentType, 'X-Document-Number': documentNumber },
+        body: file
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Upload failed');
+      setDocumentNumber('');
+      setFile(null);
+      await load();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!state) return null;
+  const { latest } = state;
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-2xl font-bold text-zinc-900 flex items-center gap-2">
+          <ShieldCheck className="w-6 h-6 text-rose-600" /> ID Verification
+        </h3>
+        {latest && (
+          <span className={cn("px-3 py-1 rounded-full text-xs font-bold", STATUS_STYLES[latest.status])}>{STATUS_TEXT[latest.status]}</span>
+        )}
+      </div>
+
+      {latest ? (
+        <div className="text-sm text-zinc-600 space-y-1">
+          <p>
+            {latest.document_type === 'aadhaar' ? 'Aadhaar' : 'PAN'} <span className="font-mono">{latest.masked_number}</span>,
+            submitted {parseDbDate(latest.created_at).toLocaleDateString()}
+          </p>
+          {latest.status === 'approved' && latest.expires_at && <p>Valid until {parseDbDate(latest.expires_at).toLocaleDateString()}.</p>}
+          {latest.status === 'rejected' && <p className="text-rose-600">{latest.reason}</p>}
+        </div>
+      ) : (
+        <p className="text-sm text-zinc-500">Verify your Aadhaar or PAN to earn the verified badge. Only the last four characters of the number are ever shown.</p>
+      )}
+
+      {state.canSubmit ? (
+        <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className={labelClass}>Document</label>
+            <select value={documentType} onChange={(e) => setDocumentType(e.target.value as DocumentType)} className={inputClass}>
+              <option value="aadhaar">Aadhaar</option>
+              <option value="pan">PAN</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{documentType === 'aadhaar' ? 'Aadhaar Number' : 'PAN'}</label>
+            <input type="text" required autoComplete="off" value={documentNumber} onChange={(e) => setDocumentNumber(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Scan (JPEG, PNG or PDF)</label>
+            <input type="file" required accept="image/jpeg,image/png,application/pdf" onChange={(e) => setFile(e.target.files?.[0] || null)} className="text-sm" />
+          </div>
+          <button
+            type="submit"
+            disabled={submitting || !file}
+            className="md:col-span-3 px-6 py-3 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 transition-colors disabled:opacity-60"
+          >
+            {submitting ? 'Uploading...' : latest?.status === 'approved' ? 'Renew Verification' : 'Submit for Review'}
+          </button>
+        </form>
+      ) : (
+        state.blocker && <p className="text-xs text-zinc-400">{state.blocker}.</p>
+      )}
+
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+    </div>
+  );
+};
+
+export default IdVerificationCard;
@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { useChat } from '../context/ChatContext';
+import { postJson } from '../lib/api';
+import { cn, parseDbDate } from '../lib/utils';
+import type { AppNotification } from '../types';
+
+// The bell in the Navbar. The list is loaded once and kept current from `notification` frames
+// on the chat socket, reloading whenever the socket reconnects in case some were missed.
+const NotificationBell = () => {
+  const { subscribe } = useChat();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const container = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const load = () => fetch('/api/me/notifications')
+      .then(res => res.json())
+      .then((data: { notifications: AppNotification[]; unreadCount: number }) => {
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      });
+    load();
+    return subscribe(frame => {
+      if (frame.type === 'open') load();
+      if (frame.type === 'notification') {
+        setNotifications(prev => [frame.notification, ...prev.filter(n => n.id !== frame.notification.id)]);
+        setUnreadCount(frame.unreadCount);
+      }
+    });
+  }, [subscribe]);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!container.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const markRead = (ids: number[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n));
+  };
+
+  const openNotification = async (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.read_at) {
+      markRead([notification.id]);
+      postJson<{ unreadCount: number }>(`/api/me/notifications/${notification.id}/read`)
+        .then(data => setUnreadCount(data.unreadCount))
+        .catch(() => {});
+    }
+    if (notification.url) navigate(notification.url);
+  };
+
+  const readAll = async () => {
+    markRead(notifications.map(n => n.id));
+    setUnreadCount(0);
+    await postJson('/api/me/notifications/read-all').catch(() => {});
+  };
+
+  return (
+    <div ref={container} className="relative">
+      <button onClick={() => setOpen(!open)} className="relative p-2 text-zinc-600 hover:text-rose-600 transition-colors" aria-label="Notifications">
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-rose-600 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-2xl border border-zinc-100 shadow-xl overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-100">
+            <span className="text-sm font-bold text-zinc-900">Notifications</span>
+            {unreadCount > 0 && <button onClick={readAll} className="text-xs font-bold text-rose-600 hover:text-rose-700">Mark all as read</button>}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-8 text-sm text-zinc-500 text-center">Nothing yet.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-zinc-50">
+              {notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => openNotification(notification)}
+                    className={cn('w-full text-left px-4 py-3 hover:bg-zinc-50 transition-colors', !notification.read_at && 'bg-rose-50/60')}
+                  >
+                    <p className="text-sm font-semibold text-zinc-900">{notification.title}</p>
+                    <p className="text-xs text-zinc-600 line-clamp-2">{notification.body}</p>
+                    <p className="text-[10px] text-zinc-400 mt-1">{parseDbDate(notification.created_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
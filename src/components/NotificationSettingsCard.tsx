@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { BellRing } from 'lucide-react';
+import { requestJson } from '../lib/api';
+import type { NotificationChannel, NotificationPreference } from '../types';
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In app',
+  email: 'Email',
+  sms: 'Text'
+};
+
+// Which notifications reach the user where. Each switch saves as soon as it is flipped.
+const NotificationSettingsCard = () => {
+  const [preferences, setPreferences] = useState<NotificationPreference[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/me/notification-preferences')
+      .then(res => res.json())
+      .then(setPreferences);
+  }, []);
+
+  const toggle = async (preference: NotificationPreference, channel: NotificationChannel) => {
+    setError('');
+    try {
+      setPreferences(await requestJson<NotificationPreference[]>('/api/me/notification-preferences', 'PUT', {
+        type: preference.type,
+        channel,
+        enabled: !preference.channels[channel]
+      }));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!preferences) return null;
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-6">
+      <h3 className="text-2xl font-bold text-zinc-900 flex items-center gap-2">
+        <BellRing className="w-6 h-6 text-rose-600" /> Notifications
+      </h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-zinc-400 uppercase tracking-widest">
+            <th className="text-left font-bold pb-2" />
+            {Object.values(CHANNEL_LABELS).map(label => <th key={label} className="font-bold pb-2 w-20">{label}</th>)}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-100">
+          {preferences.map(preference => (
+            <tr key={preference.type}>
+              <td className="py-3 text-zinc-700">{preference.label}</td>
+              {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                <td key={channel} className="py-3 text-center">
+                  <input
+                    type="checkbox"
+                    checked={preference.channels[channel]}
+                    onChange={() => toggle(preference, channel)}
+                    aria-label={`${preference.label}: ${CHANNEL_LABELS[channel]}`}
+                    className="w-4 h-4 accent-rose-600"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-zinc-400">Texts go to your verified mobile number. Safety check-ins and codes are always sent.</p>
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+    </div>
+  );
+};
+
+export default NotificationSettingsCard;
@@ -0,0 +1,107 @@
+import { useState, type FormEvent } from 'react';
+import { CheckCircle2, Smartphone } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { postJson } from '../lib/api';
+import { inputClass, labelClass } from '../lib/utils';
+
+// Confirms a mobile number with a one-time code sent by SMS.
+const PhoneVerificationCard = ({ onVerified }: { onVerified?: () => void }) => {
+  const { user, refresh } = useAuth();
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [sentTo, setSentTo] = useState('');
+  const [changing, setChanging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendCode = (e?: FormEvent) => {
+    e?.preventDefault();
+    run(async () => {
+      const data = await postJson<{ phone: string }>('/api/me/phone/otp', { phone });
+      setSentTo(data.phone);
+      setCode('');
+    });
+  };
+
+  const verify = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await postJson('/api/me/phone/verify', { code });
+      await refresh();
+      setSentTo('');
+      setChanging(false);
+      onVerified?.();
+    });
+  };
+
+  if (!user) return null;
+  const verified = !!user.phone_verified_at && !changing;
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-6">
+      <h3 className="text-2xl font-bold text-zinc-900 flex items-center gap-2">
+        <Smartphone className="w-6 h-6 text-rose-600" /> Mobile Number
+      </h3>
+
+      {verified ? (
+        <div className="flex items-center justify-between gap-4">
+          <p className="flex items-center gap-2 text-sm text-zinc-700">
+            <CheckCircle2 className="w-4 h-4 text-emerald-500" /> {user.phone} is verified.
+          </p>
+          <button onClick={() => setChanging(true)} className="text-xs font-bold text-rose-600 hover:text-rose-700">Change number</button>
+        </div>
+      ) : sentTo ? (
+        <form onSubmit={verify} className="space-y-4">
+          <p className="text-sm text-zinc-600">Enter the 6-digit code we sent to {sentTo}.</p>
+          <div className="flex gap-2 max-w-sm">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className={inputClass}
+            />
+            <button type="submit" disabled={busy} className="px-6 py-3 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 transition-colors disabled:opacity-60">
+              Verify
+            </button>
+          </div>
+          <button type="button" onClick={() => sendCode()} disabled={busy} className="text-xs font-bold text-rose-600 hover:text-rose-700">
+            Send a new code
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={sendCode} className="space-y-4">
+          <p className="text-sm text-zinc-500">You need a verified mobile number to book or chat. We never show it to other users.</p>
+          <div className="max-w-sm">
+            <label className={labelClass}>Mobile Number</label>
+            <div className="flex gap-2">
+              <input type="tel" required placeholder="98765 43210" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} />
+              <button type="submit" disabled={busy} className="px-6 py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm hover:bg-zinc-800 transition-colors disabled:opacity-60 whitespace-nowrap">
+                Send Code
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PhoneVerificationCard;
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { cn, inputClass, labelClass } from '../lib/utils';
+import type { ProfileDraft, ProfileSection } from '../lib/profile';
+import type { TaxonomyTerm } from '../types';
+import TermInput from './TermInput';
+
+type Change = (change: Partial<ProfileDraft>) => void;
+
+// A list of taxonomy names edited as removable chips plus an autocomplete input.
+const TermList = ({
+  kind,
+  values,
+  onChange,
+  placeholder
+}: {
+  kind: 'language' | 'interest';
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+}) => {
+  const [text, setText] = useState('');
+
+  const add = () => {
+    const name = text.trim();
+    if (name && !values.some(value => value.toLowerCase() === name.toLowerCase())) onChange([...values, name]);
+    setText('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {values.map(value => (
+          <span key={value} className="flex items-center gap-1 px-3 py-1 bg-rose-50 text-rose-700 rounded-full text-xs font-bold">
+            {value}
+            <button type="button" onClick={() => onChange(values.filter(v => v !== value))} className="hover:text-rose-900">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2" onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); add(); } }}>
+        <TermInput kind={kind} value={text} onChange={setText} placeholder={placeholder} />
+        <button type="button" onClick={add} className="px-4 py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm hover:bg-zinc-800 transition-colors">
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ActivityPicker = ({ draft, onChange }: { draft: ProfileDraft; onChange: Change }) => {
+  const [options, setOptions] = useState<TaxonomyTerm[]>([]);
+
+  useEffect(() => {
+    fetch('/api/taxonomy/activity')
+      .then(res => res.json())
+      .then(setOptions);
+  }, []);
+
+  const offering = (name: string) => draft.activities.find(a => a.activity === name);
+  const toggle = (name: string) => onChange({
+    activities: offering(name) ? draft.activities.filter(a => a.activity !== name) : [...draft.activities, { activity: name, hourlyRate: '' }]
+  });
+  const setRate = (name: string, hourlyRate: string) => onChange({
+    activities: draft.activities.map(a => a.activity === name ? { ...a, hourlyRate } : a)
+  });
+
+  return (
+    <div className="space-y-3">
+      {options.map(option => {
+        const selected = offering(option.name);
+        return (
+          <div key={option.id} className={cn("flex items-center gap-4 p-4 rounded-2xl border", selected ? "bg-rose-50 border-rose-200" : "bg-white border-zinc-100")}>
+            <label className="flex-1 flex items-center gap-3 text-sm font-bold text-zinc-900">
+              <input type="checkbox" checked={!!selected} onChange={() => toggle(option.name)} className="w-4 h-4 accent-rose-600" />
+              {option.name}
+            </label>
+            {selected && (
+              <input
+                type="number"
+                min={1}
+                placeholder={draft.hourlyRate ? `₹${draft.hourlyRate}/hr` : 'Profile rate'}
+                value={selected.hourlyRate}
+                onChange={(e) => setRate(option.name, e.target.value)}
+                className={cn(inputClass, "w-36 bg-white")}
+              />
+            )}
+          </div>
+        );
+      })}
+      <p className="text-xs text-zinc-400">Leave a rate empty to charge your profile rate for that activity.</p>
+    </div>
+  );
+};
+
+// Profile inputs grouped the same way as the onboarding steps, shared with the profile page.
+const ProfileFields = ({
+  section,
+  draft,
+  onChange,
+  isFriend
+}: {
+  section: ProfileSection;
+  draft: ProfileDraft;
+  onChange: Change;
+  isFriend: boolean;
+  key?: any;
+}) => {
+  if (section === 'basics') {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input type="text" value={draft.name} onChange={(e) => onChange({ name: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>City</label>
+          <input type="text" value={draft.city} onChange={(e) => onChange({ city: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Age</label>
+          <input type="number" min={18} max={100} value={draft.age} onChange={(e) => onChange({ age: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+    );
+  }
+
+  if (section === 'terms') {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className={labelClass}>Languages</label>
+          <TermList kind="language" values={draft.languages} onChange={(languages) => onChange({ languages })} placeholder="e.g. Hindi" />
+        </div>
+        <div>
+          <label className={labelClass}>Interests</label>
+          <TermList kind="interest" values={draft.interests} onChange={(interests) => onChange({ interests })} placeholder="e.g. Movies" />
+        </div>
+      </div>
+    );
+  }
+
+  if (section === 'about') {
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className={labelClass}>About You</label>
+          <textarea
+            rows={5}
+            maxLength={1000}
+            value={draft.about}
+            onChange={(e) => onChange({ about: e.target.value })}
+            placeholder="What are you like to spend time with?"
+            className={inputClass}
+          />
+          <p className="text-xs text-zinc-400 mt-1">{draft.about.length}/1000</p>
+        </div>
+        {isFriend && (
+          <div className="max-w-xs">
+            <label className={labelClass}>Hourly Rate (₹)</label>
+            <input type="number" min={100} value={draft.hourlyRate} onChange={(e) => onChange({ hourlyRate: e.target.value })} className={inputClass} />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return <ActivityPicker draft={draft} onChange={onChange} />;
+};
+
+export default ProfileFields;
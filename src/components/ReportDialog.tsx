@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { postJson } from '../lib/api';
+import { REPORT_CATEGORY_LABELS } from '../lib/reports';
+import { inputClass, labelClass } from '../lib/utils';
+import type { ReportCategory, ReportSubject } from '../types';
+
+const SUBJECT_TITLES: Record<ReportSubject, string> = {
+  user: 'Report',
+  message: 'Report a message from',
+  booking: 'Report a problem with your booking with'
+};
+
+// Files a report with the safety team. Our recent messages with the person are attached by
+// the server, so the reporter only has to say what happened. Rendered into the body so it
+// sits above the chat widget.
+const ReportDialog = ({
+  subjectType,
+  subjectId,
+  name,
+  onClose,
+  onReported
+}: {
+  subjectType: ReportSubject;
+  subjectId: number;
+  name: string;
+  onClose: () => void;
+  onReported?: (blocked: boolean) => void;
+}) => {
+  const [category, setCategory] = useState<ReportCategory | ''>('');
+  const [description, setDescription] = useState('');
+  const [block, setBlock] = useState(false);
+  const [error, setError] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const submit = async () => {
+    setError('');
+    try {
+      await postJson('/api/reports', { subjectType, subjectId, category, description, block });
+      setSent(true);
+      onReported?.(block);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[110] bg-zinc-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] p-8 w-full max-w-md shadow-2xl space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <h2 className="text-xl font-bold text-zinc-900">{SUBJECT_TITLES[subjectType]} {name}</h2>
+          <button onClick={onClose} className="p-1 text-zinc-400 hover:text-zinc-900">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {sent ? (
+          <div className="space-y-4">
+            <p className="text-sm text-zinc-600">
+              Thank you. Our safety team reviews every report{block ? `, and ${name} can no longer contact you` : ''}.
+              If you are in danger right now, call 112.
+            </p>
+            <button onClick={onClose} className="w-full py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm">Close</button>
+          </div>
+        ) : (
+          <>
+            <div>
+              <label className={labelClass}>What happened?</label>
+              <select value={category} onChange={(e) => setCategory(e.target.value as ReportCategory)} className={inputClass}>
+                <option value="">Choose a reason</option>
+                {(Object.keys(REPORT_CATEGORY_LABELS) as ReportCategory[]).map(key => (
+                  <option key={key} value={key}>{REPORT_CATEGORY_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Details</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={4}
+                maxLength={2000}
+                placeholder="Tell us what happened and when."
+                className={inputClass}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-zinc-700">
+              <input type="checkbox" checked={block} onChange={(e) => setBlock(e.target.checked)} className="w-4 h-4 accent-rose-600" />
+              Also block {name}
+            </label>
+            {error && <p className="text-sm text-rose-600">{error}</p>}
+            <button
+              onClick={submit}
+              disabled={!category || !description.trim()}
+              className="w-full py-3 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 disabled:opacity-50"
+            >
+              Send Report
+            </button>
+          </>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ReportDialog;
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { postJson } from '../lib/api';
+import { inputClass, labelClass } from '../lib/utils';
+import type { Review } from '../types';
+import StarRating from './StarRating';
+
+// Review of the other side of a completed booking; the sub-scores are optional.
+const ReviewForm = ({
+  bookingId,
+  counterpart,
+  onSubmitted,
+  onCancel
+}: {
+  bookingId: number;
+  counterpart: string;
+  onSubmitted: (review: Review) => void;
+  onCancel: () => void;
+}) => {
+  const [rating, setRating] = useState(0);
+  const [punctuality, setPunctuality] = useState(0);
+  const [communication, setCommunication] = useState(0);
+  const [body, setBody] = useState('');
+  const [error, setError] = useState('');
+
+  const submit = async () => {
+    setError('');
+    try {
+      onSubmitted(await postJson<Review>(`/api/bookings/${bookingId}/reviews`, {
+        rating,
+        body,
+        punctuality: punctuality || undefined,
+        communication: communication || undefined
+      }));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-zinc-100 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Overall</label>
+          <StarRating value={rating} onChange={setRating} size="w-6 h-6" />
+        </div>
+        <div>
+          <label className={labelClass}>Punctuality</label>
+          <StarRating value={punctuality} onChange={setPunctuality} size="w-5 h-5" />
+        </div>
+        <div>
+          <label className={labelClass}>Communication</label>
+          <StarRating value={communication} onChange={setCommunication} size="w-5 h-5" />
+        </div>
+      </div>
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={3}
+        placeholder={`How was your time with ${counterpart}?`}
+        className={inputClass}
+      />
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      <div className="flex gap-2">
+        <button onClick={submit} disabled={!rating} className="px-4 py-2 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 transition-colors disabled:opacity-50">
+          Submit Review
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 bg-white text-zinc-600 border border-zinc-200 rounded-xl font-bold text-sm hover:bg-zinc-50 transition-colors">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewForm;
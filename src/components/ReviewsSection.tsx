@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { postJson } from '../lib/api';
+import { inputClass, parseDbDate } from '../lib/utils';
+import type { Review, ReviewPage } from '../types';
+import StarRating from './StarRating';
+
+const PAGE_SIZE = 5;
+
+const ReplyForm = ({ review, onReplied }: { review: Review; onReplied: (review: Review) => void }) => {
+  const [reply, setReply] = useState('');
+  const [error, setError] = useState('');
+
+  const submit = async () => {
+    setError('');
+    try {
+      onReplied(await postJson<Review>(`/api/reviews/${review.id}/reply`, { reply }));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <textarea value={reply} onChange={(e) => setReply(e.target.value)} rows={2} placeholder="Reply publicly..." className={inputClass} />
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      <button onClick={submit} disabled={!reply.trim()} className="px-4 py-2 bg-zinc-900 text-white rounded-xl font-bold text-xs hover:bg-zinc-800 transition-colors disabled:opacity-50">
+        Post Reply
+      </button>
+    </div>
+  );
+};
+
+const ReviewsSection = ({ friendId, friendName }: { friendId: number; friendName: string; key?: any }) => {
+  const { user } = useAuth();
+  const [data, setData] = useState<ReviewPage | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    fetch(`/api/friends/${friendId}/reviews?page=${page}&pageSize=${PAGE_SIZE}`)
+      .then(res => res.json())
+      .then((next: ReviewPage) => {
+        setData(next);
+        setReviews(prev => page === 1 ? next.reviews : [...prev, ...next.reviews]);
+      });
+  }, [friendId, page]);
+
+  if (!data) return null;
+
+  const updateReview = (updated: Review) =>
+    setReviews(prev => prev.map(r => r.id === updated.id ? { ...r, ...updated } : r));
+
+  return (
+    <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-2xl font-bold text-zinc-900 mb-2">Reviews</h3>
+          {data.reviewCount > 0 ? (
+            <div className="flex items-center gap-3">
+              <StarRating value={data.rating || 0} />
+              <span className="text-sm font-bold text-zinc-900">{data.rating?.toFixed(1)}</span>
+              <span className="text-sm text-zinc-500">({data.reviewCount} {data.reviewCount === 1 ? 'review' : 'reviews'})</span>
+            </div>
+          ) : (
+            <p className="text-sm text-zinc-500">No reviews yet.</p>
+          )}
+        </div>
+        {data.reviewCount > 0 && (
+          <div className="flex gap-6 text-xs text-zinc-500">
+            {data.subScores.punctuality !== null && <div><span className="font-bold text-zinc-900">{data.subScores.punctuality.toFixed(1)}</span> Punctuality</div>}
+            {data.subScores.communication !== null && <div><span className="font-bold text-zinc-900">{data.subScores.communication.toFixed(1)}</span> Communication</div>}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        {reviews.map(review => (
+          <div key={review.id} className="border-t border-zinc-100 pt-6">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-3">
+                <span className="font-bold text-zinc-900 text-sm">{review.reviewer_name}</span>
+                <StarRating value={review.rating} size="w-3.5 h-3.5" />
+              </div>
+              <span className="text-xs text-zinc-400">{parseDbDate(review.created_at).toLocaleDateString()}</span>
+            </div>
+            {review.body && <p className="text-sm text-zinc-600 leading-relaxed">{review.body}</p>}
+            {review.reply ? (
+              <div className="mt-3 ml-4 pl-4 border-l-2 border-rose-100">
+                <p className="text-xs font-bold text-zinc-900 mb-1">Reply from {friendName}</p>
+                <p className="text-sm text-zinc-600">{review.reply}</p>
+              </div>
+            ) : user?.id === friendId && (
+              <ReplyForm review={review} onReplied={updateReview} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {data.hasMore && (
+        <button onClick={() => setPage(p => p + 1)} className="mt-6 text-sm font-bold text-rose-600 hover:text-rose-700">
+          Show more reviews
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReviewsSection;
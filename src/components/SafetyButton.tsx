@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import { Copy, MapPin, Share2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useChat } from '../context/ChatContext';
+import { postJson } from '../lib/api';
+import { LOCATION_INTERVAL_MS } from '../lib/safety';
+import { parseDbDate } from '../lib/utils';
+import type { SafetyIncident } from '../types';
+
+// The SOS control on an in-progress booking. One tap raises an alert with the safety team and
+// makes a link to pass on; while the alert is active the phone's position goes up over the
+// chat socket every LOCATION_INTERVAL_MS.
+const SafetyButton = ({ bookingId }: { bookingId: number }) => {
+  const { connected, send, subscribe } = useChat();
+  const [incident, setIncident] = useState<SafetyIncident | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const [locationError, setLocationError] = useState('');
+  const [lastShared, setLastShared] = useState<Date | null>(null);
+  const [copied, setCopied] = useState(false);
+  const position = useRef<GeolocationPosition | null>(null);
+
+  useEffect(() => {
+    fetch('/api/me/safety-incidents/active')
+      .then(res => res.json())
+      .then((incidents: SafetyIncident[]) => setIncident(incidents.find(i => i.booking_id === bookingId) ?? null));
+  }, [bookingId]);
+
+  const incidentId = incident?.status === 'active' ? incident.id : null;
+
+  useEffect(() => {
+    if (!incidentId) return;
+    const shareLocation = () => {
+      const coords = position.current?.coords;
+      if (!coords) return;
+      send({ type: 'sos-location', incidentId, latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy });
+    };
+
+    const unsubscribe = subscribe(frame => {
+      // A dropped update still means the server has a position from the last few seconds.
+      if (frame.type === 'sos-location' && frame.incidentId === incidentId) setLastShared(new Date());
+      if (frame.type === 'sos-update' && frame.incident.id === incidentId) setIncident(frame.incident);
+      if (frame.type === 'open') shareLocation();
+    });
+
+    let watchId: number | undefined;
+    if ('geolocation' in navigator) {
+      watchId = navigator.geolocation.watchPosition(
+        update => {
+          const first = !position.current;
+          position.current = update;
+          setLocationError('');
+          if (first) shareLocation();
+        },
+        () => setLocationError('Location is off, so only your alert was sent. Turn it on to share where you are.'),
+        { enableHighAccuracy: true }
+      );
+    } else {
+      setLocationError("This browser can't share your location.");
+    }
+    const timer = setInterval(shareLocation, LOCATION_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+      if (watchId !== undefined) navigator.geolocation.clearWatch(watchId);
+      position.current = null;
+    };
+  }, [incidentId, send, subscribe]);
+
+  const trigger = async () => {
+    setSending(true);
+    setError('');
+    try {
+      const result = await postJson<{ incident: SafetyIncident; shareUrl: string | null }>('/api/safety/incidents', { bookingId });
+      setIncident(result.incident);
+      setShareUrl(result.shareUrl);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const newLink = async () => {
+    if (!incident) return;
+    setError('');
+    try {
+      const link = await postJson<{ shareUrl: string; expiresAt: string }>(`/api/safety/incidents/${incident.id}/share-link`);
+      setShareUrl(link.shareUrl);
+      setIncident({ ...incident, share_expires_at: link.expiresAt });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const shareLink = async () => {
+    if (!shareUrl) return;
+    if (navigator.share) {
+      await navigator.share({ title: 'I need help', text: "I've pressed the Safety Button on FriendlyTime. See where I am:", url: shareUrl }).catch(() => {});
+      return;
+    }
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+  };
+
+  const end = async () => {
+    if (!incident || !window.confirm("End the alert? Your location will stop being shared and the link will stop working.")) return;
+    setError('');
+    try {
+      setIncident(await postJson<SafetyIncident>(`/api/safety/incidents/${incident.id}/end`));
+      setShareUrl(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!incident || incident.status !== 'active') {
+    return (
+      <div className="mt-4 pt-4 border-t border-zinc-100 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="text-xs text-zinc-500">
+          {incident ? 'Your alert has ended. Our safety team will still follow up.' : 'Feel unsafe? The Safety Button alerts our 24/7 team and shares your location.'}
+        </p>
+        <button
+          onClick={trigger}
+          disabled={sending}
+          className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl font-bold text-sm bg-rose-600 text-white hover:bg-rose-700 transition-colors disabled:opacity-50"
+        >
+          <ShieldAlert className="w-4 h-4" /> {sending ? 'Sending alert…' : 'Safety Button'}
+        </button>
+        {error && <p className="text-xs text-rose-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 bg-rose-50 border border-rose-200 rounded-2xl p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="w-6 h-6 text-rose-600 shrink-0" />
+        <div>
+          <h4 className="font-bold text-rose-900">Alert sent</h4>
+          <p className="text-sm text-rose-800">
+            {incident.acknowledged_at
+              ? 'Our safety team has seen your alert and is on it.'
+              : 'Our safety team has been alerted. If you are in immediate danger, call 112.'}
+          </p>
+        </div>
+      </div>
+
+      <p className="flex items-center gap-1.5 text-xs text-rose-800">
+        <MapPin className="w-3.5 h-3.5" />
+        {locationError || (lastShared
+          ? `Sharing your location · last sent ${lastShared.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+          : connected ? 'Finding your location…' : 'Reconnecting to share your location…')}
+      </p>
+
+      {shareUrl ? (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input readOnly value={shareUrl} onFocus={(e) => e.target.select()} className="flex-1 bg-white border border-rose-200 rounded-xl px-3 py-2 text-xs text-zinc-700" />
+          <button onClick={shareLink} className="inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold bg-rose-600 text-white hover:bg-rose-700">
+            {'share' in navigator ? <Share2 className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+            {'share' in navigator ? 'Send to a contact' : copied ? 'Copied' : 'Copy link'}
+          </button>
+        </div>
+      ) : (
+        <button onClick={newLink} className="text-xs font-bold text-rose-700 underline">Get a link to share your location</button>
+      )}
+      {incident.share_expires_at && shareUrl && (
+        <p className="text-[10px] text-rose-700">
+          Anyone with the link can see where you are until {parseDbDate(incident.share_expires_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} or until you end the alert.
+        </p>
+      )}
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      <button onClick={end} className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold bg-white text-emerald-700 border border-emerald-200 hover:bg-emerald-50">
+        <ShieldCheck className="w-3.5 h-3.5" /> I'm safe, end the alert
+      </button>
+    </div>
+  );
+};
+
+export default SafetyButton;
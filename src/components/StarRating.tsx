@@ -0,0 +1,30 @@
+import { Star } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+// Five stars, either read-only or clickable when onChange is given.
+const StarRating = ({
+  value,
+  onChange,
+  size = 'w-4 h-4'
+}: {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: string;
+}) => (
+  <div className="flex items-center gap-0.5">
+    {[1, 2, 3, 4, 5].map(star => (
+      <button
+        key={star}
+        type="button"
+        disabled={!onChange}
+        onClick={() => onChange?.(star)}
+        className={cn(onChange ? 'cursor-pointer' : 'cursor-default')}
+        aria-label={`${star} star${star > 1 ? 's' : ''}`}
+      >
+        <Star className={cn(size, star <= Math.round(value) ? 'text-amber-500 fill-amber-500' : 'text-zinc-200')} />
+      </button>
+    ))}
+  </div>
+);
+
+export default StarRating;
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { inputClass } from '../lib/utils';
+import type { TaxonomyTerm } from '../types';
+
+// Text input with suggestions from the taxonomy, matching names and synonyms as you type.
+const TermInput = ({
+  kind,
+  value,
+  onChange,
+  placeholder
+}: {
+  kind: 'language' | 'interest' | 'activity';
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) => {
+  const [suggestions, setSuggestions] = useState<TaxonomyTerm[]>([]);
+  const listId = `taxonomy-${kind}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/taxonomy/${kind}?q=${encodeURIComponent(value.trim())}`)
+      .then(res => res.json())
+      .then(terms => { if (!cancelled) setSuggestions(terms); });
+    return () => { cancelled = true; };
+  }, [kind, value]);
+
+  return (
+    <>
+      <input type="text" list={listId} value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} className={inputClass} />
+      <datalist id={listId}>
+        {suggestions.map(term => <option key={term.id} value={term.name} />)}
+      </datalist>
+    </>
+  );
+};
+
+export default TermInput;
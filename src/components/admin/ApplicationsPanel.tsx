@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { postJson } from '../../lib/api';
+import { askReason } from '../../lib/admin';
+import { parseDbDate } from '../../lib/utils';
+import type { Profile } from '../../types';
+
+// Friend applications waiting for review, oldest first.
+const ApplicationsPanel = () => {
+  const [applications, setApplications] = useState<Profile[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/admin/friend-applications?status=submitted')
+      .then(res => res.json())
+      .then(setApplications);
+  }, []);
+
+  const decide = async (application: Profile, decision: 'approve' | 'reject') => {
+    const reason = decision === 'reject' ? askReason(`Why is ${application.name}'s application rejected? They will see this.`) : '';
+    if (reason === null) return;
+    setError('');
+    try {
+      await postJson(`/api/admin/friend-applications/${application.id}/${decision}`, { reason });
+      setApplications(prev => prev!.filter(a => a.id !== application.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!applications) return <div className="h-64 bg-white rounded-3xl animate-pulse" />;
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      {applications.length === 0 && (
+        <div className="bg-white rounded-3xl p-12 border border-zinc-100 text-center text-zinc-500">No applications waiting.</div>
+      )}
+      {applications.map(application => (
+        <div key={application.id} className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm space-y-3">
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-bold text-zinc-900">
+                {application.name}, {application.age} <span className="text-sm font-normal text-zinc-400">{application.city}</span>
+              </h3>
+              <p className="text-sm text-zinc-500">
+                {application.email} · submitted {parseDbDate(application.application_submitted_at!).toLocaleString()}
+                {application.verified ? ' · ID verified' : ' · ID not verified'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => decide(application, 'approve')} className="px-4 py-2 bg-emerald-600 text-white rounded-xl font-bold text-sm">Approve</button>
+              <button onClick={() => decide(application, 'reject')} className="px-4 py-2 bg-zinc-100 text-zinc-700 rounded-xl font-bold text-sm">Reject</button>
+            </div>
+          </div>
+          <p className="text-sm text-zinc-700">{application.about}</p>
+          <div className="flex flex-wrap gap-2 text-xs">
+            {[...application.languages, ...application.interests].map(term => (
+              <span key={term} className="px-2 py-1 bg-zinc-50 border border-zinc-100 rounded-lg text-zinc-600">{term}</span>
+            ))}
+          </div>
+          <p className="text-sm text-zinc-500">
+            ₹{application.hourly_rate}/hr · {(application.activities || []).map(a => a.hourly_rate ? `${a.name} (₹${a.hourly_rate})` : a.name).join(', ')}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ApplicationsPanel;
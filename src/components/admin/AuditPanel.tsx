@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { AUDIT_ACTION_LABELS, type AdminPage } from '../../lib/admin';
+import { inputClass, parseDbDate } from '../../lib/utils';
+import type { AuditEntry } from '../../types';
+import Pager from './Pager';
+
+const ENTITIES = [
+  { value: '', label: 'Everything' },
+  { value: 'user', label: 'Users' },
+  { value: 'id_verification', label: 'ID verifications' },
+  { value: 'booking', label: 'Bookings' },
+  { value: 'report', label: 'Reports' },
+  { value: 'message', label: 'Chat messages' },
+  { value: 'safety_incident', label: 'SOS alerts' }
+];
+
+const AuditPanel = () => {
+  const [entity, setEntity] = useState('');
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<AdminPage & { entries: AuditEntry[] }>({ entries: [], page: 1, hasMore: false });
+
+  useEffect(() => {
+    fetch(`/api/admin/audit?${new URLSearchParams({ entity, page: String(page) })}`)
+      .then(res => res.json())
+      .then(setData);
+  }, [entity, page]);
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm space-y-4">
+      <select value={entity} onChange={(e) => { setEntity(e.target.value); setPage(1); }} className={`${inputClass} md:w-64`}>
+        {ENTITIES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+
+      <div className="divide-y divide-zinc-100">
+        {data.entries.map(entry => (
+          <div key={entry.id} className="py-3 text-sm">
+            <p className="text-zinc-900">
+              <span className="font-bold">{entry.actor_name || 'System'}</span>
+              {' '}{(AUDIT_ACTION_LABELS[entry.action] || entry.action).toLowerCase()}
+              {entry.subject_name && <> · <span className="font-bold">{entry.subject_name}</span></>}
+              <span className="text-zinc-400"> · {entry.entity} #{entry.entity_id}</span>
+            </p>
+            <p className="text-xs text-zinc-400">
+              {parseDbDate(entry.created_at).toLocaleString()}
+              {typeof entry.detail?.reason === 'string' && ` · ${entry.detail.reason}`}
+            </p>
+          </div>
+        ))}
+        {data.entries.length === 0 && <p className="py-8 text-center text-sm text-zinc-400">Nothing recorded yet.</p>}
+      </div>
+
+      <Pager page={data.page} hasMore={data.hasMore} onChange={setPage} />
+    </div>
+  );
+};
+
+export default AuditPanel;
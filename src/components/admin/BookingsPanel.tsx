@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { postJson } from '../../lib/api';
+import { askReason, type AdminPage } from '../../lib/admin';
+import { PAYMENT_STATUS_LABELS, STATUS_LABELS, STATUS_STYLES, formatBookingTime } from '../../lib/bookings';
+import { cn, formatINR, inputClass, parseDbDate } from '../../lib/utils';
+import type { Booking, BookingEvent, BookingStatus, LedgerLine, Payment } from '../../types';
+import Pager from './Pager';
+
+interface BookingDetail {
+  booking: Booking;
+  events: BookingEvent[];
+  payments: Payment[];
+  ledger: LedgerLine[];
+}
+
+const OVERRIDE_STATUSES: BookingStatus[] = ['cancelled', 'completed', 'no_show'];
+const REFUNDABLE_STATUSES: BookingStatus[] = ['completed', 'no_show'];
+
+const BookingDetailView = ({ bookingId, onChanged }: { bookingId: number; onChanged: (booking: Booking) => void }) => {
+  const [detail, setDetail] = useState<BookingDetail | null>(null);
+  const [error, setError] = useState('');
+
+  const load = () => fetch(`/api/admin/bookings/${bookingId}`).then(res => res.json()).then(setDetail);
+  useEffect(() => { load(); }, [bookingId]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      const res = await fetch(`/api/admin/bookings/${bookingId}`);
+      const next = await res.json() as BookingDetail;
+      setDetail(next);
+      onChanged(next.booking);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const override = (status: BookingStatus) => {
+    const reason = askReason(`Why mark booking #${bookingId} as ${STATUS_LABELS[status].toLowerCase()}?`);
+    if (reason) run(() => postJson(`/api/admin/bookings/${bookingId}/override`, { status, reason }));
+  };
+
+  const refund = () => {
+    const rupees = window.prompt('Refund how many rupees? Leave empty to refund everything not yet refunded.');
+    if (rupees === null) return;
+    const reason = askReason(`Why refund booking #${bookingId}?`);
+    if (!reason) return;
+    const amount = rupees.trim() ? Math.round(Number(rupees) * 100) : undefined;
+    run(() => postJson(`/api/admin/bookings/${bookingId}/refund`, { amount, reason }));
+  };
+
+  if (!detail) return <div className="h-32 bg-zinc-50 rounded-2xl animate-pulse" />;
+  const { booking, events, payments, ledger } = detail;
+
+  return (
+    <div className="bg-zinc-50 rounded-2xl p-5 space-y-5 text-sm">
+      {error && <p className="text-rose-600">{error}</p>}
+      <div className="flex flex-wrap gap-2">
+        {OVERRIDE_STATUSES.filter(status => status !== booking.status).map(status => (
+          <button key={status} onClick={() => override(status)} className="px-3 py-2 text-xs font-bold bg-white border border-zinc-200 rounded-xl">
+            Mark {STATUS_LABELS[status]}
+          </button>
+        ))}
+        {REFUNDABLE_STATUSES.includes(booking.status) && payments.some(p => p.status === 'captured') && (
+          <button onClick={refund} className="px-3 py-2 text-xs font-bold text-rose-700 bg-rose-50 rounded-xl">Refund</button>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-bold text-zinc-900 mb-2">History</h4>
+        <ul className="space-y-1 text-zinc-600">
+          {events.map(event => (
+            <li key={event.id}>
+              {parseDbDate(event.created_at).toLocaleString()} · {event.from_status ? `${STATUS_LABELS[event.from_status]} → ` : ''}{STATUS_LABELS[event.to_status]}
+              {event.actor_name && ` by ${event.actor_name}`}{event.reason && ` — ${event.reason}`}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h4 className="font-bold text-zinc-900 mb-2">Payments</h4>
+        {payments.length === 0 ? <p className="text-zinc-400">None yet.</p> : (
+          <ul className="space-y-1 text-zinc-600">
+            {payments.map(payment => (
+              <li key={payment.id}>#{payment.id} · {payment.gateway} · {formatINR(payment.amount)} · {PAYMENT_STATUS_LABELS[payment.status]}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-bold text-zinc-900 mb-2">Ledger</h4>
+        {ledger.length === 0 ? <p className="text-zinc-400">No entries.</p> : (
+          <table className="w-full text-left text-zinc-600">
+            <thead className="text-xs text-zinc-400">
+              <tr><th className="py-1">Entry</th><th>Account</th><th className="text-right">Debit</th><th className="text-right">Credit</th></tr>
+            </thead>
+            <tbody>
+              {ledger.map((line, i) => (
+                <tr key={i} className="border-t border-zinc-100">
+                  <td className="py-1">#{line.transaction_id} {line.kind}</td>
+                  <td>{line.account}</td>
+                  <td className="text-right">{line.debit ? formatINR(line.debit) : ''}</td>
+                  <td className="text-right">{line.credit ? formatINR(line.credit) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const BookingsPanel = () => {
+  const [q, setQ] = useState('');
+  const [status, setStatus] = useState('');
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<AdminPage & { bookings: Booking[] }>({ bookings: [], page: 1, hasMore: false });
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ q, status, page: String(page) });
+    const timer = setTimeout(() => {
+      fetch(`/api/admin/bookings?${params}`)
+        .then(res => res.json())
+        .then(setData);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [q, status, page]);
+
+  const replace = (booking: Booking) => {
+    setData(prev => ({ ...prev, bookings: prev.bookings.map(b => b.id === booking.id ? { ...b, ...booking } : b) }));
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input
+          type="search"
+          placeholder="Booking id, name or email"
+          value={q}
+          onChange={(e) => { setQ(e.target.value); setPage(1); }}
+          className={cn(inputClass, 'md:col-span-2')}
+        />
+        <select value={status} onChange={(e) => { setStatus(e.target.value); setPage(1); }} className={inputClass}>
+          <option value="">Any status</option>
+          {(Object.keys(STATUS_LABELS) as BookingStatus[]).map(s => (
+            <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="divide-y divide-zinc-100">
+        {data.bookings.map(booking => (
+          <div key={booking.id} className="py-4 space-y-3">
+            <button onClick={() => setOpenId(openId === booking.id ? null : booking.id)} className="w-full flex items-center gap-4 text-left">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-zinc-900">
+                  #{booking.id} · {booking.customer_name} with {booking.friend_name}
+                </p>
+                <p className="text-sm text-zinc-500 truncate">
+                  {booking.activity} · {formatBookingTime(booking) || booking.duration}{booking.total !== null && ` · ${formatINR(booking.total)}`}
+                </p>
+              </div>
+              <span className={cn('px-3 py-1 rounded-full text-xs font-bold', STATUS_STYLES[booking.status])}>{STATUS_LABELS[booking.status]}</span>
+              {openId === booking.id ? <ChevronUp className="w-4 h-4 text-zinc-400" /> : <ChevronDown className="w-4 h-4 text-zinc-400" />}
+            </button>
+            {openId === booking.id && <BookingDetailView bookingId={booking.id} onChanged={replace} />}
+          </div>
+        ))}
+        {data.bookings.length === 0 && <p className="py-8 text-center text-sm text-zinc-400">No bookings match.</p>}
+      </div>
+
+      <Pager page={data.page} hasMore={data.hasMore} onChange={setPage} />
+    </div>
+  );
+};
+
+export default BookingsPanel;
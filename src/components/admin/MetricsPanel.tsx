@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { formatINR, inputClass } from '../../lib/utils';
+import type { MetricsDay, PlatformMetrics } from '../../types';
+
+const RANGES = [7, 30, 90];
+
+// One bar per day, scaled to the busiest day in the range.
+const DailyBars = ({ days, value, format }: { days: MetricsDay[]; value: (day: MetricsDay) => number; format: (n: number) => string }) => {
+  const max = Math.max(1, ...days.map(value));
+  return (
+    <div className="flex items-end gap-0.5 h-32">
+      {days.map(day => (
+        <div
+          key={day.day}
+          title={`${day.day}: ${format(value(day))}`}
+          className="flex-1 bg-rose-500/80 hover:bg-rose-600 rounded-t"
+          style={{ height: `${(value(day) / max) * 100}%`, minHeight: value(day) ? 2 : 0 }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const MetricsPanel = () => {
+  const [range, setRange] = useState(30);
+  const [metrics, setMetrics] = useState<PlatformMetrics | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/admin/metrics?days=${range}`)
+      .then(res => res.json())
+      .then(setMetrics);
+  }, [range]);
+
+  if (!metrics) return <div className="h-64 bg-white rounded-3xl animate-pulse" />;
+
+  const stats = [
+    { label: 'Bookings', value: String(metrics.totals.bookings) },
+    { label: 'GMV', value: formatINR(metrics.totals.gmv) },
+    { label: 'Net Platform Revenue', value: formatINR(metrics.totals.fees) },
+    { label: 'Refunds', value: formatINR(metrics.totals.refunds) },
+    { label: 'Customers', value: String(metrics.users.customers) },
+    { label: 'Live Friends', value: String(metrics.users.friends) },
+    { label: 'Restricted Accounts', value: String(metrics.users.restricted) },
+    { label: 'Pending Applications', value: String(metrics.queues.friendApplications) },
+    { label: 'Pending ID Checks', value: String(metrics.queues.idVerifications) },
+    { label: 'Open Reports', value: String(metrics.queues.reports) },
+    { label: 'Messages to Review', value: String(metrics.queues.messages) }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <select value={range} onChange={(e) => setRange(Number(e.target.value))} className={`${inputClass} w-40`}>
+          {RANGES.map(days => <option key={days} value={days}>Last {days} days</option>)}
+        </select>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm">
+            <p className="text-xs font-bold text-zinc-400 uppercase tracking-widest mb-2">{stat.label}</p>
+            <p className="text-2xl font-bold text-zinc-900">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm">
+          <h3 className="font-bold text-zinc-900 mb-4">Bookings per day</h3>
+          <DailyBars days={metrics.days} value={day => day.bookings} format={String} />
+        </div>
+        <div className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm">
+          <h3 className="font-bold text-zinc-900 mb-4">GMV per day</h3>
+          <DailyBars days={metrics.days} value={day => day.gmv} format={formatINR} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetricsPanel;
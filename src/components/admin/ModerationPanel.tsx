@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { postJson } from '../../lib/api';
+import { askReason, moderateUser } from '../../lib/admin';
+import { parseDbDate } from '../../lib/utils';
+import type { ModeratedMessage } from '../../types';
+
+// Chat messages the safety filter held back or flagged. Releasing a held message delivers it;
+// removing one hides it from the receiver.
+const ModerationPanel = () => {
+  const [messages, setMessages] = useState<ModeratedMessage[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/admin/messages')
+      .then(res => res.json())
+      .then(setMessages);
+  }, []);
+
+  const decide = async (message: ModeratedMessage, decision: 'release' | 'remove') => {
+    const reason = askReason(decision === 'release' ? 'Why is this message fine to deliver?' : 'Why is this message removed?');
+    if (!reason) return;
+    setError('');
+    try {
+      await postJson(`/api/admin/messages/${message.id}/${decision}`, { reason });
+      setMessages(prev => prev!.filter(m => m.id !== message.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const suspendSender = async (message: ModeratedMessage) => {
+    setError('');
+    try {
+      await moderateUser({ id: message.sender_id, name: message.sender_name }, 'suspend');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!messages) return <div className="h-64 bg-white rounded-3xl animate-pulse" />;
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      {messages.length === 0 && (
+        <div className="bg-white rounded-3xl p-12 border border-zinc-100 text-center text-zinc-500">No messages waiting for review.</div>
+      )}
+      {messages.map(message => (
+        <div key={message.id} className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm space-y-3">
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div>
+              <p className="font-bold text-zinc-900">
+                {message.sender_name} → {message.receiver_name}
+                <span className="ml-2 px-2 py-0.5 bg-amber-50 text-amber-700 rounded-full text-[10px] font-bold uppercase tracking-widest">
+                  {message.moderation_status === 'held' ? 'Held' : 'Delivered, flagged'}
+                </span>
+              </p>
+              <p className="text-xs text-zinc-400">
+                {parseDbDate(message.created_at).toLocaleString()} · {message.moderation_flags.map(flag => flag.replace('policy:', '')).join(', ')}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => suspendSender(message)} className="px-3 py-2 text-xs font-bold text-amber-700 bg-amber-50 rounded-xl">Suspend Sender</button>
+              <button onClick={() => decide(message, 'release')} className="px-3 py-2 text-xs font-bold bg-emerald-600 text-white rounded-xl">
+                {message.moderation_status === 'held' ? 'Deliver' : 'Keep'}
+              </button>
+              <button onClick={() => decide(message, 'remove')} className="px-3 py-2 text-xs font-bold bg-zinc-100 text-zinc-700 rounded-xl">Remove</button>
+            </div>
+          </div>
+          <p className="text-sm text-zinc-800 bg-zinc-50 rounded-2xl px-4 py-3">{message.original_content ?? message.content}</p>
+          {message.original_content && message.original_content !== message.content && (
+            <p className="text-xs text-zinc-500">{message.moderation_status === 'held' ? 'Would be delivered as' : 'Delivered as'}: {message.content}</p>
+          )}
+          {message.attachment && (
+            <a href={`/api/attachments/${message.attachment.id}`} target="_blank" rel="noreferrer" className="inline-block text-xs font-bold text-rose-600 hover:underline">
+              View attached {message.attachment.kind === 'image' ? 'photo' : 'file'} ({message.attachment.file_name})
+            </a>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ModerationPanel;
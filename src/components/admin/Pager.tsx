@@ -0,0 +1,10 @@
+// Previous / next controls for the paged admin lists.
+const Pager = ({ page, hasMore, onChange }: { page: number; hasMore: boolean; onChange: (page: number) => void }) => (
+  <div className="flex items-center justify-between pt-4 text-sm">
+    <button disabled={page <= 1} onClick={() => onChange(page - 1)} className="font-bold text-rose-600 disabled:text-zinc-300">Previous</button>
+    <span className="text-zinc-400">Page {page}</span>
+    <button disabled={!hasMore} onClick={() => onChange(page + 1)} className="font-bold text-rose-600 disabled:text-zinc-300">Next</button>
+  </div>
+);
+
+export default Pager;
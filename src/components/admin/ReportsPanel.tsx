@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { postJson } from '../../lib/api';
+import { askReason, moderateUser, type AccountAction } from '../../lib/admin';
+import { REPORT_CATEGORY_LABELS } from '../../lib/reports';
+import { cn, inputClass, parseDbDate } from '../../lib/utils';
+import type { Report, ReportStatus } from '../../types';
+
+const STATUS_FILTERS: { value: ReportStatus; label: string }[] = [
+  { value: 'open', label: 'Needs review' },
+  { value: 'actioned', label: 'Actioned' },
+  { value: 'dismissed', label: 'Dismissed' }
+];
+
+const SUBJECT_LABELS = { user: 'profile', message: 'message', booking: 'booking' };
+
+// The report queue, escalated reports first. Closing a report and acting on the account are
+// separate steps so a report can be actioned with a warning alone.
+const ReportsPanel = () => {
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [reports, setReports] = useState<Report[] | null>(null);
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setReports(null);
+    fetch(`/api/admin/reports?status=${status}`)
+      .then(res => res.json())
+      .then(setReports);
+  }, [status]);
+
+  const resolve = async (report: Report, decision: 'action' | 'dismiss') => {
+    const reason = askReason(decision === 'action' ? 'What was done about this report?' : 'Why is this report dismissed?');
+    if (!reason) return;
+    setError('');
+    try {
+      await postJson(`/api/admin/reports/${report.id}/${decision}`, { reason });
+      setReports(prev => prev!.filter(r => r.id !== report.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const moderate = async (report: Report, action: AccountAction) => {
+    setError('');
+    try {
+      const updated = await moderateUser({ id: report.reported_user_id, name: report.reported_user_name }, action);
+      if (!updated) return;
+      setReports(prev => prev!.map(r => r.reported_user_id === updated.id ? { ...r, reported_account_status: updated.account_status } : r));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <select value={status} onChange={(e) => setStatus(e.target.value as ReportStatus)} className={`${inputClass} md:w-64`}>
+        {STATUS_FILTERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      {!reports && <div className="h-64 bg-white rounded-3xl animate-pulse" />}
+      {reports?.length === 0 && (
+        <div className="bg-white rounded-3xl p-12 border border-zinc-100 text-center text-zinc-500">No reports here.</div>
+      )}
+      {reports?.map(report => (
+        <div key={report.id} className={cn('bg-white rounded-3xl p-6 border shadow-sm space-y-3', report.status === 'escalated' ? 'border-rose-200' : 'border-zinc-100')}>
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <h3 className="font-bold text-zinc-900">{REPORT_CATEGORY_LABELS[report.category]}</h3>
+                {report.status === 'escalated' && (
+                  <span className="px-2 py-0.5 bg-rose-50 text-rose-700 rounded-full text-[10px] font-bold uppercase tracking-widest">Escalated</span>
+                )}
+              </div>
+              <p className="text-sm text-zinc-500">
+                {report.reporter_name} reported {report.reported_user_name}'s {SUBJECT_LABELS[report.subject_type]} #{report.subject_id}
+                {' · '}{parseDbDate(report.created_at).toLocaleString()}
+              </p>
+              <p className="text-xs text-zinc-400">
+                {report.reports_against_user} {report.reports_against_user === 1 ? 'report' : 'reports'} against this account · account {report.reported_account_status}
+              </p>
+            </div>
+            {(report.status === 'open' || report.status === 'escalated') && (
+              <div className="flex flex-wrap gap-2">
+                {report.reported_account_status === 'active' ? (
+                  <>
+                    <button onClick={() => moderate(report, 'suspend')} className="px-3 py-2 text-xs font-bold text-amber-700 bg-amber-50 rounded-xl">Suspend</button>
+                    <button onClick={() => moderate(report, 'ban')} className="px-3 py-2 text-xs font-bold text-rose-700 bg-rose-50 rounded-xl">Ban</button>
+                  </>
+                ) : (
+                  <button onClick={() => moderate(report, 'unban')} className="px-3 py-2 text-xs font-bold text-emerald-700 bg-emerald-50 rounded-xl">Reinstate</button>
+                )}
+                <button onClick={() => resolve(report, 'action')} className="px-3 py-2 text-xs font-bold bg-zinc-900 text-white rounded-xl">Mark Actioned</button>
+                <button onClick={() => resolve(report, 'dismiss')} className="px-3 py-2 text-xs font-bold bg-zinc-100 text-zinc-700 rounded-xl">Dismiss</button>
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-zinc-700 whitespace-pre-line">{report.description}</p>
+          {report.resolution_note && <p className="text-xs text-zinc-500">Resolution: {report.resolution_note}</p>}
+          {report.evidence && report.evidence.messages.length > 0 && (
+            <div>
+              <button onClick={() => setOpenId(openId === report.id ? null : report.id)} className="text-xs font-bold text-rose-600">
+                {openId === report.id ? 'Hide' : 'Show'} {report.evidence.messages.length} messages
+              </button>
+              {openId === report.id && (
+                <ul className="mt-3 bg-zinc-50 rounded-2xl p-4 space-y-2 text-sm">
+                  {report.evidence.messages.map(message => (
+                    <li key={message.id} className={cn(report.subject_type === 'message' && message.id === report.subject_id && 'bg-rose-50 -mx-2 px-2 rounded-lg')}>
+                      <span className="font-bold text-zinc-900">{message.sender_id === report.reporter_id ? report.reporter_name : report.reported_user_name}:</span>
+                      {' '}<span className="text-zinc-700">{message.content}</span>
+                      <span className="text-xs text-zinc-400"> · {parseDbDate(message.created_at).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReportsPanel;
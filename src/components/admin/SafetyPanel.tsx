@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { useChat } from '../../context/ChatContext';
+import { postJson } from '../../lib/api';
+import { askReason } from '../../lib/admin';
+import { formatBookingTime } from '../../lib/bookings';
+import { INCIDENT_EVENT_LABELS, SHARE_REFRESH_MS, mapUrl } from '../../lib/safety';
+import { cn, inputClass, parseDbDate } from '../../lib/utils';
+import type { AdminSafetyIncident, SafetyIncidentEvent } from '../../types';
+
+const STATUS_FILTERS = [
+  { value: 'open', label: 'Needs follow-up' },
+  { value: 'resolved', label: 'Resolved' }
+];
+
+// Safety Button alerts and missed check-ins, active ones first. New alerts arrive over the socket; positions are
+// refreshed every SHARE_REFRESH_MS while the panel is open.
+const SafetyPanel = () => {
+  const { subscribe } = useChat();
+  const [status, setStatus] = useState('open');
+  const [incidents, setIncidents] = useState<AdminSafetyIncident[] | null>(null);
+  const [timelines, setTimelines] = useState<Record<number, SafetyIncidentEvent[]>>({});
+  const [contacts, setContacts] = useState<Record<number, AdminSafetyIncident['emergency_contacts']>>({});
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setIncidents(null);
+    const load = () => fetch(`/api/admin/safety-incidents?status=${status}`)
+      .then(res => res.json())
+      .then(setIncidents);
+    load();
+    const timer = setInterval(load, SHARE_REFRESH_MS);
+    const unsubscribe = subscribe(frame => {
+      if (frame.type === 'sos') load();
+    });
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [status, subscribe]);
+
+  const showTimeline = async (incident: AdminSafetyIncident) => {
+    if (openId === incident.id) {
+      setOpenId(null);
+      return;
+    }
+    const detail: AdminSafetyIncident = await fetch(`/api/admin/safety-incidents/${incident.id}`).then(res => res.json());
+    setTimelines(prev => ({ ...prev, [incident.id]: detail.timeline || [] }));
+    setContacts(prev => ({ ...prev, [incident.id]: detail.emergency_contacts }));
+    setOpenId(incident.id);
+  };
+
+  const update = (updated: AdminSafetyIncident) => {
+    setIncidents(prev => prev!.map(i => i.id === updated.id ? updated : i));
+    if (updated.timeline) setTimelines(prev => ({ ...prev, [updated.id]: updated.timeline! }));
+  };
+
+  const acknowledge = async (incident: AdminSafetyIncident) => {
+    setError('');
+    try {
+      update(await postJson<AdminSafetyIncident>(`/api/admin/safety-incidents/${incident.id}/acknowledge`));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const resolve = async (incident: AdminSafetyIncident) => {
+    const reason = askReason(`How was ${incident.user_name}'s ${incident.source === 'check_in' ? 'missed check-in' : 'alert'} followed up?`);
+    if (!reason) return;
+    setError('');
+    try {
+      await postJson(`/api/admin/safety-incidents/${incident.id}/resolve`, { reason });
+      setIncidents(prev => prev!.filter(i => i.id !== incident.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <select value={status} onChange={(e) => setStatus(e.target.value)} className={`${inputClass} md:w-64`}>
+        {STATUS_FILTERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      {!incidents && <div className="h-64 bg-white rounded-3xl animate-pulse" />}
+      {incidents?.length === 0 && (
+        <div className="bg-white rounded-3xl p-12 border border-zinc-100 text-center text-zinc-500">No alerts here.</div>
+      )}
+      {incidents?.map(incident => (
+        <div key={incident.id} className={cn('bg-white rounded-3xl p-6 border shadow-sm space-y-3', incident.status === 'active' ? 'border-rose-300' : 'border-zinc-100')}>
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <h3 className="font-bold text-zinc-900">
+                  {incident.user_name} {incident.source === 'check_in' ? 'missed a safety check-in' : 'pressed the Safety Button'}
+                </h3>
+                {incident.status === 'active' && (
+                  <span className="px-2 py-0.5 bg-rose-600 text-white rounded-full text-[10px] font-bold uppercase tracking-widest">Active</span>
+                )}
+                {incident.status === 'ended' && (
+                  <span className="px-2 py-0.5 bg-zinc-100 text-zinc-600 rounded-full text-[10px] font-bold uppercase tracking-widest">Marked safe</span>
+                )}
+              </div>
+              <p className="text-sm text-zinc-500">
+                Booking #{incident.booking_id}: {incident.activity} with {incident.other_user_name}
+                {formatBookingTime(incident) && ` · ${formatBookingTime(incident)}`}
+              </p>
+              <p className="text-xs text-zinc-400">
+                {parseDbDate(incident.created_at).toLocaleString()}
+                {' · '}{incident.user_name}: {incident.user_phone || 'no phone'}
+                {' · '}{incident.other_user_name}: {incident.other_user_phone || 'no phone'}
+              </p>
+              {incident.acknowledged_at && (
+                <p className="text-xs text-zinc-400">
+                  Acknowledged by {incident.acknowledged_by_name} at {parseDbDate(incident.acknowledged_at).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+            {incident.status !== 'resolved' && (
+              <div className="flex flex-wrap gap-2">
+                {!incident.acknowledged_at && (
+                  <button onClick={() => acknowledge(incident)} className="px-3 py-2 text-xs font-bold bg-rose-600 text-white rounded-xl">Acknowledge</button>
+                )}
+                <button onClick={() => resolve(incident)} className="px-3 py-2 text-xs font-bold bg-zinc-900 text-white rounded-xl">Resolve</button>
+              </div>
+            )}
+          </div>
+          {incident.latitude !== null && incident.longitude !== null && incident.located_at && (
+            <a href={mapUrl(incident.latitude, incident.longitude)} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1.5 text-sm font-bold text-rose-600 hover:underline">
+              <MapPin className="w-4 h-4" />
+              Last location at {parseDbDate(incident.located_at).toLocaleTimeString()}
+              {incident.accuracy !== null && ` (±${Math.round(incident.accuracy)} m)`}
+            </a>
+          )}
+          {incident.resolution_note && <p className="text-xs text-zinc-500">Resolution: {incident.resolution_note}</p>}
+          <div>
+            <button onClick={() => showTimeline(incident)} className="text-xs font-bold text-rose-600">
+              {openId === incident.id ? 'Hide' : 'Show'} timeline
+            </button>
+            {openId === incident.id && contacts[incident.id]?.length ? (
+              <p className="mt-3 text-xs text-zinc-500">
+                Emergency contacts: {contacts[incident.id]!.map(contact => (
+                  `${contact.name}${contact.relationship ? ` (${contact.relationship})` : ''}: ${contact.phone}${contact.status === 'verified' ? '' : `, ${contact.status}`}`
+                )).join(' · ')}
+              </p>
+            ) : null}
+            {openId === incident.id && (
+              <ul className="mt-3 bg-zinc-50 rounded-2xl p-4 space-y-1 text-sm">
+                {timelines[incident.id]?.map(event => (
+                  <li key={event.id} className="text-zinc-700">
+                    <span className="text-xs text-zinc-400">{parseDbDate(event.created_at).toLocaleTimeString()} · </span>
+                    {INCIDENT_EVENT_LABELS[event.type]}
+                    {event.actor_name && event.type !== 'location' && ` (${event.actor_name})`}
+                    {event.latitude !== null && event.longitude !== null && (
+                      <a href={mapUrl(event.latitude, event.longitude)} target="_blank" rel="noreferrer" className="ml-1 text-rose-600 hover:underline">
+                        {event.latitude.toFixed(5)}, {event.longitude.toFixed(5)}
+                      </a>
+                    )}
+                    {event.note && <span className="text-zinc-500">: {event.note}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SafetyPanel;
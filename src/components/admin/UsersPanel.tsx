@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { moderateUser, type AccountAction, type AdminPage } from '../../lib/admin';
+import { cn, inputClass, parseDbDate } from '../../lib/utils';
+import type { AdminUser } from '../../types';
+import Pager from './Pager';
+
+const STATUS_STYLES: Record<AdminUser['account_status'], string> = {
+  active: 'bg-emerald-50 text-emerald-700',
+  suspended: 'bg-amber-50 text-amber-700',
+  banned: 'bg-rose-50 text-rose-700'
+};
+
+const UsersPanel = () => {
+  const [q, setQ] = useState('');
+  const [role, setRole] = useState('');
+  const [status, setStatus] = useState('');
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<AdminPage & { users: AdminUser[] }>({ users: [], page: 1, hasMore: false });
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const params = new URLSearchParams({ q, role, status, page: String(page) });
+    const timer = setTimeout(() => {
+      fetch(`/api/admin/users?${params}`)
+        .then(res => res.json())
+        .then(setData);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [q, role, status, page]);
+
+  const act = async (user: AdminUser, action: AccountAction) => {
+    setError('');
+    try {
+      const updated = await moderateUser(user, action);
+      if (!updated) return;
+      setData(prev => ({ ...prev, users: prev.users.map(u => u.id === updated.id ? updated : u) }));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <input
+          type="search"
+          placeholder="Name, email, phone or id"
+          value={q}
+          onChange={(e) => { setQ(e.target.value); setPage(1); }}
+          className={cn(inputClass, 'md:col-span-2')}
+        />
+        <select value={role} onChange={(e) => { setRole(e.target.value); setPage(1); }} className={inputClass}>
+          <option value="">All roles</option>
+          <option value="customer">Customers</option>
+          <option value="friend">Friends</option>
+        </select>
+        <select value={status} onChange={(e) => { setStatus(e.target.value); setPage(1); }} className={inputClass}>
+          <option value="">Any status</option>
+          <option value="active">Active</option>
+          <option value="restricted">Suspended or banned</option>
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+
+      <div className="divide-y divide-zinc-100">
+        {data.users.map(user => (
+          <div key={user.id} className="py-4 flex flex-col md:flex-row md:items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="font-bold text-zinc-900">
+                {user.name} <span className="text-xs font-normal text-zinc-400">#{user.id} · {user.role}{user.is_admin ? ' · admin' : ''}</span>
+              </p>
+              <p className="text-sm text-zinc-500 truncate">{user.email}{user.phone ? ` · ${user.phone}` : ''}{user.city ? ` · ${user.city}` : ''}</p>
+              {user.status_reason && (
+                <p className="text-xs text-zinc-400 mt-1">
+                  {user.status_reason}
+                  {user.suspended_until && ` (until ${parseDbDate(user.suspended_until).toLocaleDateString()})`}
+                </p>
+              )}
+            </div>
+            <span className={cn('px-3 py-1 rounded-full text-xs font-bold self-start md:self-auto', STATUS_STYLES[user.account_status])}>
+              {user.active ? 'active' : user.account_status}
+            </span>
+            {!user.is_admin && (
+              <div className="flex gap-2">
+                {user.account_status === 'active' ? (
+                  <>
+                    <button onClick={() => act(user, 'suspend')} className="px-3 py-2 text-xs font-bold text-amber-700 bg-amber-50 rounded-xl">Suspend</button>
+                    <button onClick={() => act(user, 'ban')} className="px-3 py-2 text-xs font-bold text-rose-700 bg-rose-50 rounded-xl">Ban</button>
+                  </>
+                ) : (
+                  <button onClick={() => act(user, 'unban')} className="px-3 py-2 text-xs font-bold text-emerald-700 bg-emerald-50 rounded-xl">Reinstate</button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {data.users.length === 0 && <p className="py-8 text-center text-sm text-zinc-400">No users match.</p>}
+      </div>
+
+      <Pager page={data.page} hasMore={data.hasMore} onChange={setPage} />
+    </div>
+  );
+};
+
+export default UsersPanel;
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { postJson } from '../../lib/api';
+import { askReason } from '../../lib/admin';
+import { parseDbDate } from '../../lib/utils';
+import type { IdVerification } from '../../types';
+
+// Pending ID checks. Opening a scan is itself recorded in the audit log.
+const VerificationsPanel = () => {
+  const [verifications, setVerifications] = useState<IdVerification[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/admin/verifications?status=pending')
+      .then(res => res.json())
+      .then(setVerifications);
+  }, []);
+
+  const decide = async (verification: IdVerification, decision: 'approve' | 'reject') => {
+    const reason = decision === 'reject' ? askReason(`Why is ${verification.user_name}'s ID rejected? They will see this.`) : '';
+    if (reason === null) return;
+    setError('');
+    try {
+      await postJson(`/api/admin/verifications/${verification.id}/${decision}`, { reason });
+      setVerifications(prev => prev!.filter(v => v.id !== verification.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!verifications) return <div className="h-64 bg-white rounded-3xl animate-pulse" />;
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      {verifications.length === 0 && (
+        <div className="bg-white rounded-3xl p-12 border border-zinc-100 text-center text-zinc-500">No ID checks waiting.</div>
+      )}
+      {verifications.map(verification => (
+        <div key={verification.id} className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex-1">
+            <h3 className="font-bold text-zinc-900">{verification.user_name} <span className="text-xs font-normal text-zinc-400">{verification.user_email}</span></h3>
+            <p className="text-sm text-zinc-500">
+              {verification.document_type === 'aadhaar' ? 'Aadhaar' : 'PAN'} <span className="font-mono">{verification.masked_number}</span>
+              {' · '}submitted {parseDbDate(verification.created_at).toLocaleString()}
+            </p>
+          </div>
+          {verification.has_document && (
+            <a href={`/api/admin/verifications/${verification.id}/document`} target="_blank" rel="noreferrer" className="text-sm font-bold text-rose-600">
+              View document
+            </a>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => decide(verification, 'approve')} className="px-4 py-2 bg-emerald-600 text-white rounded-xl font-bold text-sm">Approve</button>
+            <button onClick={() => decide(verification, 'reject')} className="px-4 py-2 bg-zinc-100 text-zinc-700 rounded-xl font-bold text-sm">Reject</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VerificationsPanel;
@@ -0,0 +1,64 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import type { User } from '../types';
+import { postJson } from '../lib/api';
+
+export interface RegisterInput {
+  name: string;
+  email: string;
+  password: string;
+  role: User['role'];
+  city?: string;
+  age?: number;
+}
+
+interface AuthContextValue {
+  user: User | null;
+  loading: boolean;
+  login: (email: string, password: string) => Promise<void>;
+  register: (input: RegisterInput) => Promise<void>;
+  logout: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = async () => {
+    const res = await fetch('/api/me');
+    setUser(res.ok ? (await res.json()).user : null);
+  };
+
+  useEffect(() => {
+    refresh().finally(() => setLoading(false));
+  }, []);
+
+  const login = async (email: string, password: string) => {
+    const data = await postJson('/api/auth/login', { email, password });
+    setUser(data.user);
+  };
+
+  const register = async (input: RegisterInput) => {
+    const data = await postJson('/api/auth/register', input);
+    setUser(data.user);
+  };
+
+  const logout = async () => {
+    await postJson('/api/auth/logout');
+    setUser(null);
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, register, logout, refresh }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error('useAuth must be used inside <AuthProvider>');
+  return context;
+}
@@ -0,0 +1,126 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { reconnectDelay } from '../lib/chat';
+import type { AppNotification, ChatAttachment, Message, MessageKind, ModerationStatus, SafetyIncident, SafetyIncidentStatus } from '../types';
+
+// A frame from the chat socket. Besides the server's frames, subscribers get { type: 'open' }
+// each time the socket (re)connects and { type: 'close' } when it drops.
+export type ChatFrame =
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'unread'; count: number }
+  | { type: 'error'; error: string; clientId?: string }
+  | {
+    type: 'sent';
+    clientId: string;
+    messageId: number;
+    status: ModerationStatus;
+    kind: MessageKind;
+    content: string;
+    attachment: ChatAttachment | null;
+    createdAt: string;
+    notice: string | null;
+  }
+  | { type: 'chat'; id: number; senderId: number; kind: MessageKind; content: string; attachment: ChatAttachment | null; createdAt: string }
+  | { type: 'history'; withUserId: number; messages: Message[]; reset: boolean; nextCursor?: string | null }
+  | { type: 'receipt'; status: 'delivered' | 'read'; messageIds: number[]; at: string }
+  | { type: 'removed'; messageId: number; senderId: number }
+  | { type: 'typing'; senderId: number; typing: boolean }
+  | { type: 'presence'; userId: number; online: boolean; lastSeenAt: string | null }
+  | { type: 'sos'; incidentId: number; status: SafetyIncidentStatus }
+  | { type: 'sos-location'; incidentId: number; recorded: boolean }
+  | { type: 'sos-update'; incident: SafetyIncident }
+  | { type: 'check-in'; checkInId: number }
+  | { type: 'notification'; notification: AppNotification; unreadCount: number };
+
+interface ChatContextValue {
+  connected: boolean;
+  reconnecting: boolean;
+  // Unread messages across all conversations, kept current by the server.
+  unreadCount: number;
+  // Returns false when the socket isn't open; the frame is not queued.
+  send: (frame: object) => boolean;
+  subscribe: (listener: (frame: ChatFrame) => void) => () => void;
+}
+
+const ChatContext = createContext<ChatContextValue | null>(null);
+
+// One socket per signed-in user, shared by the navbar badge, the inbox and any open chat.
+export const ChatProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [connected, setConnected] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const ws = useRef<WebSocket | null>(null);
+  const listeners = useRef(new Set<(frame: ChatFrame) => void>());
+
+  const emit = (frame: ChatFrame) => listeners.current.forEach(listener => listener(frame));
+
+  useEffect(() => {
+    if (!user) return;
+    let disposed = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout>;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      // The session cookie authenticates the socket; the server rejects the upgrade without one.
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      ws.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        setReconnecting(false);
+        emit({ type: 'open' });
+      };
+      socket.onmessage = (event) => {
+        const frame = JSON.parse(event.data) as ChatFrame;
+        if (frame.type === 'unread') setUnreadCount(frame.count);
+        emit(frame);
+      };
+      socket.onclose = () => {
+        if (ws.current === socket) ws.current = null;
+        setConnected(false);
+        emit({ type: 'close' });
+        if (disposed) return;
+        setReconnecting(true);
+        retryTimer = setTimeout(connect, reconnectDelay(attempts++));
+      };
+    };
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      ws.current?.close();
+      setReconnecting(false);
+      setUnreadCount(0);
+    };
+  }, [user?.id]);
+
+  const send = useCallback((frame: object) => {
+    if (ws.current?.readyState !== WebSocket.OPEN) return false;
+    ws.current.send(JSON.stringify(frame));
+    return true;
+  }, []);
+
+  const subscribe = useCallback((listener: (frame: ChatFrame) => void) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <ChatContext.Provider value={{ connected, reconnecting, unreadCount, send, subscribe }}>
+      {children}
+    </ChatContext.Provider>
+  );
+};
+
+export function useChat() {
+  const context = useContext(ChatContext);
+  if (!context) throw new Error('useChat must be used inside <ChatProvider>');
+  return context;
+}
@@ -0,0 +1,47 @@
+import { postJson } from './api';
+import type { AdminUser } from '../types';
+
+// Asks for the reason every admin action is logged with; null when the admin backs out.
+export function askReason(question: string) {
+  const reason = window.prompt(question);
+  return reason && reason.trim() ? reason.trim() : null;
+}
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'user.suspended': 'Suspended user',
+  'user.banned': 'Banned user',
+  'user.reinstated': 'Reinstated user',
+  'friend_application.approved': 'Approved friend application',
+  'friend_application.rejected': 'Rejected friend application',
+  'verification.submitted': 'Submitted ID',
+  'verification.document_viewed': 'Viewed ID document',
+  'verification.approved': 'Approved ID',
+  'verification.rejected': 'Rejected ID',
+  'verification.expired': 'ID verification expired',
+  'booking.overridden': 'Overrode booking status',
+  'booking.refunded': 'Refunded booking',
+  'report.actioned': 'Actioned report',
+  'report.dismissed': 'Dismissed report',
+  'message.released': 'Released chat message',
+  'message.removed': 'Removed chat message',
+  'safety_incident.acknowledged': 'Acknowledged SOS alert',
+  'safety_incident.resolved': 'Resolved SOS alert'
+};
+
+export type AccountAction = 'suspend' | 'ban' | 'unban';
+
+// Prompts for the reason (and, for suspensions, the length) and applies the action. Resolves
+// to null when the admin backs out.
+export async function moderateUser(user: { id: number; name: string }, action: AccountAction) {
+  const reason = askReason(`Why ${action} ${user.name}?`);
+  if (!reason) return null;
+  const days = action === 'suspend' ? window.prompt('Suspend for how many days? Leave empty for no end date.') : '';
+  if (days === null) return null;
+  return postJson<AdminUser>(`/api/admin/users/${user.id}/${action}`, { reason, days: days || null });
+}
+
+// Paged admin lists all answer with { page, hasMore } plus their rows.
+export interface AdminPage {
+  page: number;
+  hasMore: boolean;
+}
@@ -0,0 +1,13 @@
+// Small wrappers around fetch for JSON endpoints that report failures as { error }.
+export async function requestJson<T = any>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Something went wrong');
+  return data;
+}
+
+export const postJson = <T = any>(url: string, body?: unknown) => requestJson<T>(url, 'POST', body);
@@ -0,0 +1,65 @@
+import type { Booking, BookingStatus, PaymentStatus } from '../types';
+
+export const STATUS_LABELS: Record<BookingStatus, string> = {
+  requested: 'Awaiting Response',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  no_show: 'No-Show'
+};
+
+export const STATUS_STYLES: Record<BookingStatus, string> = {
+  requested: 'bg-amber-50 text-amber-700',
+  accepted: 'bg-blue-50 text-blue-700',
+  declined: 'bg-zinc-100 text-zinc-500',
+  confirmed: 'bg-rose-50 text-rose-700',
+  in_progress: 'bg-emerald-50 text-emerald-700',
+  completed: 'bg-emerald-50 text-emerald-700',
+  cancelled: 'bg-zinc-100 text-zinc-500',
+  expired: 'bg-zinc-100 text-zinc-500',
+  no_show: 'bg-zinc-100 text-zinc-500'
+};
+
+export const ACTION_LABELS: Record<string, string> = {
+  accept: 'Accept',
+  decline: 'Decline',
+  start: 'Start Meeting',
+  complete: 'Mark Completed',
+  cancel: 'Cancel',
+  'no-show': 'Report No-Show'
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  requires_confirmation: 'Payment Pending',
+  authorized: 'Card Authorized',
+  captured: 'Paid (In Escrow)',
+  cancelled: 'Authorization Released',
+  refunded: 'Refunded',
+  failed: 'Payment Failed'
+};
+
+// Actions that end the booking and deserve a second look before sending.
+export const DESTRUCTIVE_ACTIONS = ['decline', 'cancel', 'no-show'];
+
+// e.g. "Sat, 14 Mar 2026, 6:00 pm – 9:00 pm IST", shown in the zone the booking was made in.
+export function formatBookingTime(booking: Pick<Booking, 'start_at' | 'end_at' | 'timezone'>) {
+  if (!booking.start_at || !booking.end_at) return null;
+  const timeZone = booking.timezone || undefined;
+  const start = new Date(booking.start_at).toLocaleString([], {
+    timeZone, weekday: 'short', day: 'numeric', month: 'short', year: 'numeric', hour: 'numeric', minute: '2-digit'
+  });
+  const end = new Date(booking.end_at).toLocaleTimeString([], {
+    timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short'
+  });
+  return `${start} – ${end}`;
+}
+
+// The value for a datetime-local input, which has no zone and is read as local time.
+export function toDateTimeLocal(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+}
@@ -0,0 +1,77 @@
+import type { ChatAttachment, Message } from '../types';
+import { parseDbDate } from './utils';
+
+// How long a "typing" signal lasts without a follow-up, and how often to repeat it while typing.
+export const TYPING_TIMEOUT_MS = 5000;
+export const TYPING_REPEAT_MS = 3000;
+// A sent message with no ack after this long is shown as failed, with a retry.
+export const ACK_TIMEOUT_MS = 10000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Exponential backoff with jitter, so clients dropped together don't all come back at once.
+export function reconnectDelay(attempt: number) {
+  return Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+}
+
+export function newClientId() {
+  // randomUUID is only available in secure contexts (https or localhost).
+  return crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Splits a search snippet into plain and matched parts, for rendering highlights as elements.
+export function splitSnippet(snippet: string) {
+  return snippet.split(/(\u0002[^\u0003]*\u0003)/).filter(Boolean).map(part => part.startsWith('\u0002')
+    ? { text: part.slice(1, -1), match: true }
+    : { text: part, match: false });
+}
+
+export function lastMessageId(messages: Message[]) {
+  return messages.reduce((max, message) => Math.max(max, message.id ?? 0), 0);
+}
+
+// Folds messages from the server into the local list. A stored copy replaces the local one with
+// the same id or client id, so nothing shows twice; messages still waiting for an ack stay last.
+export function mergeMessages(local: Message[], incoming: Message[]) {
+  const ids = new Set(incoming.map(message => message.id));
+  const clientIds = new Set(incoming.map(message => message.client_id).filter(Boolean));
+  const kept = local.filter(message => !ids.has(message.id) && !(message.client_id && clientIds.has(message.client_id)));
+  const order = (message: Message) => message.id ?? Number.MAX_SAFE_INTEGER;
+  return [...kept, ...incoming].sort((a, b) => order(a) - order(b));
+}
+
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,application/pdf';
+
+// Uploads a file for the conversation with receiverId; send the returned id in a chat frame.
+export async function uploadAttachment(file: File, receiverId: number): Promise<ChatAttachment> {
+  const res = await fetch(`/api/attachments?receiverId=${receiverId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) },
+    body: file
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(res.status === 413 ? 'That file is over 10 MB' : data.error || 'Upload failed');
+  return data;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// How a message reads in one line, e.g. in the inbox.
+export function messagePreview(kind: Message['kind'], content: string) {
+  if (kind === 'image') return content ? `Photo: ${content}` : 'Photo';
+  if (kind === 'file') return content ? `File: ${content}` : 'File';
+  return content;
+}
+
+export function formatLastSeen(value: string | null) {
+  if (!value) return 'Offline';
+  const minutes = Math.floor((Date.now() - parseDbDate(value).getTime()) / 60000);
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes} min ago`;
+  if (minutes < 24 * 60) return `Last seen ${Math.floor(minutes / 60)} h ago`;
+  return `Last seen ${parseDbDate(value).toLocaleDateString([], { day: 'numeric', month: 'short' })}`;
+}
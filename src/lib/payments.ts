@@ -0,0 +1,12 @@
+import { postJson } from './api';
+import type { Payment } from '../types';
+
+// Takes the customer through checkout for a booking. The card is only authorized here; the
+// server captures it into escrow once the friend accepts.
+export async function payForBooking(bookingId: number) {
+  const payment = await postJson<Payment>(`/api/bookings/${bookingId}/pay`);
+  if (payment.status !== 'requires_confirmation') return payment;
+  // The local mock gateway has no hosted checkout page, so it is approved straight away.
+  if (payment.gateway === 'mock') return postJson<Payment>(`/api/payments/${payment.id}/mock-checkout`);
+  throw new Error(`Checkout with ${payment.gateway} is not available yet`);
+}
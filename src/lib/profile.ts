@@ -0,0 +1,41 @@
+import type { Profile } from '../types';
+
+// Editable copy of a profile. Numbers are kept as the strings typed into the inputs.
+export interface ProfileDraft {
+  name: string;
+  city: string;
+  age: string;
+  about: string;
+  hourlyRate: string;
+  languages: string[];
+  interests: string[];
+  // Empty hourlyRate means the profile rate.
+  activities: { activity: string; hourlyRate: string }[];
+}
+
+export type ProfileSection = 'basics' | 'terms' | 'about' | 'activities';
+
+export function toDraft(profile: Profile): ProfileDraft {
+  return {
+    name: profile.name,
+    city: profile.city || '',
+    age: profile.age ? String(profile.age) : '',
+    about: profile.about || '',
+    hourlyRate: profile.hourly_rate ? String(profile.hourly_rate) : '',
+    languages: profile.languages,
+    interests: profile.interests,
+    activities: (profile.activities || []).map(a => ({ activity: a.name, hourlyRate: a.hourly_rate ? String(a.hourly_rate) : '' }))
+  };
+}
+
+// Body for PUT /api/me/profile holding only the given sections, so each step saves what it shows.
+export function toPayload(draft: ProfileDraft, sections: ProfileSection[]) {
+  return {
+    ...(sections.includes('basics') ? { name: draft.name, city: draft.city, age: draft.age ? Number(draft.age) : null } : {}),
+    ...(sections.includes('terms') ? { languages: draft.languages, interests: draft.interests } : {}),
+    ...(sections.includes('about') ? { about: draft.about, ...(draft.hourlyRate ? { hourlyRate: Number(draft.hourlyRate) } : {}) } : {}),
+    ...(sections.includes('activities') ? {
+      activities: draft.activities.map(a => ({ activity: a.activity, hourlyRate: a.hourlyRate ? Number(a.hourlyRate) : null }))
+    } : {})
+  };
+}
@@ -0,0 +1,11 @@
+import type { ReportCategory } from '../types';
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  harassment: 'Harassment or abuse',
+  inappropriate_conduct: 'Inappropriate behaviour',
+  physical_intimacy_request: 'Asked for physical intimacy',
+  safety_threat: 'I feel unsafe',
+  fraud_or_scam: 'Fraud or scam',
+  fake_profile: 'Fake profile',
+  other: 'Something else'
+};
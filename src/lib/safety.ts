@@ -0,0 +1,21 @@
+import type { SafetyIncidentEventType } from '../types';
+
+// How often the Safety Button sends the user's position while an alert is active.
+export const LOCATION_INTERVAL_MS = 15000;
+// How often a share link page and the admin SOS queue check for a newer position.
+export const SHARE_REFRESH_MS = 15000;
+
+export function mapUrl(latitude: number, longitude: number) {
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`;
+}
+
+export const INCIDENT_EVENT_LABELS: Record<SafetyIncidentEventType, string> = {
+  triggered: 'Pressed the Safety Button',
+  check_in_missed: 'Missed a safety check-in',
+  location: 'Location update',
+  link_created: 'Share link created',
+  link_opened: 'Share link opened',
+  acknowledged: 'Acknowledged by the safety team',
+  ended: 'Marked themselves safe',
+  resolved: 'Resolved'
+};
@@ -0,0 +1,20 @@
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+// Shared form styles, matching the booking card on the friend profile page.
+export const inputClass = "w-full px-4 py-3 bg-zinc-50 border border-zinc-100 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-rose-500/20";
+export const labelClass = "block text-xs font-bold text-zinc-400 uppercase tracking-widest mb-2";
+
+// SQLite's CURRENT_TIMESTAMP is UTC formatted as "YYYY-MM-DD HH:MM:SS" with no zone.
+export function parseDbDate(value: string) {
+  return new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z');
+}
+
+// Amounts from the pricing engine are integer paise.
+export function formatINR(paise: number) {
+  return `₹${(paise / 100).toLocaleString('en-IN', { minimumFractionDigits: paise % 100 ? 2 : 0, maximumFractionDigits: 2 })}`;
+}
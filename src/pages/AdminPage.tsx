@@ -0,0 +1,67 @@
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { cn } from '../lib/utils';
+import MetricsPanel from '../components/admin/MetricsPanel';
+import UsersPanel from '../components/admin/UsersPanel';
+import ApplicationsPanel from '../components/admin/ApplicationsPanel';
+import VerificationsPanel from '../components/admin/VerificationsPanel';
+import ReportsPanel from '../components/admin/ReportsPanel';
+import ModerationPanel from '../components/admin/ModerationPanel';
+import BookingsPanel from '../components/admin/BookingsPanel';
+import AuditPanel from '../components/admin/AuditPanel';
+import SafetyPanel from '../components/admin/SafetyPanel';
+
+const TABS = [
+  { id: 'overview', label: 'Overview', panel: MetricsPanel },
+  { id: 'safety', label: 'SOS', panel: SafetyPanel },
+  { id: 'users', label: 'Users', panel: UsersPanel },
+  { id: 'applications', label: 'Applications', panel: ApplicationsPanel },
+  { id: 'verifications', label: 'ID Checks', panel: VerificationsPanel },
+  { id: 'reports', label: 'Reports', panel: ReportsPanel },
+  { id: 'messages', label: 'Chat Review', panel: ModerationPanel },
+  { id: 'bookings', label: 'Bookings', panel: BookingsPanel },
+  { id: 'audit', label: 'Audit Log', panel: AuditPanel }
+];
+
+// The open tab lives in the URL so a queue can be linked to directly.
+const AdminPage = () => {
+  const { user, loading } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  if (loading) return <div className="py-20 text-center">Loading...</div>;
+  if (!user) return <Navigate to="/login?next=/admin" replace />;
+  if (!user.is_admin) return <Navigate to="/" replace />;
+
+  const tab = TABS.find(t => t.id === searchParams.get('tab')) || TABS[0];
+  const Panel = tab.panel;
+
+  return (
+    <div className="py-16 bg-zinc-50 min-h-screen">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <h1 className="text-4xl font-bold text-zinc-900 mb-2">Admin</h1>
+          <p className="text-zinc-600">Every action here is recorded in the audit log with your name and reason.</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {TABS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setSearchParams({ tab: t.id })}
+              className={cn(
+                'px-4 py-2 rounded-xl text-sm font-bold transition-colors',
+                t.id === tab.id ? 'bg-zinc-900 text-white' : 'bg-white text-zinc-600 border border-zinc-100 hover:text-zinc-900'
+              )}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        <Panel key={tab.id} />
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
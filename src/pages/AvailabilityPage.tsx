@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { postJson, requestJson } from '../lib/api';
+import { inputClass, labelClass } from '../lib/utils';
+
+interface WeeklyWindow {
+  weekday: number;
+  start: string;
+  end: string;
+}
+
+interface AvailabilityException {
+  id: number;
+  date: string;
+  kind: 'blocked' | 'available';
+  start_minute: number | null;
+  end_minute: number | null;
+  note: string | null;
+}
+
+interface AvailabilitySettings {
+  timezone: string;
+  minNoticeHours: number;
+  rules: { weekday: number; start_minute: number; end_minute: number }[];
+  exceptions: AvailabilityException[];
+}
+
+// Monday first, matching the calendar on profile pages; values follow Date#getDay().
+const WEEKDAYS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 0, label: 'Sunday' }
+];
+
+const toTime = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const AvailabilityPage = () => {
+  const { user, loading: authLoading } = useAuth();
+  const [timezone, setTimezone] = useState('');
+  const [minNoticeHours, setMinNoticeHours] = useState(24);
+  const [windows, setWindows] = useState<WeeklyWindow[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [newException, setNewException] = useState({ date: '', kind: 'blocked', start: '', end: '', note: '' });
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+
+  const load = (settings: AvailabilitySettings) => {
+    setTimezone(settings.timezone);
+    setMinNoticeHours(settings.minNoticeHours);
+    setWindows(settings.rules.map(rule => ({ weekday: rule.weekday, start: toTime(rule.start_minute), end: toTime(rule.end_minute) })));
+    setExceptions(settings.exceptions);
+  };
+
+  useEffect(() => {
+    if (user?.role !== 'friend') return;
+    fetch('/api/me/availability')
+      .then(res => res.json())
+      .then(load);
+  }, [user]);
+
+  if (authLoading) return <div className="py-20 text-center">Loading...</div>;
+  if (!user) return <Navigate to="/login?next=/availability" replace />;
+  if (user.role !== 'friend') return <Navigate to="/" replace />;
+
+  const saveWeekly = async () => {
+    setError('');
+    setStatus('');
+    try {
+      load(await requestJson('/api/me/availability', 'PUT', {
+        timezone,
+        minNoticeHours,
+        rules: windows.map(w => ({ weekday: w.weekday, start: toMinutes(w.start), end: toMinutes(w.end) }))
+      }));
+      setStatus('Weekly availability saved.');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const addException = async () => {
+    setError('');
+    try {
+      const { date, kind, start, end, note } = newException;
+      const created = await postJson<AvailabilityException>('/api/me/availability/exceptions', {
+        date,
+        kind,
+        note,
+        ...(start && end ? { start: toMinutes(start), end: toMinutes(end) } : {})
+      });
+      setExceptions(prev => [...prev, created].sort((a, b) => a.date.localeCompare(b.date)));
+      setNewException({ date: '', kind: 'blocked', start: '', end: '', note: '' });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const removeException = async (id: number) => {
+    await requestJson(`/api/me/availability/exceptions/${id}`, 'DELETE');
+    setExceptions(prev => prev.filter(e => e.id !== id));
+  };
+
+  const updateWindow = (index: number, change: Partial<WeeklyWindow>) =>
+    setWindows(prev => prev.map((w, i) => i === index ? { ...w, ...change } : w));
+
+  return (
+    <div className="py-16 bg-zinc-50 min-h-screen">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <h1 className="text-4xl font-bold text-zinc-900 mb-2">Availability</h1>
+          <p className="text-zinc-600">Customers can only book you inside these hours.</p>
+        </div>
+
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+
+        <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-6">
+          <h3 className="text-2xl font-bold text-zinc-900">Weekly Hours</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Time Zone</label>
+              <input type="text" value={timezone} onChange={(e) => setTimezone(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Minimum Notice (Hours)</label>
+              <input type="number" min={0} value={minNoticeHours} onChange={(e) => setMinNoticeHours(Number(e.target.value))} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {WEEKDAYS.map(day => (
+              <div key={day.value} className="flex flex-col md:flex-row md:items-start gap-3 py-3 border-b border-zinc-100">
+                <div className="w-32 font-bold text-zinc-900 text-sm pt-2">{day.label}</div>
+                <div className="flex-1 space-y-2">
+                  {windows.map((w, index) => w.weekday === day.value && (
+                    <div key={index} className="flex items-center gap-2">
+                      <input type="time" value={w.start} onChange={(e) => updateWindow(index, { start: e.target.value })} className={inputClass} />
+                      <span className="text-zinc-400">to</span>
+                      <input type="time" value={w.end} onChange={(e) => updateWindow(index, { end: e.target.value })} className={inputClass} />
+                      <button onClick={() => setWindows(prev => prev.filter((_, i) => i !== index))} className="p-2 text-zinc-400 hover:text-rose-600">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setWindows(prev => [...prev, { weekday: day.value, start: '10:00', end: '18:00' }])}
+                    className="flex items-center gap-1 text-xs font-bold text-rose-600 py-2"
+                  >
+                    <Plus className="w-3.5 h-3.5" /> Add hours
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-4">
+            <button onClick={saveWeekly} className="px-6 py-3 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 transition-colors">
+              Save Weekly Hours
+            </button>
+            {status && <span className="text-sm text-emerald-600">{status}</span>}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-6">
+          <h3 className="text-2xl font-bold text-zinc-900">Exceptions</h3>
+          <p className="text-sm text-zinc-500">Block holidays or busy days, or open extra hours on a specific date. Leave the times empty to block the whole day.</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div>
+              <label className={labelClass}>Date</label>
+              <input type="date" value={newException.date} onChange={(e) => setNewException({ ...newException, date: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Type</label>
+              <select value={newException.kind} onChange={(e) => setNewException({ ...newException, kind: e.target.value })} className={inputClass}>
+                <option value="blocked">Blocked</option>
+                <option value="available">Extra hours</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>From</label>
+              <input type="time" value={newException.start} onChange={(e) => setNewException({ ...newException, start: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>To</label>
+              <input type="time" value={newException.end} onChange={(e) => setNewException({ ...newException, end: e.target.value })} className={inputClass} />
+            </div>
+            <button onClick={addException} className="px-4 py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm hover:bg-zinc-800 transition-colors">
+              Add
+            </button>
+          </div>
+          <input
+            type="text"
+            placeholder="Note (optional)"
+            value={newException.note}
+            onChange={(e) => setNewException({ ...newException, note: e.target.value })}
+            className={inputClass}
+          />
+
+          <div className="space-y-2">
+            {exceptions.length === 0 && <p className="text-sm text-zinc-400">No upcoming exceptions.</p>}
+            {exceptions.map(exception => (
+              <div key={exception.id} className="flex items-center justify-between px-4 py-3 bg-zinc-50 rounded-xl text-sm">
+                <div>
+                  <span className="font-bold text-zinc-900">{exception.date}</span>
+                  <span className="text-zinc-500">
+                    {' · '}{exception.kind === 'blocked' ? 'Blocked' : 'Extra hours'}
+                    {exception.start_minute !== null && exception.end_minute !== null
+                      ? ` ${toTime(exception.start_minute)}–${toTime(exception.end_minute)}`
+                      : ' all day'}
+                    {exception.note && ` · ${exception.note}`}
+                  </span>
+                </div>
+                <button onClick={() => removeException(exception.id)} className="p-2 text-zinc-400 hover:text-rose-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityPage;
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { CheckCircle2, Clock, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { postJson, requestJson } from '../lib/api';
+import { toDraft, toPayload, type ProfileDraft, type ProfileSection } from '../lib/profile';
+import { cn, parseDbDate } from '../lib/utils';
+import type { Profile } from '../types';
+import ProfileFields from '../components/ProfileFields';
+import PhoneVerificationCard from '../components/PhoneVerificationCard';
+
+const STEPS: { section: ProfileSection | 'safety'; title: string; description: string }[] = [
+  { section: 'basics', title: 'The Basics', description: 'Customers see your first name, city and age. Verify your mobile number below too.' },
+  { section: 'terms', title: 'Languages & Interests', description: 'These help customers find someone they click with.' },
+  { section: 'about', title: 'About You & Rate', description: 'Introduce yourself and set what you charge per hour.' },
+  { section: 'activities', title: 'Activities', description: 'Choose what you can be booked for, optionally at its own rate.' },
+  { section: 'safety', title: 'Safety Agreement', description: 'Read and accept how FriendlyTime keeps everyone safe.' }
+];
+
+const SAFETY_RULES = [
+  'FriendlyTime is strictly for platonic, social companionship.',
+  'Meet only in public places and keep all communication on the platform.',
+  'Never ask for or accept payment outside the app.',
+  'Leave and use the Safety Button if you ever feel uncomfortable.',
+  'Reports of inappropriate behaviour lead to removal from the platform.'
+];
+
+const BecomeFriendPage = () => {
+  const { user, loading: authLoading, refresh } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [step, setStep] = useState(0);
+  const [agreed, setAgreed] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = (data: Profile) => {
+    setProfile(data);
+    setDraft(toDraft(data));
+  };
+
+  useEffect(() => {
+    if (user?.role !== 'friend') return;
+    fetch('/api/me/profile')
+      .then(res => res.json())
+      .then(load);
+  }, [user?.id]);
+
+  if (authLoading) return <div className="py-20 text-center">Loading...</div>;
+  if (!user) return <Navigate to="/signup?role=friend&next=/become-a-friend" replace />;
+  if (user.role !== 'friend') {
+    return (
+      <div className="py-24 text-center">
+        <h1 className="text-3xl font-bold text-zinc-900 mb-4">You're signed up as a customer</h1>
+        <p className="text-zinc-600">To offer your time, log out and create a separate friend account.</p>
+      </div>
+    );
+  }
+  if (!profile || !draft) return <div className="py-20 text-center">Loading...</div>;
+
+  if (profile.friend_status === 'submitted' || profile.friend_status === 'approved') {
+    const approved = profile.friend_status === 'approved';
+    return (
+      <div className="py-24 bg-zinc-50 min-h-screen">
+        <div className="max-w-xl mx-auto px-4 bg-white rounded-[40px] p-12 border border-zinc-100 shadow-sm text-center">
+          {approved ? <CheckCircle2 className="w-12 h-12 text-emerald-500 mx-auto mb-6" /> : <Clock className="w-12 h-12 text-amber-500 mx-auto mb-6" />}
+          <h1 className="text-3xl font-bold text-zinc-900 mb-4">{approved ? "You're a FriendlyTime friend!" : 'Application under review'}</h1>
+          <p className="text-zinc-600 mb-8">
+            {approved
+              ? 'Your profile is live. Keep it up to date and set the hours you are free.'
+              : `We received your application on ${parseDbDate(profile.application_submitted_at!).toLocaleDateString()}. We'll review it shortly.`}
+          </p>
+          <div className="flex justify-center gap-3">
+            <Link to="/profile" className="px-6 py-3 bg-zinc-900 text-white rounded-xl font-bold text-sm hover:bg-zinc-800 transition-colors">Edit Profile</Link>
+            {approved && <Link to="/availability" className="px-6 py-3 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 transition-colors">Set Availability</Link>}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const current = STEPS[step];
+
+  const next = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      if (current.section === 'safety') {
+        load(await postJson<Profile>('/api/me/friend-application', { agreeToSafetyPolicy: agreed }));
+        await refresh();
+      } else {
+        load(await requestJson<Profile>('/api/me/profile', 'PUT', toPayload(draft, [current.section])));
+        setStep(step + 1);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="py-16 bg-zinc-50 min-h-screen">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div>
+          <h1 className="text-4xl font-bold text-zinc-900 mb-2">Become a Friend</h1>
+          <p className="text-zinc-600">Tell us about yourself. Your progress is saved after every step.</p>
+        </div>
+
+        {profile.friend_status === 'rejected' && (
+          <div className="p-6 bg-rose-50 border border-rose-100 rounded-3xl text-sm text-rose-700">
+            <p className="font-bold mb-1">Your last application wasn't approved.</p>
+            <p>{profile.application_note}</p>
+            <p className="mt-2">Update your profile and submit it again.</p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {STEPS.map((s, index) => (
+            <button
+              key={s.section}
+              onClick={() => index < step && setStep(index)}
+              className={cn("flex-1 h-2 rounded-full", index <= step ? "bg-rose-600" : "bg-zinc-200")}
+              aria-label={s.title}
+            />
+          ))}
+        </div>
+
+        <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-6">
+          <div>
+            <p className="text-xs font-bold text-zinc-400 uppercase tracking-widest mb-2">Step {step + 1} of {STEPS.length}</p>
+            <h3 className="text-2xl font-bold text-zinc-900">{current.title}</h3>
+            <p className="text-sm text-zinc-500">{current.description}</p>
+          </div>
+
+          {current.section === 'safety' ? (
+            <div className="space-y-4">
+              <ul className="space-y-3">
+                {SAFETY_RULES.map(rule => (
+                  <li key={rule} className="flex gap-3 text-sm text-zinc-700">
+                    <ShieldCheck className="w-5 h-5 text-rose-600 shrink-0" /> {rule}
+                  </li>
+                ))}
+              </ul>
+              <label className="flex items-center gap-3 text-sm font-semibold text-zinc-900">
+                <input type="checkbox" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} className="w-4 h-4 accent-rose-600" />
+                I agree to the <Link to="/safety" className="text-rose-600">safety policy</Link>.
+              </label>
+            </div>
+          ) : (
+            <ProfileFields section={current.section} draft={draft} onChange={(change) => setDraft({ ...draft, ...change })} isFriend />
+          )}
+
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+
+          <div className="flex justify-between">
+            <button
+              onClick={() => setStep(step - 1)}
+              disabled={step === 0}
+              className="px-6 py-3 text-sm font-bold text-zinc-600 hover:bg-zinc-50 rounded-xl disabled:opacity-0"
+            >
+              Back
+            </button>
+            <button
+              onClick={next}
+              disabled={saving || (current.section === 'safety' && !agreed)}
+              className="px-6 py-3 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 transition-colors disabled:opacity-60"
+            >
+              {current.section === 'safety' ? 'Submit Application' : saving ? 'Saving...' : 'Save & Continue'}
+            </button>
+          </div>
+        </div>
+
+        {current.section === 'basics' && <PhoneVerificationCard />}
+      </div>
+    </div>
+  );
+};
+
+export default BecomeFriendPage;
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { Calendar, Clock } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { postJson } from '../lib/api';
+import { ACTION_LABELS, DESTRUCTIVE_ACTIONS, PAYMENT_STATUS_LABELS, STATUS_LABELS, STATUS_STYLES, formatBookingTime } from '../lib/bookings';
+import { payForBooking } from '../lib/payments';
+import ReviewForm from '../components/ReviewForm';
+import ReportDialog from '../components/ReportDialog';
+import SafetyButton from '../components/SafetyButton';
+import { cn, formatINR, parseDbDate } from '../lib/utils';
+import type { Booking } from '../types';
+
+const BookingsPage = () => {
+  const { user, loading: authLoading } = useAuth();
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+  const [reportingId, setReportingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    fetch('/api/bookings')
+      .then(res => res.json())
+      .then(data => {
+        setBookings(data);
+        setLoading(false);
+      });
+  }, [user]);
+
+  if (authLoading) return <div className="py-20 text-center">Loading...</div>;
+  if (!user) return <Navigate to="/login?next=/bookings" replace />;
+
+  const runAction = async (booking: Booking, action: string) => {
+    if (DESTRUCTIVE_ACTIONS.includes(action) && !window.confirm(`${ACTION_LABELS[action]} this booking?`)) return;
+    setError('');
+    try {
+      const updated = await postJson<Booking>(`/api/bookings/${booking.id}/${action}`);
+      setBookings(prev => prev.map(b => b.id === updated.id ? { ...b, ...updated } : b));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const pay = async (booking: Booking) => {
+    setError('');
+    try {
+      await payForBooking(booking.id);
+      const updated = await fetch(`/api/bookings/${booking.id}`).then(res => res.json());
+      setBookings(prev => prev.map(b => b.id === booking.id ? { ...b, ...updated } : b));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // Customers pay while the request is open; a failed or missing payment can be retried.
+  const canPay = (booking: Booking) =>
+    user.role === 'customer' &&
+    ['requested', 'accepted'].includes(booking.status) &&
+    !['authorized', 'captured'].includes(booking.payment_status || '');
+
+  return (
+    <div className="py-16 bg-zinc-50 min-h-screen">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-4xl font-bold text-zinc-900 mb-2">My Bookings</h1>
+        <p className="text-zinc-600 mb-12">
+          {user.role === 'friend' ? 'Requests from customers and your upcoming meetings.' : 'Your requests and upcoming meetings.'}
+        </p>
+
+        {error && <p className="text-sm text-rose-600 mb-6">{error}</p>}
+
+        {loading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map(i => <div key={i} className="h-32 bg-white rounded-3xl animate-pulse" />)}
+          </div>
+        ) : bookings.length === 0 ? (
+          <div className="bg-white rounded-[40px] p-12 border border-zinc-100 text-center text-zinc-500">
+            No bookings yet. {user.role === 'customer' && <Link to="/browse" className="text-rose-600 font-bold">Browse friends</Link>}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {bookings.map(booking => {
+              const counterpart = user.role === 'friend' ? booking.customer_name : booking.friend_name;
+              return (
+                <div key={booking.id} className="bg-white rounded-3xl p-6 border border-zinc-100 shadow-sm">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="text-lg font-bold text-zinc-900">{booking.activity} with {counterpart}</h3>
+                        <span className={cn("text-[10px] font-bold uppercase tracking-widest px-2 py-1 rounded-full", STATUS_STYLES[booking.status])}>
+                          {STATUS_LABELS[booking.status]}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-4 text-zinc-500 text-sm">
+                        <div className="flex items-center gap-1.5"><Clock className="w-4 h-4" /> {booking.duration}</div>
+                        <div className="flex items-center gap-1.5">
+                          <Calendar className="w-4 h-4" />
+                          {formatBookingTime(booking) || `Requested ${parseDbDate(booking.created_at).toLocaleDateString()}`}
+                        </div>
+                        {booking.total !== null && (
+                          <div className="font-bold text-zinc-900">
+                            {user.role === 'friend' && booking.friend_payout !== null
+                              ? `${formatINR(booking.friend_payout)} payout`
+                              : formatINR(booking.total)}
+                          </div>
+                        )}
+                      </div>
+                      {booking.payment_status && (
+                        <p className="text-xs text-zinc-500 mt-2">{PAYMENT_STATUS_LABELS[booking.payment_status]}</p>
+                      )}
+                      {booking.expires_at && (
+                        <p className="text-xs text-amber-600 mt-2">
+                          Expires {parseDbDate(booking.expires_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                        </p>
+                      )}
+                      <button onClick={() => setReportingId(booking.id)} className="block text-xs font-bold text-zinc-400 hover:text-rose-600 mt-2">
+                        Report a problem
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {booking.status === 'completed' && !booking.reviewed && reviewingId !== booking.id && (
+                        <button
+                          onClick={() => setReviewingId(booking.id)}
+                          className="px-4 py-2 rounded-xl font-bold text-sm transition-colors bg-rose-600 text-white hover:bg-rose-700"
+                        >
+                          Leave a Review
+                        </button>
+                      )}
+                      {canPay(booking) && (
+                        <button
+                          onClick={() => pay(booking)}
+                          className="px-4 py-2 rounded-xl font-bold text-sm transition-colors bg-rose-600 text-white hover:bg-rose-700"
+                        >
+                          Pay {booking.total !== null && formatINR(booking.total)}
+                        </button>
+                      )}
+                      {booking.actions.map(action => (
+                        <button
+                          key={action}
+                          onClick={() => runAction(booking, action)}
+                          className={cn(
+                            "px-4 py-2 rounded-xl font-bold text-sm transition-colors",
+                            DESTRUCTIVE_ACTIONS.includes(action)
+                              ? "bg-white text-zinc-600 border border-zinc-200 hover:bg-zinc-50"
+                              : "bg-rose-600 text-white hover:bg-rose-700"
+                          )}
+                        >
+                          {ACTION_LABELS[action] || action}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {booking.status === 'in_progress' && <SafetyButton bookingId={booking.id} />}
+                  {reviewingId === booking.id && (
+                    <ReviewForm
+                      bookingId={booking.id}
+                      counterpart={counterpart || ''}
+                      onCancel={() => setReviewingId(null)}
+                      onSubmitted={() => {
+                        setReviewingId(null);
+                        setBookings(prev => prev.map(b => b.id === booking.id ? { ...b, reviewed: 1 } : b));
+                      }}
+                    />
+                  )}
+                  {reportingId === booking.id && (
+                    <ReportDialog
+                      subjectType="booking"
+                      subjectId={booking.id}
+                      name={counterpart || ''}
+                      onClose={() => setReportingId(null)}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookingsPage;
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { HeartHandshake } from 'lucide-react';
+import { postJson } from '../lib/api';
+import type { EmergencyContactInvite } from '../types';
+
+// Where the link texted to a new emergency contact lands. No account needed; they can change
+// their answer for as long as the link works.
+const EmergencyContactInvitePage = () => {
+  const { token } = useParams();
+  const [invite, setInvite] = useState<EmergencyContactInvite | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`/api/emergency-contacts/${token}`)
+      .then(async res => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'This link is not available');
+        setInvite(data);
+      })
+      .catch(err => setError(err.message));
+  }, [token]);
+
+  const answer = async (choice: 'accept' | 'decline') => {
+    setBusy(true);
+    setError('');
+    try {
+      setInvite(await postJson<EmergencyContactInvite>(`/api/emergency-contacts/${token}/${choice}`));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="py-24 bg-zinc-50 min-h-screen">
+      <div className="max-w-xl mx-auto px-4">
+        {!invite && error ? (
+          <div className="bg-white rounded-3xl p-10 border border-zinc-100 text-center text-zinc-500">{error}</div>
+        ) : !invite ? (
+          <div className="h-64 bg-white rounded-3xl animate-pulse" />
+        ) : (
+          <div className="bg-white rounded-3xl p-8 border border-zinc-100 shadow-sm space-y-6">
+            <div className="flex items-start gap-4">
+              <div className="w-12 h-12 bg-rose-100 rounded-2xl flex items-center justify-center shrink-0">
+                <HeartHandshake className="text-rose-600 w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-zinc-900">Hi {invite.name}</h1>
+                <p className="text-sm text-zinc-500">{invite.user_name} would like you as their emergency contact on FriendlyTime.</p>
+              </div>
+            </div>
+
+            <p className="text-sm text-zinc-600">
+              We would only text you if they press the Safety Button during a meeting, or don't answer when we check they got home safely.
+              The text would say what happened and, if they shared it, where they are.
+            </p>
+
+            {invite.status === 'verified' && (
+              <p className="text-sm font-semibold text-emerald-700 bg-emerald-50 rounded-2xl p-4">Thanks. You are {invite.user_name}'s emergency contact.</p>
+            )}
+            {invite.status === 'declined' && (
+              <p className="text-sm font-semibold text-zinc-600 bg-zinc-50 rounded-2xl p-4">You said no, so we won't text you about {invite.user_name}.</p>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+              {invite.status !== 'verified' && (
+                <button onClick={() => answer('accept')} disabled={busy} className="px-6 py-3 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 transition-colors disabled:opacity-60">
+                  Yes, I'll be their contact
+                </button>
+              )}
+              {invite.status !== 'declined' && (
+                <button onClick={() => answer('decline')} disabled={busy} className="px-6 py-3 bg-white text-zinc-700 border border-zinc-200 rounded-xl font-bold text-sm hover:bg-zinc-50 transition-colors disabled:opacity-60">
+                  {invite.status === 'verified' ? 'Stop being their contact' : 'No thanks'}
+                </button>
+              )}
+            </div>
+            {error && <p className="text-sm text-rose-600">{error}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyContactInvitePage;
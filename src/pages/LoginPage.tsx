@@ -0,0 +1,69 @@
+import { useState, type FormEvent } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Heart } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { inputClass, labelClass } from '../lib/utils';
+
+const LoginPage = () => {
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      await login(email, password);
+      navigate(searchParams.get('next') || '/');
+    } catch (err) {
+      setError((err as Error).message);
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="py-24 bg-zinc-50 min-h-screen">
+      <div className="max-w-md mx-auto px-4">
+        <form onSubmit={handleSubmit} className="bg-white rounded-[40px] p-8 md:p-12 border border-zinc-100 shadow-sm space-y-6">
+          <div className="w-12 h-12 bg-rose-100 rounded-2xl flex items-center justify-center">
+            <Heart className="text-rose-600 w-6 h-6" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-zinc-900 mb-2">Welcome back</h1>
+            <p className="text-zinc-500 text-sm">Log in to book friends and continue your conversations.</p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Email</label>
+            <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Password</label>
+            <input type="password" required value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+          </div>
+
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-4 bg-rose-600 text-white rounded-2xl font-bold text-lg hover:bg-rose-700 transition-all shadow-lg shadow-rose-200 disabled:opacity-60"
+          >
+            {submitting ? 'Logging in...' : 'Login'}
+          </button>
+
+          <p className="text-sm text-zinc-500 text-center">
+            New to FriendlyTime? <Link to={`/signup?${searchParams}`} className="text-rose-600 font-bold">Create an account</Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import { CheckCircle2, MessageSquare, Search } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useChat } from '../context/ChatContext';
+import ChatThread from '../components/ChatThread';
+import { messagePreview, splitSnippet } from '../lib/chat';
+import { cn, inputClass, parseDbDate } from '../lib/utils';
+import type { Conversation, MessageSearchResult } from '../types';
+
+// Frames that can change the order, preview or unread count of a thread.
+const REFRESH_ON = ['chat', 'sent', 'unread', 'removed'];
+const SEARCH_DELAY_MS = 300;
+
+function formatListTime(value: string) {
+  const date = parseDbDate(value);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+}
+
+const MessagesPage = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { subscribe } = useChat();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[] | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = Number(searchParams.get('with')) || null;
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      fetch(`/api/messages/search?q=${encodeURIComponent(query)}`)
+        .then(res => res.ok ? res.json() : [])
+        .then(setResults);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = () => fetch('/api/conversations')
+      .then(res => res.json())
+      .then(data => {
+        setConversations(data);
+        setLoading(false);
+      });
+    load();
+    return subscribe(frame => {
+      if (REFRESH_ON.includes(frame.type)) load();
+    });
+  }, [user, subscribe]);
+
+  if (authLoading) return <div className="py-20 text-center">Loading...</div>;
+  if (!user) return <Navigate to="/login?next=/messages" replace />;
+
+  const selected = conversations.find(c => c.user_id === selectedId);
+
+  return (
+    <div className="py-16 bg-zinc-50 min-h-screen">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-4xl font-bold text-zinc-900 mb-2">Messages</h1>
+        <p className="text-zinc-600 mb-12">
+          {user.role === 'friend' ? 'Conversations with customers.' : 'Conversations with friends.'}
+        </p>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map(i => <div key={i} className="h-20 bg-white rounded-3xl animate-pulse" />)}
+          </div>
+        ) : conversations.length === 0 ? (
+          <div className="bg-white rounded-[40px] p-12 border border-zinc-100 text-center text-zinc-500">
+            No conversations yet. {user.role === 'customer' && <Link to="/browse" className="text-rose-600 font-bold">Browse friends</Link>}
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-[320px_1fr] gap-6">
+            <div className={cn("space-y-2", selected && "hidden md:block")}>
+              <div className="relative mb-4">
+                <Search className="w-4 h-4 text-zinc-400 absolute left-4 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search messages"
+                  className={cn(inputClass, "pl-10 bg-white")}
+                />
+              </div>
+              {results ? (
+                results.length === 0 ? (
+                  <p className="text-sm text-zinc-500 px-2">No messages match “{query}”.</p>
+                ) : results.map(result => (
+                  <button
+                    key={result.id}
+                    onClick={() => {
+                      setSearchParams({ with: String(result.user_id) });
+                      setQuery('');
+                    }}
+                    className="w-full text-left bg-white rounded-3xl p-4 border border-zinc-100 shadow-sm hover:border-zinc-200 transition-colors"
+                  >
+                    <div className="flex justify-between items-center gap-2 mb-1">
+                      <span className="font-bold text-zinc-900 truncate">
+                        {result.sender_id === user.id ? `You → ${result.name}` : result.name}
+                      </span>
+                      <span className="text-[10px] text-zinc-400 shrink-0">{formatListTime(result.created_at)}</span>
+                    </div>
+                    <p className="text-sm text-zinc-600">
+                      {splitSnippet(result.snippet).map((part, i) => part.match
+                        ? <mark key={i} className="bg-rose-100 text-rose-900 rounded px-0.5">{part.text}</mark>
+                        : <span key={i}>{part.text}</span>)}
+                    </p>
+                  </button>
+                ))
+              ) : conversations.map(conversation => (
+                <button
+                  key={conversation.user_id}
+                  onClick={() => setSearchParams({ with: String(conversation.user_id) })}
+                  className={cn(
+                    "w-full text-left bg-white rounded-3xl p-4 border shadow-sm flex items-center gap-3 transition-colors",
+                    conversation.user_id === selectedId ? "border-rose-200" : "border-zinc-100 hover:border-zinc-200"
+                  )}
+                >
+                  <img src={`https://picsum.photos/seed/${conversation.user_id}/100/100`} className="w-10 h-10 rounded-full object-cover" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="font-bold text-zinc-900 truncate flex items-center gap-1">
+                        {conversation.name}
+                        {!!conversation.verified && <CheckCircle2 className="w-3.5 h-3.5 text-rose-500" />}
+                      </span>
+                      <span className="text-[10px] text-zinc-400 shrink-0">{formatListTime(conversation.last_message_at)}</span>
+                    </div>
+                    <div className="flex justify-between items-center gap-2">
+                      <p className={cn("text-sm truncate", conversation.unread_count > 0 ? "text-zinc-900 font-semibold" : "text-zinc-500")}>
+                        {conversation.last_sender_id === user.id && 'You: '}{messagePreview(conversation.last_message_kind, conversation.last_message)}
+                      </p>
+                      {conversation.unread_count > 0 && (
+                        <span className="shrink-0 min-w-5 h-5 px-1.5 rounded-full bg-rose-600 text-white text-[10px] font-bold flex items-center justify-center">
+                          {conversation.unread_count}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {selected ? (
+              // Keyed so switching threads starts the new one from scratch.
+              <div key={selected.user_id} className="h-[600px] bg-white rounded-[32px] border border-zinc-100 shadow-sm overflow-hidden">
+                <ChatThread
+                  counterpart={{ id: selected.user_id, name: selected.name }}
+                  currentUserId={user.id}
+                  onClose={() => setSearchParams({})}
+                  onBlocked={() => setSearchParams({})}
+                />
+              </div>
+            ) : (
+              <div className="hidden md:flex h-[600px] bg-white rounded-[32px] border border-zinc-100 items-center justify-center text-zinc-400 flex-col gap-3">
+                <MessageSquare className="w-10 h-10" />
+                Select a conversation
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessagesPage;
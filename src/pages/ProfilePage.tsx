@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { requestJson } from '../lib/api';
+import { toDraft, toPayload, type ProfileDraft, type ProfileSection } from '../lib/profile';
+import type { Profile } from '../types';
+import ProfileFields from '../components/ProfileFields';
+import IdVerificationCard from '../components/IdVerificationCard';
+import PhoneVerificationCard from '../components/PhoneVerificationCard';
+import EmergencyContactsCard from '../components/EmergencyContactsCard';
+import NotificationSettingsCard from '../components/NotificationSettingsCard';
+import BlockedUsersCard from '../components/BlockedUsersCard';
+
+const STATUS_NOTES = {
+  draft: 'Your profile is not visible to customers until you finish your application.',
+  submitted: 'Your application is being reviewed. Customers will see your profile once it is approved.',
+  rejected: 'Your application was not approved. Update your profile and submit it again.',
+  approved: null
+};
+
+const ProfilePage = () => {
+  const { user, loading: authLoading, refresh } = useAuth();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+
+  const load = (data: Profile) => {
+    setProfile(data);
+    setDraft(toDraft(data));
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    fetch('/api/me/profile')
+      .then(res => res.json())
+      .then(load);
+  }, [user?.id]);
+
+  if (authLoading) return <div className="py-20 text-center">Loading...</div>;
+  if (!user) return <Navigate to="/login?next=/profile" replace />;
+  if (!profile || !draft) return <div className="py-20 text-center">Loading...</div>;
+
+  const isFriend = profile.role === 'friend';
+  const sections: ProfileSection[] = isFriend ? ['basics', 'terms', 'about', 'activities'] : ['basics', 'terms', 'about'];
+  const note = isFriend && profile.friend_status ? STATUS_NOTES[profile.friend_status] : null;
+
+  const save = async () => {
+    setError('');
+    setStatus('');
+    try {
+      load(await requestJson<Profile>('/api/me/profile', 'PUT', toPayload(draft, sections)));
+      await refresh();
+      setStatus('Profile saved.');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="py-16 bg-zinc-50 min-h-screen">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-zinc-900 mb-2">Your Profile</h1>
+            <p className="text-zinc-600">{profile.email}</p>
+          </div>
+          {isFriend && profile.friend_status === 'approved' && (
+            <Link to={`/friend/${profile.id}`} className="text-sm font-bold text-rose-600 hover:text-rose-700">View public profile</Link>
+          )}
+        </div>
+
+        {note && (
+          <div className="p-6 bg-amber-50 border border-amber-100 rounded-3xl text-sm text-amber-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <span>{note}</span>
+            {profile.friend_status !== 'submitted' && (
+              <Link to="/become-a-friend" className="px-4 py-2 bg-zinc-900 text-white rounded-xl font-bold text-xs text-center">Finish Application</Link>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white rounded-[40px] p-8 border border-zinc-100 shadow-sm space-y-8">
+          {sections.map(section => (
+            <ProfileFields key={section} section={section} draft={draft} onChange={(change) => setDraft({ ...draft, ...change })} isFriend={isFriend} />
+          ))}
+
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+
+          <div className="flex items-center gap-4">
+            <button onClick={save} className="px-6 py-3 bg-rose-600 text-white rounded-xl font-bold text-sm hover:bg-rose-700 transition-colors">
+              Save Profile
+            </button>
+            {status && <span className="text-sm text-emerald-600">{status}</span>}
+          </div>
+        </div>
+
+        <PhoneVerificationCard />
+        <EmergencyContactsCard />
+        <NotificationSettingsCard />
+        <IdVerificationCard />
+        <BlockedUsersCard />
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePage;
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { MapPin, ShieldAlert } from 'lucide-react';
+import { formatBookingTime } from '../lib/bookings';
+import { SHARE_REFRESH_MS, mapUrl } from '../lib/safety';
+import { parseDbDate } from '../lib/utils';
+import type { SharedIncident } from '../types';
+
+// What an emergency contact sees from a Safety Button share link. No account needed; the page
+// keeps itself current until the link expires or the user ends the alert, when it goes blank.
+const SafetySharePage = () => {
+  const { token } = useParams();
+  const [incident, setIncident] = useState<SharedIncident | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = () => fetch(`/api/safety/share/${token}`)
+      .then(async res => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'This link is not available');
+        setIncident(data);
+        setError('');
+      })
+      .catch(err => {
+        setIncident(null);
+        setError(err.message);
+      });
+    load();
+    const timer = setInterval(load, SHARE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [token]);
+
+  const when = incident && formatBookingTime(incident.booking);
+
+  return (
+    <div className="py-24 bg-zinc-50 min-h-screen">
+      <div className="max-w-xl mx-auto px-4">
+        {error ? (
+          <div className="bg-white rounded-3xl p-10 border border-zinc-100 text-center text-zinc-500">{error}</div>
+        ) : !incident ? (
+          <div className="h-64 bg-white rounded-3xl animate-pulse" />
+        ) : (
+          <div className="bg-white rounded-3xl p-8 border border-zinc-100 shadow-sm space-y-6">
+            <div className="flex items-start gap-4">
+              <div className="w-12 h-12 bg-rose-100 rounded-2xl flex items-center justify-center shrink-0">
+                <ShieldAlert className="text-rose-600 w-6 h-6" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-zinc-900">{incident.name} pressed the Safety Button</h1>
+                <p className="text-sm text-zinc-500">
+                  Since {parseDbDate(incident.started_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}.
+                  {' '}{incident.acknowledged ? 'The FriendlyTime safety team is on it.' : 'The FriendlyTime safety team has been alerted.'}
+                </p>
+              </div>
+            </div>
+
+            {incident.location ? (
+              <a
+                href={mapUrl(incident.location.latitude, incident.location.longitude)}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-3 bg-rose-50 rounded-2xl p-4 hover:bg-rose-100 transition-colors"
+              >
+                <MapPin className="w-6 h-6 text-rose-600 shrink-0" />
+                <span>
+                  <span className="block font-bold text-rose-900">Open their latest location on a map</span>
+                  <span className="block text-xs text-rose-700">
+                    {incident.location.latitude.toFixed(5)}, {incident.location.longitude.toFixed(5)}
+                    {incident.location.accuracy !== null && ` (within ${Math.round(incident.location.accuracy)} m)`}
+                    {' · '}{parseDbDate(incident.location.located_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </span>
+              </a>
+            ) : (
+              <p className="text-sm text-zinc-500 bg-zinc-50 rounded-2xl p-4">Their phone hasn't shared a location yet. This page updates on its own.</p>
+            )}
+
+            <div className="text-sm text-zinc-600 space-y-1">
+              <p><span className="font-bold text-zinc-900">Meeting:</span> {incident.booking.activity} with {incident.booking.with_name}</p>
+              {when && <p><span className="font-bold text-zinc-900">When:</span> {when}</p>}
+            </div>
+
+            <p className="text-xs text-zinc-400">
+              If you think they are in danger, call 112. This link stops working on {parseDbDate(incident.expires_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SafetySharePage;
@@ -0,0 +1,98 @@
+import { useState, type FormEvent } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Heart, UserCircle } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { cn, inputClass, labelClass } from '../lib/utils';
+import type { User } from '../types';
+
+const SignupPage = () => {
+  const { register } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [role, setRole] = useState<User['role']>(searchParams.get('role') === 'friend' ? 'friend' : 'customer');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [city, setCity] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    try {
+      await register({ name, email, password, role, city });
+      navigate(searchParams.get('next') || '/');
+    } catch (err) {
+      setError((err as Error).message);
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="py-24 bg-zinc-50 min-h-screen">
+      <div className="max-w-md mx-auto px-4">
+        <form onSubmit={handleSubmit} className="bg-white rounded-[40px] p-8 md:p-12 border border-zinc-100 shadow-sm space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-zinc-900 mb-2">Create your account</h1>
+            <p className="text-zinc-500 text-sm">Join a safe community for platonic social companionship.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {([
+              { value: 'customer', label: 'Find a Friend', icon: UserCircle },
+              { value: 'friend', label: 'Become a Friend', icon: Heart }
+            ] as const).map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setRole(option.value)}
+                className={cn(
+                  "p-4 rounded-2xl border text-sm font-bold flex flex-col items-center gap-2 transition-colors",
+                  role === option.value ? "bg-rose-50 border-rose-200 text-rose-700" : "bg-white border-zinc-100 text-zinc-500 hover:bg-zinc-50"
+                )}
+              >
+                <option.icon className="w-5 h-5" />
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className={labelClass}>Name</label>
+            <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Email</label>
+            <input type="email" required value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Password</label>
+            <input type="password" required minLength={8} value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>City</label>
+            <input type="text" value={city} onChange={(e) => setCity(e.target.value)} className={inputClass} />
+          </div>
+
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-4 bg-rose-600 text-white rounded-2xl font-bold text-lg hover:bg-rose-700 transition-all shadow-lg shadow-rose-200 disabled:opacity-60"
+          >
+            {submitting ? 'Creating account...' : 'Sign Up'}
+          </button>
+
+          <p className="text-sm text-zinc-500 text-center">
+            Already have an account? <Link to={`/login?${searchParams}`} className="text-rose-600 font-bold">Log in</Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SignupPage;
@@ -0,0 +1,28 @@
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import PhoneVerificationCard from '../components/PhoneVerificationCard';
+
+// Where booking and chat send users who haven't confirmed a mobile number yet.
+const VerifyPhonePage = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const next = searchParams.get('next') || '/';
+
+  if (loading) return <div className="py-20 text-center">Loading...</div>;
+  if (!user) return <Navigate to={`/login?next=${encodeURIComponent(`/verify-phone?next=${next}`)}`} replace />;
+
+  return (
+    <div className="py-24 bg-zinc-50 min-h-screen">
+      <div className="max-w-xl mx-auto px-4 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-zinc-900 mb-2">Verify your mobile number</h1>
+          <p className="text-zinc-500 text-sm">Every FriendlyTime member confirms a mobile number before booking or chatting.</p>
+        </div>
+        <PhoneVerificationCard onVerified={() => navigate(next)} />
+      </div>
+    </div>
+  );
+};
+
+export default VerifyPhonePage;
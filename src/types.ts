@@ -0,0 +1,521 @@
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: 'customer' | 'friend';
+  city: string;
+  age: number;
+  languages: string[];
+  interests: string[];
+  about: string;
+  hourly_rate: number;
+  verified: number;
+  // Average of reviews received; null until the first review.
+  rating: number | null;
+  review_count: number;
+  // Activities a friend offers; only on friend profiles.
+  activities?: FriendActivity[];
+  // Only on the signed-in user's own record.
+  friend_status?: FriendStatus | null;
+  is_admin?: number;
+  phone?: string | null;
+  phone_verified_at?: string | null;
+}
+
+export type FriendStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+// The signed-in user's own profile, as returned by /api/me/profile.
+export interface Profile extends User {
+  timezone: string;
+  safety_agreed_at: string | null;
+  application_submitted_at: string | null;
+  application_reviewed_at: string | null;
+  // Why an application was rejected.
+  application_note: string | null;
+}
+
+export interface FriendActivity {
+  id: number;
+  name: string;
+  // Rupees per hour; null means the friend's profile rate.
+  hourly_rate: number | null;
+}
+
+export type DocumentType = 'aadhaar' | 'pan';
+
+// An ID check as the server shares it; the document number only ever arrives masked.
+export interface IdVerification {
+  id: number;
+  user_id: number;
+  document_type: DocumentType;
+  masked_number: string;
+  mime_type: string;
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  reason: string | null;
+  reviewed_by: number | null;
+  reviewed_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+  has_document: boolean;
+  user_name?: string;
+  user_email?: string;
+}
+
+export interface VerificationState {
+  verified: boolean;
+  latest: IdVerification | null;
+  canSubmit: boolean;
+  blocker: string | null;
+}
+
+export interface TaxonomyTerm {
+  id: number;
+  name: string;
+  matched_synonym?: string | null;
+}
+
+// clean and masked messages reached the receiver; held and blocked ones did not.
+export type ModerationStatus = 'clean' | 'masked' | 'flagged' | 'held' | 'blocked' | 'released' | 'removed';
+
+export type MessageKind = 'text' | 'image' | 'file' | 'system';
+
+// An image or file sent in chat. Served from /api/attachments/:id, images also at /thumbnail.
+export interface ChatAttachment {
+  id: number;
+  kind: 'image' | 'file';
+  mime_type: string;
+  file_name: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+}
+
+export interface Message {
+  id?: number;
+  sender_id: number;
+  receiver_id: number;
+  kind?: MessageKind;
+  // For image and file messages, an optional caption.
+  content: string;
+  attachment?: ChatAttachment | null;
+  created_at: string;
+  // Shown on the sender's own messages; receivers never get held or blocked ones.
+  moderation_status?: ModerationStatus;
+  delivered_at?: string | null;
+  read_at?: string | null;
+  // Set by the sending client so a resend is stored only once.
+  client_id?: string | null;
+  // Client-side only: a message of ours the server hasn't acked yet.
+  pending?: 'sending' | 'failed';
+}
+
+// A thread in the inbox: who with, the last message either way and how many are unread.
+export interface Conversation {
+  user_id: number;
+  name: string;
+  role: User['role'];
+  city: string | null;
+  verified: number;
+  last_message_id: number;
+  last_message_kind: MessageKind;
+  last_message: string;
+  last_sender_id: number;
+  last_message_status: ModerationStatus;
+  last_message_at: string;
+  unread_count: number;
+}
+
+export interface MessagePage {
+  // Oldest first.
+  messages: Message[];
+  // Pass back as ?cursor= for the page before this one; null at the start of the conversation.
+  nextCursor: string | null;
+}
+
+// A search hit; the snippet marks matches with \u0002 … \u0003 (see splitSnippet).
+export interface MessageSearchResult {
+  id: number;
+  sender_id: number;
+  receiver_id: number;
+  created_at: string;
+  snippet: string;
+  user_id: number;
+  name: string;
+}
+
+export interface Presence {
+  online: boolean;
+  lastSeenAt: string | null;
+}
+
+// A message in the admin moderation queue, with the text as it was typed.
+export interface ModeratedMessage extends Message {
+  id: number;
+  sender_name: string;
+  receiver_name: string;
+  moderation_status: ModerationStatus;
+  moderation_flags: string[];
+  original_content: string | null;
+}
+
+export type BookingStatus =
+  | 'requested'
+  | 'accepted'
+  | 'declined'
+  | 'confirmed'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'expired'
+  | 'no_show';
+
+export type PaymentStatus = 'requires_confirmation' | 'authorized' | 'captured' | 'cancelled' | 'refunded' | 'failed';
+
+export interface Payment {
+  id: number;
+  booking_id: number;
+  gateway: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  created_at: string;
+  updated_at: string;
+  clientSecret?: string;
+}
+
+export interface Booking {
+  id: number;
+  customer_id: number;
+  friend_id: number;
+  customer_name?: string;
+  friend_name?: string;
+  activity: string;
+  duration: string;
+  start_at: string | null;
+  end_at: string | null;
+  timezone: string | null;
+  status: BookingStatus;
+  // Paise, fixed when the booking was requested.
+  subtotal: number | null;
+  platform_fee: number | null;
+  friend_payout: number | null;
+  tax: number | null;
+  total: number | null;
+  promo_code: string | null;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+  // Status of the latest payment attempt, if the customer has started paying.
+  payment_status?: PaymentStatus | null;
+  // Whether the signed-in user has reviewed this booking (list view only).
+  reviewed?: number;
+  // Lifecycle actions the signed-in user may take, e.g. "accept" or "cancel".
+  actions: string[];
+}
+
+export interface AvailabilitySlot {
+  startAt: string;
+  endAt: string;
+}
+
+export interface AvailabilityDay {
+  date: string;
+  slots: AvailabilitySlot[];
+}
+
+export interface Availability {
+  timezone: string;
+  minNoticeHours: number;
+  days: AvailabilityDay[];
+}
+
+// Amounts are in paise.
+export interface QuoteLine {
+  code: string;
+  label: string;
+  amount: number;
+}
+
+export interface Quote {
+  currency: 'INR';
+  hours: number;
+  hourlyRate: number;
+  lines: QuoteLine[];
+  subtotal: number;
+  platformFee: number;
+  friendPayout: number;
+  tax: number;
+  total: number;
+  promoCode: string | null;
+}
+
+export interface Review {
+  id: number;
+  booking_id: number;
+  reviewer_id: number;
+  reviewer_name?: string;
+  reviewee_id: number;
+  rating: number;
+  body: string | null;
+  punctuality: number | null;
+  communication: number | null;
+  reply: string | null;
+  replied_at: string | null;
+  created_at: string;
+}
+
+export interface ReviewPage {
+  rating: number | null;
+  reviewCount: number;
+  subScores: { punctuality: number | null; communication: number | null };
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  reviews: Review[];
+}
+
+export type AccountStatus = 'active' | 'suspended' | 'banned';
+
+// A user as the admin console sees them, including private and moderation fields.
+export interface AdminUser {
+  id: number;
+  name: string;
+  email: string;
+  phone: string | null;
+  role: User['role'];
+  city: string | null;
+  verified: number;
+  friend_status: FriendStatus | null;
+  is_admin: number;
+  account_status: AccountStatus;
+  suspended_until: string | null;
+  status_reason: string | null;
+  created_at: string | null;
+  // 0 while banned or inside a suspension.
+  active: number;
+}
+
+export interface AuditEntry {
+  id: number;
+  actor_id: number | null;
+  actor_name: string | null;
+  action: string;
+  subject_user_id: number | null;
+  subject_name?: string | null;
+  entity: string;
+  entity_id: number | null;
+  detail: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface MetricsDay {
+  day: string;
+  bookings: number;
+  // Paise.
+  gmv: number;
+  fees: number;
+  refunds: number;
+}
+
+export interface PlatformMetrics {
+  days: MetricsDay[];
+  totals: Omit<MetricsDay, 'day'>;
+  queues: { friendApplications: number; idVerifications: number; reports: number; messages: number };
+  users: { customers: number; friends: number; restricted: number };
+}
+
+export interface LedgerLine {
+  transaction_id: number;
+  kind: string;
+  memo: string | null;
+  created_at: string;
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export interface BookingEvent {
+  id: number;
+  from_status: BookingStatus | null;
+  to_status: BookingStatus;
+  actor_id: number | null;
+  actor_name: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export type ReportCategory =
+  | 'harassment'
+  | 'inappropriate_conduct'
+  | 'physical_intimacy_request'
+  | 'safety_threat'
+  | 'fraud_or_scam'
+  | 'fake_profile'
+  | 'other';
+
+export type ReportSubject = 'user' | 'message' | 'booking';
+
+export type ReportStatus = 'open' | 'escalated' | 'actioned' | 'dismissed';
+
+// A report as the admin queue sees it, with the messages captured when it was filed.
+export interface Report {
+  id: number;
+  reporter_id: number;
+  reporter_name: string;
+  reported_user_id: number;
+  reported_user_name: string;
+  reported_account_status: AccountStatus;
+  reports_against_user: number;
+  subject_type: ReportSubject;
+  subject_id: number;
+  category: ReportCategory;
+  description: string;
+  evidence: { messages: Message[]; capturedAt: string } | null;
+  status: ReportStatus;
+  resolution_note: string | null;
+  resolved_by: number | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface BlockedUser {
+  id: number;
+  name: string;
+  created_at: string;
+}
+
+export type SafetyIncidentStatus = 'active' | 'ended' | 'resolved';
+// 'check_in' alerts are raised for staff when someone doesn't answer a safety check-in.
+export type SafetyIncidentSource = 'button' | 'check_in';
+
+// The user's own Safety Button alert.
+export interface SafetyIncident {
+  id: number;
+  booking_id: number;
+  status: SafetyIncidentStatus;
+  share_expires_at: string | null;
+  located_at: string | null;
+  acknowledged_at: string | null;
+  ended_at: string | null;
+  created_at: string;
+}
+
+// What someone holding a share link sees.
+export interface SharedIncident {
+  name: string;
+  started_at: string;
+  expires_at: string;
+  acknowledged: boolean;
+  location: { latitude: number; longitude: number; accuracy: number | null; located_at: string } | null;
+  booking: { activity: string; with_name: string; start_at: string | null; end_at: string | null; timezone: string | null };
+}
+
+export type SafetyIncidentEventType = 'triggered' | 'check_in_missed' | 'location' | 'link_created' | 'link_opened' | 'acknowledged' | 'ended' | 'resolved';
+
+export interface SafetyIncidentEvent {
+  id: number;
+  type: SafetyIncidentEventType;
+  actor_id: number | null;
+  actor_name: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  note: string | null;
+  created_at: string;
+}
+
+// An incident in the admin SOS queue, with both people on the booking.
+export interface AdminSafetyIncident {
+  id: number;
+  booking_id: number;
+  user_id: number;
+  status: SafetyIncidentStatus;
+  source: SafetyIncidentSource;
+  share_expires_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  located_at: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by_name: string | null;
+  ended_at: string | null;
+  resolved_at: string | null;
+  resolution_note: string | null;
+  created_at: string;
+  user_name: string;
+  user_phone: string | null;
+  other_user_id: number;
+  other_user_name: string;
+  other_user_phone: string | null;
+  activity: string;
+  start_at: string | null;
+  end_at: string | null;
+  timezone: string | null;
+  booking_status: BookingStatus;
+  // Detail view only.
+  timeline?: SafetyIncidentEvent[];
+  emergency_contacts?: Pick<EmergencyContact, 'name' | 'phone' | 'relationship' | 'status'>[];
+}
+
+export type EmergencyContactStatus = 'pending' | 'verified' | 'declined';
+
+export interface EmergencyContact {
+  id: number;
+  name: string;
+  phone: string;
+  relationship: string | null;
+  status: EmergencyContactStatus;
+  invited_at: string | null;
+  verified_at: string | null;
+  created_at: string;
+}
+
+// What a contact sees from the link texted to them.
+export interface EmergencyContactInvite {
+  name: string;
+  user_name: string;
+  status: EmergencyContactStatus;
+}
+
+export type CheckInKind = 'start' | 'end';
+
+// A check-in waiting on the user; 'missed' ones have already gone to the safety team.
+export interface SafetyCheckIn {
+  id: number;
+  booking_id: number;
+  kind: CheckInKind;
+  status: 'pending' | 'missed';
+  created_at: string;
+  activity: string;
+  start_at: string | null;
+  end_at: string | null;
+  timezone: string | null;
+  other_user_name: string;
+}
+
+export type NotificationType =
+  | 'booking_requested'
+  | 'booking_accepted'
+  | 'booking_cancelled'
+  | 'message_received'
+  | 'review_received'
+  | 'payout_sent';
+
+export type NotificationChannel = 'in_app' | 'email' | 'sms';
+
+// An entry in the Navbar bell.
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  title: string;
+  body: string;
+  url: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreference {
+  type: NotificationType;
+  label: string;
+  channels: Record<NotificationChannel, boolean>;
+}